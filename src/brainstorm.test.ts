@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  brainstormRounds,
+  rejectionReason,
+  resolveBrainstormConstraints,
+  type BrainstormConstraints,
+  type BrainstormSource,
+} from "./brainstorm.js";
+import type { BrainstormResult } from "./types.js";
+
+type Suggestion = BrainstormResult["suggestions"][number];
+
+function suggestion(domain: string, overrides: Partial<Suggestion> = {}): Suggestion {
+  const [name, tld] = domain.split(".");
+  return { name, domain, tld, available: true, purchase_price: 12, premium: false, ...overrides };
+}
+
+/** A source answering each round from a script; records every request */
+function scripted(rounds: Suggestion[][]) {
+  const requests: Array<{ prompt: string; count: number; exclude: string[] }> = [];
+  const source: BrainstormSource = async (prompt, count, exclude) => {
+    requests.push({ prompt, count, exclude });
+    return {
+      prompt,
+      generated_at: "2026-10-15T12:00:00.000Z",
+      suggestions: rounds[requests.length - 1] ?? [],
+    };
+  };
+  return { requests, source };
+}
+
+function constraints(args: Parameters<typeof resolveBrainstormConstraints>[0]): BrainstormConstraints {
+  const resolved = resolveBrainstormConstraints(args);
+  assert.ok(resolved);
+  return resolved;
+}
+
+describe("resolveBrainstormConstraints", () => {
+  it("is null without constraints and validates the ones given", () => {
+    assert.equal(resolveBrainstormConstraints({}), null);
+    const resolved = constraints({ banned_letters: "XxQ", tlds: [".IO"] });
+    assert.deepEqual(resolved.banned_letters, ["x", "q"]);
+    assert.deepEqual(resolved.tlds, ["io"]);
+    assert.throws(() => resolveBrainstormConstraints({ max_length: 0 }), /positive whole number/);
+    assert.throws(() => resolveBrainstormConstraints({ style: "rhyming" }), /Unknown style/);
+  });
+});
+
+describe("rejectionReason", () => {
+  it("names the first constraint a suggestion fails", () => {
+    const c = constraints({ max_length: 6, tlds: ["io"], max_price: 20, banned_words: ["ai"] });
+    assert.equal(rejectionReason(suggestion("toolong.io"), c), "too_long");
+    assert.equal(rejectionReason(suggestion("short.com"), c), "wrong_tld");
+    assert.equal(rejectionReason(suggestion("pricy.io", { purchase_price: 99 }), c), "over_price");
+    assert.equal(rejectionReason(suggestion("mailo.io"), c), "banned_word");
+    assert.equal(rejectionReason(suggestion("swift.io"), c), null);
+    // An unknown price is not over budget
+    assert.equal(rejectionReason(suggestion("swift.io", { purchase_price: null }), c), null);
+  });
+});
+
+describe("brainstormRounds", () => {
+  it("keeps asking, excluding what it has seen, until enough pass", async () => {
+    const { requests, source } = scripted([
+      [suggestion("alpha.io"), suggestion("toolongname.io")],
+      [suggestion("alpha.io"), suggestion("beta.io"), suggestion("gamma.com")],
+      [suggestion("delta.io")],
+    ]);
+    const result = await brainstormRounds(
+      "tools",
+      3,
+      constraints({ max_length: 8, tlds: ["io"] }),
+      5,
+      source
+    );
+
+    assert.deepEqual(result.suggestions.map((s) => s.domain), ["alpha.io", "beta.io", "delta.io"]);
+    assert.equal(result.rounds?.count, 3);
+    assert.equal(result.rounds?.stopped_because, "target_reached");
+    assert.deepEqual(result.rounds?.rejection_counts, { too_long: 1, wrong_tld: 1 });
+    assert.equal(result.prompt, "tools");
+
+    assert.deepEqual(requests[1].exclude, ["alpha.io", "toolongname.io"]);
+    assert.match(requests[1].prompt, /^tools \(Constraints: .*\)$/);
+    assert.match(requests[1].prompt, /do not repeat: alpha\.io, toolongname\.io\.\)$/);
+    assert.deepEqual(requests.map((r) => r.count), [6, 4, 2]);
+  });
+
+  it("stops when a round brings nothing new or the rounds run out", async () => {
+    const c = constraints({ available_only: true });
+    const stale = scripted([[suggestion("taken.io", { available: false })], [suggestion("taken.io")]]);
+    const staleResult = await brainstormRounds("x", 2, c, 5, stale.source);
+    assert.equal(staleResult.rounds?.stopped_because, "no_new_candidates");
+    assert.equal(stale.requests.length, 2);
+
+    const taken = (d: string) => suggestion(d, { available: false });
+    const busy = scripted([[taken("a.io")], [taken("b.io")]]);
+    const busyResult = await brainstormRounds("x", 2, c, 2, busy.source);
+    assert.equal(busyResult.rounds?.stopped_because, "max_rounds");
+    assert.deepEqual(busyResult.suggestions, []);
+    assert.deepEqual(busyResult.rounds?.rejection_counts, { taken: 2 });
+  });
+});
@@ -0,0 +1,238 @@
+import { normalizeTld } from "./domain.js";
+import { InvalidInputError } from "./errors.js";
+import type { BrainstormRejectionReason, BrainstormResult } from "./types.js";
+
+/**
+ * Constraints for brainstorm_domains.
+ *
+ * Constraints are passed to the API as hints, but the API may not honor
+ * them, so every suggestion is also checked locally. Suggestions that fail
+ * are rejected with a reason, and every domain already seen is excluded
+ * from the next round.
+ */
+
+export const BRAINSTORM_STYLES = ["real_word", "invented", "compound"] as const;
+export type BrainstormStyle = (typeof BRAINSTORM_STYLES)[number];
+
+export type BrainstormConstraints = NonNullable<BrainstormResult["constraints"]>;
+
+/**
+ * "auto" uses the API and falls back to client sampling if it is unavailable;
+ * "api" and "sampling" use only that source
+ */
+export const BRAINSTORM_MODES = ["auto", "api", "sampling"] as const;
+export type BrainstormMode = (typeof BRAINSTORM_MODES)[number];
+
+/** Most suggestions asked for in one request */
+export const MAX_BRAINSTORM_COUNT = 20;
+
+/**
+ * One brainstorm request: the prompt with constraint hints, how many
+ * suggestions to ask for, and domains not to suggest again. Backed by the
+ * API, or by the client's model through sampling.
+ */
+export type BrainstormSource = (
+  prompt: string,
+  count: number,
+  exclude: string[]
+) => Promise<BrainstormResult>;
+
+type Suggestion = BrainstormResult["suggestions"][number];
+
+/** Raw constraint arguments, as passed to the tool */
+export interface BrainstormConstraintArgs {
+  max_length?: number;
+  tlds?: string[];
+  max_price?: number;
+  banned_words?: string[];
+  banned_letters?: string;
+  available_only?: boolean;
+  style?: string;
+}
+
+const STYLE_HINTS: Record<BrainstormStyle, string> = {
+  real_word: "real dictionary words",
+  invented: "invented, brandable words",
+  compound: "compounds of two short words",
+};
+
+/**
+ * Validate constraint arguments; null when none were given
+ */
+export function resolveBrainstormConstraints(
+  args: BrainstormConstraintArgs
+): BrainstormConstraints | null {
+  const { max_length, max_price, style } = args;
+  if (
+    max_length !== undefined &&
+    (!Number.isInteger(max_length) || max_length < 1)
+  ) {
+    throw new InvalidInputError("max_length must be a positive whole number");
+  }
+  if (max_price !== undefined && (typeof max_price !== "number" || max_price < 0)) {
+    throw new InvalidInputError("max_price must be a non-negative number");
+  }
+  if (style !== undefined && !(BRAINSTORM_STYLES as readonly string[]).includes(style)) {
+    throw new InvalidInputError(
+      `Unknown style "${style}" (expected one of: ${BRAINSTORM_STYLES.join(", ")})`
+    );
+  }
+
+  const constraints: BrainstormConstraints = {
+    max_length: max_length ?? null,
+    tlds: args.tlds && args.tlds.length > 0 ? args.tlds.map(normalizeTld) : null,
+    max_price: max_price ?? null,
+    banned_words: (args.banned_words ?? [])
+      .map((w) => w.trim().toLowerCase())
+      .filter(Boolean),
+    banned_letters: [
+      ...new Set((args.banned_letters ?? "").toLowerCase().replace(/[^a-z0-9]/g, "")),
+    ],
+    available_only: args.available_only === true,
+    style: (style as BrainstormStyle | undefined) ?? null,
+  };
+
+  const active =
+    constraints.max_length !== null ||
+    constraints.tlds !== null ||
+    constraints.max_price !== null ||
+    constraints.banned_words.length > 0 ||
+    constraints.banned_letters.length > 0 ||
+    constraints.available_only ||
+    constraints.style !== null;
+  return active ? constraints : null;
+}
+
+/**
+ * Why a suggestion fails the constraints, or null if it passes. Style is
+ * only a hint and never rejects.
+ */
+export function rejectionReason(
+  s: Suggestion,
+  constraints: BrainstormConstraints
+): BrainstormRejectionReason | null {
+  const name = s.name.toLowerCase();
+  if (constraints.available_only && !s.available) return "taken";
+  if (constraints.max_length !== null && name.length > constraints.max_length) {
+    return "too_long";
+  }
+  if (constraints.tlds && !constraints.tlds.includes(s.tld.toLowerCase())) {
+    return "wrong_tld";
+  }
+  if (
+    constraints.max_price !== null &&
+    s.purchase_price !== null &&
+    s.purchase_price > constraints.max_price
+  ) {
+    return "over_price";
+  }
+  if (constraints.banned_words.some((w) => name.includes(w))) return "banned_word";
+  if (constraints.banned_letters.some((l) => name.includes(l))) return "banned_letter";
+  return null;
+}
+
+/**
+ * Spell the constraints out in the prompt, so the API can aim for them
+ */
+export function constraintHints(
+  constraints: BrainstormConstraints,
+  alreadySuggested: string[]
+): string {
+  const hints: string[] = [];
+  if (constraints.max_length !== null) {
+    hints.push(`names of at most ${constraints.max_length} characters`);
+  }
+  if (constraints.tlds) {
+    hints.push(`only these TLDs: ${constraints.tlds.map((t) => `.${t}`).join(", ")}`);
+  }
+  if (constraints.max_price !== null) {
+    hints.push(`first-year price at most $${constraints.max_price}`);
+  }
+  if (constraints.banned_words.length > 0) {
+    hints.push(`avoid the words: ${constraints.banned_words.join(", ")}`);
+  }
+  if (constraints.banned_letters.length > 0) {
+    hints.push(`avoid the letters: ${constraints.banned_letters.join(", ")}`);
+  }
+  if (constraints.style) {
+    hints.push(`prefer ${STYLE_HINTS[constraints.style]}`);
+  }
+  if (alreadySuggested.length > 0) {
+    hints.push(`already suggested, do not repeat: ${alreadySuggested.join(", ")}`);
+  }
+  return hints.length > 0 ? ` (Constraints: ${hints.join("; ")}.)` : "";
+}
+
+/**
+ * Ask the source for suggestions round by round until `count` pass the
+ * constraints, a round brings nothing new, or `maxRounds` is used up
+ */
+export async function brainstormRounds(
+  prompt: string,
+  count: number,
+  constraints: BrainstormConstraints,
+  maxRounds: number,
+  source: BrainstormSource
+): Promise<BrainstormResult> {
+  const accepted: BrainstormResult["suggestions"] = [];
+  const rejected: NonNullable<BrainstormResult["rounds"]>["rejected"] = [];
+  const seen = new Set<string>();
+  let generatedAt = new Date().toISOString();
+  let rounds = 0;
+  let stoppedBecause: NonNullable<BrainstormResult["rounds"]>["stopped_because"] =
+    "max_rounds";
+  let model: string | undefined;
+
+  while (rounds < maxRounds) {
+    rounds++;
+    const exclude = [...seen];
+    const response = await source(
+      prompt + constraintHints(constraints, exclude),
+      // Ask for extra, since some will be rejected
+      Math.min((count - accepted.length) * 2, MAX_BRAINSTORM_COUNT),
+      exclude
+    );
+    generatedAt = response.generated_at;
+    model = response.model ?? model;
+
+    const candidates = response.suggestions.filter((s) => !seen.has(s.domain));
+    if (candidates.length === 0) {
+      stoppedBecause = "no_new_candidates";
+      break;
+    }
+    for (const s of candidates) {
+      seen.add(s.domain);
+      const reason = rejectionReason(s, constraints);
+      if (reason) {
+        rejected.push({ domain: s.domain, reason });
+      } else if (accepted.length < count) {
+        accepted.push(s);
+      }
+    }
+    if (accepted.length >= count) {
+      stoppedBecause = "target_reached";
+      break;
+    }
+  }
+
+  const rejectionCounts: NonNullable<BrainstormResult["rounds"]>["rejection_counts"] = {};
+  for (const { reason } of rejected) {
+    rejectionCounts[reason] = (rejectionCounts[reason] ?? 0) + 1;
+  }
+
+  return {
+    prompt,
+    generated_at: generatedAt,
+    suggestions: accepted,
+    ...(model ? { model } : {}),
+    constraints,
+    rounds: {
+      count: rounds,
+      max: maxRounds,
+      target_count: count,
+      stopped_because: stoppedBecause,
+      rejection_counts: rejectionCounts,
+      rejected,
+    },
+  };
+}
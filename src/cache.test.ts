@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { createCache } from "./cache.js";
+import { createAgentDomainClient } from "./client.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { createFixtureFetch } from "./fixtures.js";
+
+describe("createCache", () => {
+  it("reuses a stored value until it expires", async () => {
+    const cache = createCache();
+    let calls = 0;
+    const fetcher = async () => ({ n: ++calls });
+    const options = { ttlSeconds: () => 60 };
+
+    const first = await cache.getOrFetch("k", fetcher, options);
+    const second = await cache.getOrFetch("k", fetcher, options);
+    assert.equal(first.local_cache.hit, false);
+    assert.equal(second.local_cache.hit, true);
+    assert.equal(second.n, 1);
+
+    const fresh = await cache.getOrFetch("k", fetcher, { ...options, fresh: true });
+    assert.equal(fresh.local_cache.hit, false);
+    assert.equal(fresh.n, 2);
+  });
+
+  it("does not store values with no TTL", async () => {
+    const cache = createCache();
+    let calls = 0;
+    const fetcher = async () => ({ n: ++calls });
+    await cache.getOrFetch("k", fetcher, { ttlSeconds: () => 0 });
+    const again = await cache.getOrFetch("k", fetcher, { ttlSeconds: () => 0 });
+    assert.equal(again.n, 2);
+    assert.equal(await cache.peek("k"), null);
+  });
+
+  it("shares one fetch between concurrent requests for a key", async () => {
+    const cache = createCache();
+    let calls = 0;
+    const fetcher = async () => {
+      calls++;
+      await sleep(10);
+      return { ok: true };
+    };
+    await Promise.all(
+      Array.from({ length: 5 }, () => cache.getOrFetch("k", fetcher, { ttlSeconds: () => 60 }))
+    );
+    assert.equal(calls, 1);
+  });
+
+  it("evicts the oldest entries beyond its size", async () => {
+    const cache = createCache({ maxEntries: 2 });
+    for (const key of ["a", "b", "c"]) {
+      await cache.getOrFetch(key, async () => ({ key }), { ttlSeconds: () => 60 });
+    }
+    assert.deepEqual(await cache.peek("c"), { key: "c" });
+    const fetcher = async () => ({ key: "refetched" });
+    const c = await cache.getOrFetch("c", fetcher, { ttlSeconds: () => 60 });
+    const a = await cache.getOrFetch("a", fetcher, { ttlSeconds: () => 60 });
+    assert.equal(c.local_cache.hit, true);
+    assert.equal(a.local_cache.hit, false);
+  });
+
+  it("persists entries to its file on flush", async () => {
+    const filePath = join(await mkdtemp(join(tmpdir(), "cache-test-")), "cache.json");
+    const cache = createCache({ filePath });
+    await cache.getOrFetch("k", async () => ({ saved: true }), { ttlSeconds: () => 60 });
+    await cache.flush();
+
+    const reloaded = createCache({ filePath });
+    const value = await reloaded.getOrFetch("k", async () => ({ saved: false }), {
+      ttlSeconds: () => 60,
+    });
+    assert.equal(value.local_cache.hit, true);
+    assert.equal(value.saved, true);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps at most the limit in flight and the results in order", async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, i) => {
+      active++;
+      peak = Math.max(peak, active);
+      await sleep(ms);
+      active--;
+      if (i === 3) throw new Error("boom");
+      return ms * 2;
+    });
+    assert.equal(peak, 2);
+    assert.deepEqual(
+      results.map((r) => (r.ok ? r.value : (r.error as Error).message)),
+      [60, 20, 40, "boom", 30]
+    );
+  });
+});
+
+describe("client lookups", () => {
+  it("share one upstream request and then hit the cache", async () => {
+    const fixtures = createFixtureFetch();
+    const requests: string[] = [];
+    const client = createAgentDomainClient({
+      fetch: (input, init) => {
+        requests.push(String(input));
+        return fixtures(input, init);
+      },
+    });
+
+    const results = await Promise.all([
+      client.checkDomain("agentloop.com"),
+      client.checkDomain("AgentLoop.com"),
+      client.checkDomain("https://www.agentloop.com/"),
+    ]);
+    assert.equal(requests.length, 1);
+    assert.ok(results.every((r) => r.domain === "agentloop.com"));
+
+    const cached = await client.checkDomain("agentloop.com");
+    assert.equal(cached.local_cache?.hit, true);
+    assert.equal(requests.length, 1);
+
+    await client.checkDomain("agentloop.com", true);
+    assert.equal(requests.length, 2);
+  });
+
+  it("read cached categories without calling the API", async () => {
+    const fixtures = createFixtureFetch();
+    let requests = 0;
+    const client = createAgentDomainClient({
+      fetch: (input, init) => {
+        requests++;
+        return fixtures(input, init);
+      },
+    });
+
+    assert.equal(await client.cachedCategories(), null);
+    assert.equal(requests, 0);
+    const listed = await client.listCategories();
+    const cached = await client.cachedCategories();
+    assert.deepEqual(cached?.categories, listed.categories);
+    assert.equal(requests, 1);
+  });
+});
@@ -0,0 +1,188 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { LocalCacheInfo } from "./types.js";
+
+/**
+ * Local lookup cache.
+ *
+ * Entries live in memory and, when a file path is configured, are mirrored
+ * to a JSON file so they survive restarts. Concurrent requests for the same
+ * key share one in-flight fetch.
+ */
+
+interface CacheEntry {
+  value: unknown;
+  stored_at: number;
+  expires_at: number;
+}
+
+export interface CacheOptions {
+  /** JSON file to persist entries to; memory-only when omitted */
+  filePath?: string;
+  /** Oldest entries are evicted beyond this size */
+  maxEntries?: number;
+}
+
+export interface FetchOptions<T> {
+  /** Skip any cached value and refetch */
+  fresh?: boolean;
+  /** How long a fetched value may be reused; 0 or less means do not store */
+  ttlSeconds: (value: T) => number;
+}
+
+export type Cached<T> = T & { local_cache: LocalCacheInfo };
+
+export interface LookupCache {
+  getOrFetch<T extends object>(
+    key: string,
+    fetcher: () => Promise<T>,
+    options: FetchOptions<T>
+  ): Promise<Cached<T>>;
+  /** The stored value for a key, without fetching; null when missing or expired */
+  peek<T extends object>(key: string): Promise<T | null>;
+  clear(): void;
+  /** Write any pending changes to the cache file now */
+  flush(): Promise<void>;
+}
+
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Create a lookup cache, optionally backed by a file
+ */
+export function createCache(options: CacheOptions = {}): LookupCache {
+  const maxEntries = options.maxEntries ?? 5000;
+  const entries = new Map<string, CacheEntry>();
+  const inFlight = new Map<string, Promise<unknown>>();
+  let loaded: Promise<void> | null = null;
+  let saveTimer: NodeJS.Timeout | null = null;
+
+  function load(): Promise<void> {
+    if (!options.filePath) return Promise.resolve();
+    if (!loaded) {
+      loaded = readFile(options.filePath, "utf8")
+        .then((raw) => {
+          const stored = JSON.parse(raw) as Record<string, CacheEntry>;
+          const now = Date.now();
+          for (const [key, entry] of Object.entries(stored)) {
+            if (entry.expires_at > now && !entries.has(key)) {
+              entries.set(key, entry);
+            }
+          }
+        })
+        .catch(() => {
+          // Missing or unreadable cache file; start empty
+        });
+    }
+    return loaded;
+  }
+
+  async function save(): Promise<void> {
+    const filePath = options.filePath;
+    if (!filePath) return;
+    const now = Date.now();
+    const live: Record<string, CacheEntry> = {};
+    for (const [key, entry] of entries) {
+      if (entry.expires_at > now) live[key] = entry;
+    }
+    try {
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, JSON.stringify(live));
+    } catch (error) {
+      console.error("Failed to write cache file:", error);
+    }
+  }
+
+  function scheduleSave() {
+    if (!options.filePath || saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      void save();
+    }, SAVE_DELAY_MS);
+    // A pending save must not keep the process alive; callers flush on exit
+    saveTimer.unref();
+  }
+
+  function store(key: string, value: unknown, ttlSeconds: number) {
+    if (!(ttlSeconds > 0)) return;
+    const now = Date.now();
+    entries.delete(key);
+    entries.set(key, {
+      value,
+      stored_at: now,
+      expires_at: now + ttlSeconds * 1000,
+    });
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value as string;
+      entries.delete(oldest);
+    }
+    scheduleSave();
+  }
+
+  async function getOrFetch<T extends object>(
+    key: string,
+    fetcher: () => Promise<T>,
+    fetchOptions: FetchOptions<T>
+  ): Promise<Cached<T>> {
+    await load();
+    const now = Date.now();
+
+    if (!fetchOptions.fresh) {
+      const entry = entries.get(key);
+      if (entry && entry.expires_at > now) {
+        return {
+          ...(entry.value as T),
+          local_cache: {
+            hit: true,
+            age_seconds: Math.round((now - entry.stored_at) / 1000),
+            expires_at: new Date(entry.expires_at).toISOString(),
+          },
+        };
+      }
+      if (entry) entries.delete(key);
+    }
+
+    let pending = inFlight.get(key) as Promise<T> | undefined;
+    if (!pending) {
+      pending = fetcher().then((value) => {
+        store(key, value, fetchOptions.ttlSeconds(value));
+        return value;
+      });
+      inFlight.set(key, pending);
+      const clear = () => inFlight.delete(key);
+      pending.then(clear, clear);
+    }
+
+    const value = await pending;
+    const entry = entries.get(key);
+    return {
+      ...value,
+      local_cache: {
+        hit: false,
+        age_seconds: 0,
+        expires_at: entry ? new Date(entry.expires_at).toISOString() : null,
+      },
+    };
+  }
+
+  async function peek<T extends object>(key: string): Promise<T | null> {
+    await load();
+    const entry = entries.get(key);
+    return entry && entry.expires_at > Date.now() ? (entry.value as T) : null;
+  }
+
+  return {
+    getOrFetch,
+    peek,
+    clear() {
+      entries.clear();
+      scheduleSave();
+    },
+    async flush() {
+      if (!saveTimer) return;
+      clearTimeout(saveTimer);
+      saveTimer = null;
+      await save();
+    },
+  };
+}
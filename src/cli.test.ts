@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+
+const CLI = join(__dirname, "cli.js");
+
+/** Run the CLI against the offline fixture backend */
+function run(args: string[], input = "") {
+  const { AGENT_DOMAIN_CACHE_FILE: _cacheFile, ...env } = process.env;
+  const result = spawnSync(process.execPath, [CLI, ...args], {
+    env: { ...env, AGENT_DOMAIN_BACKEND: "fixtures" },
+    input,
+    encoding: "utf8",
+    timeout: 30_000,
+  });
+  return { code: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe("cli exit codes", () => {
+  it("reports availability for a single domain", () => {
+    assert.equal(run(["check", "quickpulse.dev"]).code, 0);
+    assert.equal(run(["check", "example.com"]).code, 1);
+  });
+
+  it("needs every domain available in a bulk check", () => {
+    assert.equal(run(["check", "quickpulse.dev", "quickpulse.io"]).code, 0);
+    assert.equal(run(["check", "quickpulse.dev", "example.com"]).code, 1);
+    assert.equal(run(["check", "-"], "quickpulse.dev # ours\nexample.io\n").code, 1);
+  });
+
+  it("uses 2 for usage errors and failed lookups", () => {
+    const unknown = run(["check", "--colour", "quickpulse.dev"]);
+    assert.equal(unknown.code, 2);
+    assert.match(unknown.stderr, /Unknown option --colour/);
+    assert.equal(run(["explore"]).code, 2);
+    assert.equal(run(["launch"]).code, 2);
+    assert.equal(run(["check", "not a domain"]).code, 2);
+    assert.equal(run(["check", "quickpulse.dev", "not a domain"]).code, 2);
+  });
+
+  it("prints the raw result with --json", () => {
+    const { code, stdout } = run(["check", "example.com", "--json"]);
+    assert.equal(code, 1);
+    const result = JSON.parse(stdout) as { domain: string; available: boolean };
+    assert.equal(result.domain, "example.com");
+    assert.equal(result.available, false);
+  });
+});
@@ -0,0 +1,366 @@
+#!/usr/bin/env node
+
+import { MAX_BRAINSTORM_COUNT, resolveBrainstormConstraints } from "./brainstorm.js";
+import {
+  clientOptionsFromConfig,
+  createAgentDomainClient,
+  DEFAULT_BRAINSTORM_ROUNDS,
+  DEFAULT_BULK_CONCURRENCY,
+  MAX_BULK_CONCURRENCY,
+  type AgentDomainClient,
+} from "./client.js";
+import { loadConfig, resolveExploreTlds, type ServerConfig } from "./config.js";
+import {
+  withBrainstormCosts,
+  withBulkCosts,
+  withDomainCosts,
+  withExploreCosts,
+  withSearchCosts,
+} from "./costs.js";
+import { describeError, toAgentDomainError } from "./errors.js";
+import {
+  formatAnalyzeResult,
+  formatBrainstormResult,
+  formatBulkCheckResult,
+  formatCategoriesResult,
+  formatDomainDetailsResult,
+  formatDomainResult,
+  formatExploreResult,
+  formatSearchResult,
+} from "./format.js";
+
+/**
+ * Command-line entry point.
+ *
+ * With no subcommand, or with `serve`, starts the MCP server. The other
+ * subcommands call the API client directly and print the same text the
+ * tools return, or JSON with --json. Exit codes reflect availability so
+ * scripts can branch on them.
+ */
+
+/** Something available (or the command succeeded) */
+const EXIT_OK = 0;
+/** Nothing available: a checked domain is taken, or nothing matched */
+const EXIT_UNAVAILABLE = 1;
+/** Bad usage, or a lookup failed */
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: agent-domain-service-mcp [command] [options]
+
+Commands:
+  serve                        Start the MCP server (default; accepts --http, --host, --port)
+  check <domain...>            Check availability; reads domains from stdin when none are given or with "-"
+  details <domain>             Registrar, dates, status codes, and drop outlook for a taken domain
+  explore <name>               Check a name across TLDs (--tlds com,io --groups tech)
+  brainstorm <description>     Suggest available names (--count, --max-length, --tlds, --max-price, --available-only)
+  analyze <domain>             Score a domain name
+  search                       Search listed domains (--category, --min-price, --max-price, --tlds, --sort, --limit, --cursor)
+  categories                   List search categories
+
+Options:
+  --json                       Print the raw result as JSON
+  --fresh                      Skip the local cache
+  --concurrency <n>            Lookups in flight at once for bulk checks (default: ${DEFAULT_BULK_CONCURRENCY})
+  -h, --help                   Show this help
+
+Exit codes:
+  0  available (check, details: every domain; explore, brainstorm, search: at least one)
+  1  taken, or nothing available
+  2  usage error or failed lookup`;
+
+const VALUE_FLAGS = new Set([
+  "tlds",
+  "groups",
+  "count",
+  "max-length",
+  "max-price",
+  "min-price",
+  "category",
+  "sort",
+  "limit",
+  "cursor",
+  "concurrency",
+]);
+const BOOLEAN_FLAGS = new Set(["json", "fresh", "help", "available-only"]);
+
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Map<string, string | true>;
+}
+
+/**
+ * Split arguments into positionals and --flags (also accepted as
+ * --flag=value)
+ */
+function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h") {
+      flags.set("help", true);
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+    const [flag, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    if (BOOLEAN_FLAGS.has(flag)) {
+      flags.set(flag, true);
+    } else if (VALUE_FLAGS.has(flag)) {
+      const value = inline ?? argv[++i];
+      if (value === undefined) {
+        throw new UsageError(`--${flag} requires a value`);
+      }
+      flags.set(flag, value);
+    } else {
+      throw new UsageError(`Unknown option --${flag}`);
+    }
+  }
+  return { positionals, flags };
+}
+
+function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags.get(name);
+  return typeof value === "string" ? value : undefined;
+}
+
+function numberFlag(args: ParsedArgs, name: string): number | undefined {
+  const value = stringFlag(args, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new UsageError(`--${name} must be a number`);
+  }
+  return parsed;
+}
+
+function listFlag(args: ParsedArgs, name: string): string[] | undefined {
+  const value = stringFlag(args, name);
+  return value
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read domains from stdin: whitespace or comma separated, with # comments
+ */
+async function readStdinDomains(): Promise<string[]> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks)
+    .toString("utf8")
+    .split("\n")
+    .flatMap((line) => line.replace(/#.*/, "").split(/[\s,]+/))
+    .filter(Boolean);
+}
+
+/**
+ * Print a result as text or JSON
+ */
+function print<T>(args: ParsedArgs, result: T, format: (result: T) => string): void {
+  console.log(args.flags.has("json") ? JSON.stringify(result, null, 2) : format(result));
+}
+
+async function runCheck(client: AgentDomainClient, args: ParsedArgs): Promise<number> {
+  const fresh = args.flags.has("fresh");
+  const fromStdin =
+    args.positionals.length === 0 ||
+    (args.positionals.length === 1 && args.positionals[0] === "-");
+  if (fromStdin && process.stdin.isTTY) {
+    throw new UsageError("check needs at least one domain, or domains on stdin");
+  }
+  const domains = fromStdin ? await readStdinDomains() : args.positionals;
+
+  if (domains.length === 1 && !fromStdin) {
+    const result = withDomainCosts(await client.checkDomain(domains[0], fresh));
+    print(args, result, formatDomainResult);
+    return result.available ? EXIT_OK : EXIT_UNAVAILABLE;
+  }
+
+  if (domains.length === 0) {
+    throw new UsageError("No domains on stdin");
+  }
+  const concurrency = Math.min(
+    Math.max(numberFlag(args, "concurrency") ?? DEFAULT_BULK_CONCURRENCY, 1),
+    MAX_BULK_CONCURRENCY
+  );
+  const result = withBulkCosts(await client.checkDomains(domains, concurrency, fresh), null);
+  print(args, result, formatBulkCheckResult);
+  if (result.failed_count > 0) return EXIT_ERROR;
+  return result.taken_count === 0 ? EXIT_OK : EXIT_UNAVAILABLE;
+}
+
+async function runDetails(client: AgentDomainClient, args: ParsedArgs): Promise<number> {
+  const [domain] = args.positionals;
+  if (!domain || args.positionals.length > 1) {
+    throw new UsageError("details takes exactly one domain");
+  }
+  const result = await client.domainDetails(domain, args.flags.has("fresh"));
+  print(args, result, formatDomainDetailsResult);
+  return result.registered ? EXIT_UNAVAILABLE : EXIT_OK;
+}
+
+async function runExplore(
+  client: AgentDomainClient,
+  args: ParsedArgs,
+  config: ServerConfig
+): Promise<number> {
+  const [name] = args.positionals;
+  if (!name || args.positionals.length > 1) {
+    throw new UsageError("explore takes exactly one name");
+  }
+  const tlds = resolveExploreTlds(
+    config.tldGroups,
+    listFlag(args, "tlds"),
+    listFlag(args, "groups")
+  );
+  const result = withExploreCosts(
+    await client.exploreName(name, args.flags.has("fresh"), tlds),
+    null
+  );
+  print(args, result, formatExploreResult);
+  return result.available_count > 0 ? EXIT_OK : EXIT_UNAVAILABLE;
+}
+
+async function runBrainstorm(client: AgentDomainClient, args: ParsedArgs): Promise<number> {
+  const description = args.positionals.join(" ").trim();
+  if (!description) {
+    throw new UsageError("brainstorm needs a description");
+  }
+  const count = Math.min(Math.max(numberFlag(args, "count") ?? 10, 1), MAX_BRAINSTORM_COUNT);
+  const constraints = resolveBrainstormConstraints({
+    max_length: numberFlag(args, "max-length"),
+    tlds: listFlag(args, "tlds"),
+    max_price: numberFlag(args, "max-price"),
+    available_only: args.flags.has("available-only"),
+  });
+  const result = await withBrainstormCosts(
+    await client.brainstormDomains(description, count, constraints, DEFAULT_BRAINSTORM_ROUNDS),
+    null,
+    client.lookupRenewalPrices
+  );
+  print(args, result, formatBrainstormResult);
+  return result.suggestions.some((s) => s.available) ? EXIT_OK : EXIT_UNAVAILABLE;
+}
+
+async function runAnalyze(client: AgentDomainClient, args: ParsedArgs): Promise<number> {
+  const [domain] = args.positionals;
+  if (!domain || args.positionals.length > 1) {
+    throw new UsageError("analyze takes exactly one domain");
+  }
+  const result = await client.analyzeDomain(domain, args.flags.has("fresh"));
+  print(args, result, formatAnalyzeResult);
+  return EXIT_OK;
+}
+
+async function runSearch(client: AgentDomainClient, args: ParsedArgs): Promise<number> {
+  if (args.positionals.length > 0) {
+    throw new UsageError("search takes only options, e.g. --category ai --max-price 20");
+  }
+  const result = await withSearchCosts(
+    await client.searchDomains({
+      category: stringFlag(args, "category"),
+      min_price: numberFlag(args, "min-price"),
+      max_price: numberFlag(args, "max-price"),
+      tlds: listFlag(args, "tlds"),
+      sort: stringFlag(args, "sort"),
+      limit: numberFlag(args, "limit"),
+      cursor: stringFlag(args, "cursor"),
+    }),
+    null,
+    client.lookupRenewalPrices
+  );
+  print(args, result, formatSearchResult);
+  return result.count > 0 ? EXIT_OK : EXIT_UNAVAILABLE;
+}
+
+async function runCategories(client: AgentDomainClient, args: ParsedArgs): Promise<number> {
+  const result = await client.listCategories(args.flags.has("fresh"));
+  print(args, result, formatCategoriesResult);
+  return EXIT_OK;
+}
+
+/**
+ * Run one subcommand and return its exit code
+ */
+async function runCommand(command: string, argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  if (args.flags.has("help")) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  // Server flags such as --port do not apply to one-off commands
+  const config = loadConfig(process.env, []);
+  const client = createAgentDomainClient(clientOptionsFromConfig(config));
+
+  try {
+    switch (command) {
+      case "check":
+        return await runCheck(client, args);
+      case "details":
+        return await runDetails(client, args);
+      case "explore":
+        return await runExplore(client, args, config);
+      case "brainstorm":
+        return await runBrainstorm(client, args);
+      case "analyze":
+        return await runAnalyze(client, args);
+      case "search":
+        return await runSearch(client, args);
+      case "categories":
+        return await runCategories(client, args);
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } finally {
+    // Cache writes are debounced; write out anything pending before exiting
+    await client.flushCache();
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  if (command === "-h" || command === "--help" || command === "help") {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (command === undefined || command === "serve" || command.startsWith("-")) {
+    // Loaded lazily: the server reads its configuration when imported
+    const { startServer } = await import("./server.js");
+    await startServer();
+    return EXIT_OK;
+  }
+
+  try {
+    return await runCommand(command, rest);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`Error: ${error.message}`);
+      console.error(`Run with --help for usage.`);
+      return EXIT_ERROR;
+    }
+    const info = describeError(toAgentDomainError(error));
+    console.error(
+      `Error (${info.category}, ${info.retryable ? "retryable" : "not retryable"}): ${info.message}`
+    );
+    return EXIT_ERROR;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    // Set rather than exit, so the stdio server keeps running
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,515 @@
+import {
+  brainstormRounds,
+  type BrainstormConstraints,
+  type BrainstormSource,
+} from "./brainstorm.js";
+import { createCache } from "./cache.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { DEFAULT_BASE_URL, DEFAULT_USER_AGENT, type ServerConfig } from "./config.js";
+import { normalizeDomain, normalizeName } from "./domain.js";
+import { InvalidInputError, toAgentDomainError } from "./errors.js";
+import { createFixtureFetch, FIXTURE_RDAP_SERVER } from "./fixtures.js";
+import { createHttpClient, type HttpClientOptions, type RequestOptions } from "./http.js";
+import { analyzeName, localAnalyzeResult } from "./linguistics.js";
+import {
+  checkWithFailover,
+  DEFAULT_PROVIDERS,
+  type AvailabilityProvider,
+  type ProviderName,
+} from "./providers.js";
+import { createRdapProvider, type RdapProviderOptions } from "./rdap.js";
+import {
+  parseAnalyze,
+  parseBrainstorm,
+  parseCategories,
+  parseDomainCheck,
+  parseExplore,
+  parseSearch,
+} from "./responses.js";
+import {
+  collectSearchPage,
+  decodeCursor,
+  encodeCursor,
+  resolveSearchFilters,
+  type SearchArgs,
+  type SearchCursor,
+} from "./search.js";
+import type {
+  AnalyzeResult,
+  BrainstormResult,
+  BulkCheckResult,
+  CategoriesResult,
+  DomainCheckResult,
+  DomainDetailsResult,
+  ExploreResult,
+  SearchResult,
+} from "./types.js";
+
+/**
+ * Typed client for the AgentDomainService API.
+ *
+ * Wraps the lookup, explore, brainstorm, analyze, search, and categories
+ * endpoints with input normalization, a local cache, rate limiting, and
+ * retries, and fails availability checks over to RDAP when the API is down.
+ *
+ * The MCP server is built on it, and scripts can use it directly; creating
+ * a client has no side effects beyond the optional cache file.
+ */
+
+export interface AgentDomainClientOptions {
+  /** API origin, without a trailing slash */
+  baseUrl?: string;
+  userAgent?: string;
+  /** Extra headers sent with every API request */
+  headers?: Record<string, string>;
+  /** Transport to use instead of the global fetch, e.g. the fixture backend */
+  fetch?: typeof fetch;
+  /** File the lookup cache is persisted to; memory-only when omitted */
+  cacheFile?: string;
+  /** Timeout, retry, and rate limit settings for the HTTP client */
+  http?: Omit<HttpClientOptions, "baseUrl" | "headers" | "fetch">;
+  /** Availability providers to try, in order (default: api, then rdap) */
+  providers?: ProviderName[];
+  /** RDAP provider settings; it uses the global fetch unless given one */
+  rdap?: RdapProviderOptions;
+}
+
+export const DEFAULT_BULK_CONCURRENCY = 5;
+export const MAX_BULK_CONCURRENCY = 20;
+export const DEFAULT_BRAINSTORM_ROUNDS = 3;
+/** TLDs explored when the explore endpoint is not used and none are given */
+export const DEFAULT_EXPLORE_TLDS = ["com", "io", "ai", "co", "dev", "app", "net", "xyz", "org"];
+
+// Lookups fall back to these TTLs when the API does not say how long a
+// result stays valid
+const DEFAULT_LOOKUP_TTL_SECONDS = 300;
+const EXPLORE_TTL_SECONDS = 300;
+const ANALYZE_TTL_SECONDS = 24 * 60 * 60;
+const CATEGORIES_TTL_SECONDS = 60 * 60;
+const DETAILS_TTL_SECONDS = 15 * 60;
+
+function optionalOffset(value: unknown): number {
+  if (value === undefined) return 0;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new InvalidInputError("offset must be a non-negative whole number");
+  }
+  return value;
+}
+
+/**
+ * Client options for a resolved configuration, as used by the server and
+ * the terminal commands. The fixture backend answers RDAP queries too, so
+ * nothing goes to the network.
+ */
+export function clientOptionsFromConfig(config: ServerConfig): AgentDomainClientOptions {
+  const fixtures =
+    config.backend === "fixtures" ? createFixtureFetch(config.fixturesDir) : undefined;
+  return {
+    baseUrl: config.baseUrl,
+    userAgent: config.userAgent,
+    headers: config.headers,
+    fetch: fixtures,
+    cacheFile: config.cacheFile,
+    providers: config.providers,
+    rdap: {
+      // Fixture RDAP answers on any host, so every TLD gets a server
+      servers: fixtures
+        ? { "*": FIXTURE_RDAP_SERVER, ...config.rdapServers }
+        : config.rdapServers,
+      fetch: fixtures,
+    },
+  };
+}
+
+/**
+ * Create an API client
+ */
+export function createAgentDomainClient(options: AgentDomainClientOptions = {}) {
+  const http = createHttpClient({
+    ...options.http,
+    baseUrl: options.baseUrl ?? DEFAULT_BASE_URL,
+    headers: {
+      ...options.headers,
+      "User-Agent": options.userAgent ?? DEFAULT_USER_AGENT,
+    },
+    fetch: options.fetch,
+  });
+  const cache = createCache({ filePath: options.cacheFile });
+  const rdap = createRdapProvider({
+    userAgent: options.userAgent ?? DEFAULT_USER_AGENT,
+    http: options.http,
+    ...options.rdap,
+  });
+  const providerNames = options.providers ?? DEFAULT_PROVIDERS;
+  const providers = providerNames.map(
+    (name): AvailabilityProvider =>
+      name === "api"
+        ? {
+            name,
+            check: (domain) =>
+              apiRequest(
+                "check domain",
+                `/api/v1/lookup/${encodeURIComponent(domain)}`,
+                parseDomainCheck
+              ),
+          }
+        : rdap
+  );
+
+  /**
+   * Run an API request and check the response's shape. Failures are
+   * classified and prefixed with what was being attempted.
+   */
+  async function apiRequest<T>(
+    action: string,
+    path: string,
+    parse: (value: unknown) => T,
+    options?: RequestOptions
+  ): Promise<T> {
+    try {
+      return parse(await http.request<unknown>(path, options));
+    } catch (error) {
+      const classified = toAgentDomainError(error);
+      classified.message = `Failed to ${action}: ${classified.message}`;
+      throw classified;
+    }
+  }
+
+  /**
+   * Check a single domain's availability, failing over between providers
+   */
+  async function checkDomain(
+    domain: string,
+    fresh: boolean = false
+  ): Promise<DomainCheckResult> {
+    const { domain: ascii } = normalizeDomain(domain);
+    return cache.getOrFetch(
+      `lookup:${ascii}`,
+      () => checkWithFailover(providers, ascii),
+      {
+        fresh,
+        // Never keep a result the API itself flagged as stale
+        ttlSeconds: (r) =>
+          r.cache?.stale ? 0 : r.cache?.ttl_seconds ?? DEFAULT_LOOKUP_TTL_SECONDS,
+      }
+    );
+  }
+
+  /**
+   * Registration details for a domain from its registry's RDAP server,
+   * with an estimate of when it could drop
+   */
+  async function domainDetails(
+    domain: string,
+    fresh: boolean = false
+  ): Promise<DomainDetailsResult> {
+    const { domain: ascii } = normalizeDomain(domain);
+    return cache.getOrFetch(`details:${ascii}`, () => rdap.details(ascii), {
+      fresh,
+      ttlSeconds: () => DETAILS_TTL_SECONDS,
+    });
+  }
+
+  /**
+   * Explore a name across multiple TLDs. The explore endpoint answers when
+   * the API is the first provider; TLDs it does not cover, or every TLD
+   * when it is unavailable, are checked one by one through the providers.
+   */
+  async function exploreName(
+    name: string,
+    fresh: boolean = false,
+    tlds: string[] | null = null
+  ): Promise<ExploreResult> {
+    const label = normalizeName(name);
+    if (providerNames[0] !== "api") {
+      return exploreByLookup(label, tlds ?? DEFAULT_EXPLORE_TLDS, fresh, null);
+    }
+
+    let explored: ExploreResult;
+    try {
+      explored = await cache.getOrFetch(
+        `explore:${label}`,
+        () =>
+          apiRequest(
+            "explore name",
+            `/api/v1/explore/${encodeURIComponent(label)}`,
+            parseExplore
+          ),
+        { fresh, ttlSeconds: () => EXPLORE_TTL_SECONDS }
+      );
+    } catch (error) {
+      if (providers.length === 1 || error instanceof InvalidInputError) {
+        throw error;
+      }
+      return exploreByLookup(label, tlds ?? DEFAULT_EXPLORE_TLDS, fresh, null);
+    }
+    if (!tlds) {
+      return explored;
+    }
+    return exploreByLookup(label, tlds, fresh, explored);
+  }
+
+  /**
+   * Build an explore result for the given TLDs, checking those the explore
+   * endpoint did not answer for individually
+   */
+  async function exploreByLookup(
+    label: string,
+    tlds: string[],
+    fresh: boolean,
+    explored: ExploreResult | null
+  ): Promise<ExploreResult> {
+    const covered = new Map((explored?.results ?? []).map((r) => [r.tld, r]));
+    const missing = tlds.filter((tld) => !covered.has(tld));
+    const settled = await mapWithConcurrency(
+      missing,
+      DEFAULT_BULK_CONCURRENCY,
+      (tld) => checkDomain(`${label}.${tld}`, fresh)
+    );
+    settled.forEach((outcome, i) => {
+      const tld = missing[i];
+      // A failed lookup is reported as unknown so the result keeps its shape
+      covered.set(tld, {
+        tld,
+        domain: outcome.ok ? outcome.value.domain : `${label}.${tld}`,
+        available: outcome.ok && outcome.value.available,
+        status: outcome.ok ? outcome.value.status : "unknown",
+        purchase_price: outcome.ok ? outcome.value.purchase_price : null,
+        renewal_price: outcome.ok ? outcome.value.renewal_price : null,
+        premium: outcome.ok && outcome.value.premium,
+      });
+    });
+
+    const results = tlds.map((tld) => covered.get(tld)!);
+    const availableCount = results.filter((r) => r.available).length;
+    return {
+      ...explored,
+      name: label,
+      checked_at: explored?.checked_at ?? new Date().toISOString(),
+      summary: `${availableCount} of ${results.length} TLDs available for "${label}"`,
+      available_count: availableCount,
+      taken_count: results.length - availableCount,
+      tlds_checked: tlds,
+      results,
+    };
+  }
+
+  const apiBrainstormSource: BrainstormSource = (prompt, count, exclude) =>
+    apiRequest("brainstorm", "/api/v1/brainstorm", (value) => parseBrainstorm(value, prompt), {
+      method: "POST",
+      body: exclude.length > 0 ? { prompt, count, exclude } : { prompt, count },
+    });
+
+  /**
+   * Brainstorm domain names based on a description. With constraints, keeps
+   * asking for more suggestions, excluding rejected ones, until enough pass
+   * or the round budget runs out.
+   */
+  async function brainstormDomains(
+    prompt: string,
+    count: number = 10,
+    constraints: BrainstormConstraints | null = null,
+    maxRounds: number = DEFAULT_BRAINSTORM_ROUNDS,
+    source: BrainstormSource = apiBrainstormSource
+  ): Promise<BrainstormResult> {
+    if (!constraints) {
+      return source(prompt, count, []);
+    }
+    return brainstormRounds(prompt, count, constraints, maxRounds, source);
+  }
+
+  /**
+   * Analyze a domain name with AI scoring, alongside local linguistic
+   * checks. When the API cannot answer, the local checks stand in.
+   */
+  async function analyzeDomain(
+    domain: string,
+    fresh: boolean = false
+  ): Promise<AnalyzeResult> {
+    const normalized = normalizeDomain(domain);
+    const ascii = normalized.domain;
+    const linguistics = analyzeName(normalized);
+    try {
+      const remote = await cache.getOrFetch(
+        `analyze:${ascii}`,
+        () =>
+          apiRequest(
+            "analyze domain",
+            "/api/v1/analyze-domain",
+            (value) => parseAnalyze(value, ascii),
+            { method: "POST", body: { domain: ascii } }
+          ),
+        { fresh, ttlSeconds: () => ANALYZE_TTL_SECONDS }
+      );
+      return { ...remote, linguistics };
+    } catch (error) {
+      if (error instanceof InvalidInputError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return localAnalyzeResult(ascii, linguistics, message);
+    }
+  }
+
+  /**
+   * Search for available domains with filters, one page at a time
+   */
+  async function searchDomains(args: SearchArgs): Promise<SearchResult> {
+    const filters = resolveSearchFilters(args);
+    if (args.cursor && args.offset !== undefined) {
+      throw new InvalidInputError("Pass either cursor or offset, not both");
+    }
+    const offset = optionalOffset(args.offset);
+    const start: SearchCursor = args.cursor
+      ? decodeCursor(args.cursor, filters)
+      : { offset: 0, skip: offset, position: offset };
+
+    const { domains, next } = await collectSearchPage(filters, start, async (params) => {
+      const response = await apiRequest(
+        "search domains",
+        `/api/v1/domains/search?${params.toString()}`,
+        parseSearch
+      );
+      return response.domains;
+    });
+
+    return {
+      count: domains.length,
+      filters,
+      offset: start.position,
+      next_cursor: next ? encodeCursor(next, filters) : null,
+      domains,
+    };
+  }
+
+  /**
+   * List available categories
+   */
+  async function listCategories(
+    fresh: boolean = false
+  ): Promise<CategoriesResult> {
+    return cache.getOrFetch(
+      "categories",
+      () =>
+        apiRequest(
+          "list categories",
+          "/api/v1/domains/categories",
+          parseCategories
+        ),
+      { fresh, ttlSeconds: () => CATEGORIES_TTL_SECONDS }
+    );
+  }
+
+  /**
+   * Categories from the cache, or null when they have not been fetched
+   * recently; never calls the API
+   */
+  function cachedCategories(): Promise<CategoriesResult | null> {
+    return cache.peek<CategoriesResult>("categories");
+  }
+
+  /**
+   * Check many domains at once, with a cap on concurrent lookups
+   */
+  async function checkDomains(
+    domains: string[],
+    concurrency: number = DEFAULT_BULK_CONCURRENCY,
+    fresh: boolean = false
+  ): Promise<BulkCheckResult> {
+    const failures: BulkCheckResult["failures"] = [];
+    const normalized = new Set<string>();
+    for (const input of domains) {
+      if (!input.trim()) continue;
+      try {
+        normalized.add(normalizeDomain(input).domain);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        failures.push({ domain: input, error: message });
+      }
+    }
+
+    const unique = [...normalized];
+    const settled = await mapWithConcurrency(unique, concurrency, (domain) =>
+      checkDomain(domain, fresh)
+    );
+
+    const results: DomainCheckResult[] = [];
+    settled.forEach((entry, i) => {
+      if (entry.ok) {
+        results.push(entry.value);
+      } else {
+        const message =
+          entry.error instanceof Error ? entry.error.message : "Unknown error";
+        failures.push({ domain: unique[i], error: message });
+      }
+    });
+
+    // Available first, then cheapest; unknown prices sink to the bottom
+    results.sort((a, b) => {
+      if (a.available !== b.available) return a.available ? -1 : 1;
+      const pa = a.purchase_price ?? Infinity;
+      const pb = b.purchase_price ?? Infinity;
+      if (pa !== pb) return pa - pb;
+      return a.domain.localeCompare(b.domain);
+    });
+
+    const available = results.filter((r) => r.available).length;
+    return {
+      checked_at: new Date().toISOString(),
+      total: results.length + failures.length,
+      available_count: available,
+      taken_count: results.length - available,
+      failed_count: failures.length,
+      results,
+      failures,
+    };
+  }
+
+  /**
+   * Look up renewal prices for domains whose listing did not include one.
+   * Renewals are priced per TLD, so one domain is checked for each TLD and
+   * its price stands for the rest, keeping a full page to a few lookups.
+   */
+  async function lookupRenewalPrices(
+    domains: string[]
+  ): Promise<Map<string, number | null>> {
+    // Registrable domains are a single label plus the suffix
+    const suffixOf = (domain: string) => domain.slice(domain.indexOf(".") + 1);
+    const bySuffix = new Map<string, string>();
+    for (const domain of domains) {
+      if (!bySuffix.has(suffixOf(domain))) bySuffix.set(suffixOf(domain), domain);
+    }
+    const samples = [...bySuffix.values()];
+    const settled = await mapWithConcurrency(
+      samples,
+      DEFAULT_BULK_CONCURRENCY,
+      (domain) => checkDomain(domain)
+    );
+    const prices = new Map(
+      samples.map((domain, i) => {
+        const outcome = settled[i];
+        return [suffixOf(domain), outcome.ok ? outcome.value.renewal_price : null];
+      })
+    );
+    return new Map(domains.map((domain) => [domain, prices.get(suffixOf(domain)) ?? null]));
+  }
+
+  return {
+    checkDomain,
+    checkDomains,
+    domainDetails,
+    exploreName,
+    /** The API as a brainstorm source, for callers composing their own */
+    apiBrainstormSource,
+    brainstormDomains,
+    analyzeDomain,
+    searchDomains,
+    listCategories,
+    cachedCategories,
+    lookupRenewalPrices,
+    /** Write out pending cache changes; call before exiting when using a cache file */
+    flushCache: () => cache.flush(),
+  };
+}
+
+export type AgentDomainClient = ReturnType<typeof createAgentDomainClient>;
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_COMPARE_WEIGHTS, rankDomains, resolveWeights } from "./compare.js";
+import type { AnalyzeResult, DomainCheckResult } from "./types.js";
+
+function check(domain: string, price: number | null, available = true): DomainCheckResult {
+  return {
+    domain,
+    available,
+    status: available ? "available" : "registered",
+    checked_at: "2026-10-15T12:00:00.000Z",
+    expires_at: null,
+    source: "api",
+    purchase_price: price,
+    renewal_price: price,
+    premium: false,
+    cache: { hit: false, ttl_seconds: 300, stale: false },
+  };
+}
+
+function analysis(domain: string, score: number): AnalyzeResult {
+  return {
+    domain,
+    scores: {
+      memorability: score,
+      brandability: score,
+      length: score,
+      pronunciation: score,
+      seo: score,
+      overall: score,
+    },
+    pros: [],
+    cons: [],
+    verdict: "",
+  };
+}
+
+describe("resolveWeights", () => {
+  it("merges user weights over the defaults", () => {
+    const weights = resolveWeights({ price: 3 });
+    assert.equal(weights.price, 3);
+    assert.equal(weights.seo, DEFAULT_COMPARE_WEIGHTS.seo);
+  });
+
+  it("rejects unknown, negative, and all-zero weights", () => {
+    assert.throws(() => resolveWeights({ speed: 1 } as never), /Unknown weight "speed"/);
+    assert.throws(() => resolveWeights({ seo: -1 }), /non-negative/);
+    const zero = Object.fromEntries(Object.keys(DEFAULT_COMPARE_WEIGHTS).map((k) => [k, 0]));
+    assert.throws(() => resolveWeights(zero), /greater than zero/);
+  });
+});
+
+describe("rankDomains", () => {
+  it("ranks available domains first, then by weighted score", () => {
+    const domains = ["taken.com", "good.com", "cheap.com"];
+    const rows = rankDomains(
+      domains,
+      [check("taken.com", null, false), check("good.com", 40), check("cheap.com", 10)],
+      [analysis("taken.com", 95), analysis("good.com", 90), analysis("cheap.com", 60)],
+      DEFAULT_COMPARE_WEIGHTS
+    );
+    assert.deepEqual(
+      rows.map((r) => [r.rank, r.domain]),
+      [[1, "good.com"], [2, "cheap.com"], [3, "taken.com"]]
+    );
+    assert.equal(rows[1].price_score, 100);
+    assert.equal(rows[0].price_score, 0);
+  });
+
+  it("scores a missing price as neutral so totals cover the same dimensions", () => {
+    const rows = rankDomains(
+      ["priced.com", "unpriced.com"],
+      [check("priced.com", 10), check("unpriced.com", null)],
+      [analysis("priced.com", 80), analysis("unpriced.com", 80)],
+      DEFAULT_COMPARE_WEIGHTS
+    );
+    const byDomain = new Map(rows.map((r) => [r.domain, r]));
+    // Five dimensions at 80 plus price: 100 for the only priced domain, 50 otherwise
+    assert.equal(byDomain.get("priced.com")?.weighted_score, 83.3);
+    assert.equal(byDomain.get("unpriced.com")?.weighted_score, 75);
+    assert.equal(byDomain.get("unpriced.com")?.price_score, null);
+  });
+
+  it("leaves a domain unscored when nothing about it is known", () => {
+    const rows = rankDomains(
+      ["known.com", "unknown.com"],
+      [check("known.com", null), null],
+      [analysis("known.com", 70), null],
+      DEFAULT_COMPARE_WEIGHTS
+    );
+    assert.equal(rows[0].domain, "known.com");
+    assert.equal(rows[0].weighted_score, 70);
+    assert.equal(rows[1].weighted_score, null);
+    assert.equal(rows[1].available, null);
+  });
+});
@@ -0,0 +1,137 @@
+import { InvalidInputError } from "./errors.js";
+import type { AnalyzeResult, CompareResult, DomainCheckResult } from "./types.js";
+
+/**
+ * Weighted ranking for compare_domains.
+ *
+ * Each score dimension is 0-100 from analyze_domain. Price is turned into
+ * a 0-100 score relative to the other candidates (cheapest = 100), so it
+ * can be weighted on the same scale. A domain without a price scores the
+ * neutral midpoint on it, so every total covers the same dimensions.
+ * Unavailable domains are ranked after available ones.
+ */
+
+export type CompareWeights = CompareResult["weights"];
+
+export const DEFAULT_COMPARE_WEIGHTS: CompareWeights = {
+  memorability: 1,
+  brandability: 1,
+  length: 1,
+  pronunciation: 1,
+  seo: 1,
+  overall: 0,
+  price: 1,
+};
+
+// Price score used in the total when a domain has no known price
+const NEUTRAL_PRICE_SCORE = 50;
+
+type ScoreDimension = keyof NonNullable<AnalyzeResult["scores"]>;
+
+const SCORE_DIMENSIONS: ScoreDimension[] = [
+  "memorability",
+  "brandability",
+  "length",
+  "pronunciation",
+  "seo",
+  "overall",
+];
+
+/**
+ * Merge user weights over the defaults, rejecting negative or non-numeric values
+ */
+export function resolveWeights(weights: Partial<CompareWeights> = {}): CompareWeights {
+  const resolved = { ...DEFAULT_COMPARE_WEIGHTS };
+  for (const [key, value] of Object.entries(weights)) {
+    if (!(key in resolved)) {
+      throw new InvalidInputError(
+        `Unknown weight "${key}" (expected one of: ${Object.keys(resolved).join(", ")})`
+      );
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new InvalidInputError(`Weight "${key}" must be a non-negative number`);
+    }
+    resolved[key as keyof CompareWeights] = value;
+  }
+  if (Object.values(resolved).every((w) => w === 0)) {
+    throw new InvalidInputError("At least one weight must be greater than zero");
+  }
+  return resolved;
+}
+
+/**
+ * Score purchase prices against each other: cheapest 100, priciest 0
+ */
+function priceScores(prices: Array<number | null>): Array<number | null> {
+  const known = prices.filter((p): p is number => p !== null);
+  if (known.length === 0) return prices.map(() => null);
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  return prices.map((p) => {
+    if (p === null) return null;
+    if (max === min) return 100;
+    return Math.round(((max - p) / (max - min)) * 100);
+  });
+}
+
+/**
+ * Build the comparison rows and rank them by weighted score
+ */
+export function rankDomains(
+  domains: string[],
+  checks: Array<DomainCheckResult | null>,
+  analyses: Array<AnalyzeResult | null>,
+  weights: CompareWeights
+): CompareResult["rows"] {
+  const prices = checks.map((c) => (c && c.available ? c.purchase_price : null));
+  const prices100 = priceScores(prices);
+  const scorePrice = weights.price > 0 && prices100.some((p) => p !== null);
+
+  const rows: CompareResult["rows"] = domains.map((domain, i) => {
+    const check = checks[i];
+    const analysis = analyses[i];
+
+    let total = 0;
+    let weightSum = 0;
+    if (analysis?.scores) {
+      for (const dim of SCORE_DIMENSIONS) {
+        const value = analysis.scores[dim];
+        if (typeof value === "number" && weights[dim] > 0) {
+          total += value * weights[dim];
+          weightSum += weights[dim];
+        }
+      }
+    }
+    const priceScore = prices100[i];
+    if (scorePrice) {
+      total += (priceScore ?? NEUTRAL_PRICE_SCORE) * weights.price;
+      weightSum += weights.price;
+    }
+
+    return {
+      rank: 0,
+      domain,
+      available: check ? check.available : null,
+      status: check ? check.status : null,
+      purchase_price: check?.purchase_price ?? null,
+      renewal_price: check?.renewal_price ?? null,
+      premium: check?.premium ?? false,
+      scores: analysis?.scores ?? null,
+      price_score: priceScore,
+      weighted_score: weightSum > 0 ? Math.round((total / weightSum) * 10) / 10 : null,
+    };
+  });
+
+  // Available first, then by weighted score; unscored rows sink
+  const availabilityRank = (r: CompareResult["rows"][number]) =>
+    r.available === true ? 0 : r.available === null ? 1 : 2;
+  rows.sort((a, b) => {
+    const byAvailability = availabilityRank(a) - availabilityRank(b);
+    if (byAvailability !== 0) return byAvailability;
+    return (b.weighted_score ?? -1) - (a.weighted_score ?? -1);
+  });
+  rows.forEach((row, i) => {
+    row.rank = i + 1;
+  });
+  return rows;
+}
@@ -0,0 +1,297 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { normalizeTld } from "./domain.js";
+import { InvalidInputError } from "./errors.js";
+import { DEFAULT_PROVIDERS, PROVIDER_NAMES, type ProviderName } from "./providers.js";
+
+/**
+ * Server configuration.
+ *
+ * Values come from an optional JSON config file (path in
+ * AGENT_DOMAIN_CONFIG), then environment variables, then command-line
+ * flags; later sources take precedence.
+ */
+
+export interface ServerConfig {
+  /** API origin, without a trailing slash */
+  baseUrl: string;
+  userAgent: string;
+  /** Extra headers sent with every API request */
+  headers: Record<string, string>;
+  /** "api" talks to baseUrl; "fixtures" serves canned JSON with no network */
+  backend: "api" | "fixtures";
+  /** Directory of fixture JSON files overriding the bundled ones */
+  fixturesDir?: string;
+  /** File the lookup cache is persisted to */
+  cacheFile?: string;
+  /** Directory for persistent state such as the watchlist */
+  dataDir: string;
+  /** "stdio" for a single local client; "http" to serve many over SSE */
+  transport: "stdio" | "http";
+  /** Interface the HTTP transport listens on */
+  host: string;
+  port: number;
+  /** Bearer token HTTP clients must present; no auth when unset */
+  authToken?: string;
+  /** Named TLD sets explore_name accepts in its `groups` argument */
+  tldGroups: Record<string, string[]>;
+  /** Days to keep tool call history; 0 keeps it forever */
+  historyRetentionDays: number;
+  /** Availability providers to try, in order; later ones are failovers */
+  providers: ProviderName[];
+  /** TLD to RDAP base URL overrides; "*" answers for every TLD */
+  rdapServers: Record<string, string>;
+}
+
+export const DEFAULT_BASE_URL = "https://agentdomainservice.com";
+export const DEFAULT_USER_AGENT = "AgentDomainService-MCP/1.0";
+export const DEFAULT_DATA_DIR = join(homedir(), ".agent-domain-service");
+export const DEFAULT_HOST = "127.0.0.1";
+export const DEFAULT_PORT = 3000;
+export const DEFAULT_HISTORY_RETENTION_DAYS = 90;
+export const DEFAULT_TLD_GROUPS: Record<string, string[]> = {
+  classic: ["com", "net", "org"],
+  tech: ["io", "ai", "dev", "app", "sh", "tech", "cloud"],
+  europe: ["eu", "de", "fr", "nl", "es", "it", "co.uk", "ch", "se"],
+  cheap: ["xyz", "org", "com", "net", "site", "online"],
+};
+export const MAX_EXPLORE_TLDS = 50;
+
+/**
+ * Read the config file named by AGENT_DOMAIN_CONFIG, if any
+ */
+function readConfigFile(path: string | undefined): Partial<ServerConfig> {
+  if (!path) return {};
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new InvalidInputError(`Failed to read config file ${path}: ${message}`);
+  }
+  try {
+    return JSON.parse(raw) as Partial<ServerConfig>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new InvalidInputError(`Invalid JSON in config file ${path}: ${message}`);
+  }
+}
+
+/**
+ * Parse AGENT_DOMAIN_HEADERS, a JSON object of header names to values
+ */
+function parseHeaders(value: string | undefined): Record<string, string> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return Object.fromEntries(
+        Object.entries(parsed).map(([k, v]) => [k, String(v)])
+      );
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidInputError("AGENT_DOMAIN_HEADERS must be a JSON object");
+}
+
+/**
+ * Check TLD groups from the config file or AGENT_DOMAIN_TLD_GROUPS:
+ * a JSON object of group names to arrays of TLDs
+ */
+function parseTldGroups(value: unknown, source: string): Record<string, string[]> {
+  if (value === undefined || value === "") return {};
+  let parsed: unknown = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value) as unknown;
+    } catch {
+      throw new InvalidInputError(`${source} must be a JSON object of group names to TLD arrays`);
+    }
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new InvalidInputError(`${source} must be a JSON object of group names to TLD arrays`);
+  }
+  const groups: Record<string, string[]> = {};
+  for (const [name, tlds] of Object.entries(parsed)) {
+    if (!Array.isArray(tlds) || tlds.some((t) => typeof t !== "string")) {
+      throw new InvalidInputError(`${source}: group "${name}" must be an array of TLD strings`);
+    }
+    groups[name.toLowerCase()] = tlds;
+  }
+  return groups;
+}
+
+/**
+ * Check the provider order from the config file (an array) or
+ * AGENT_DOMAIN_PROVIDERS (comma separated)
+ */
+function parseProviders(value: unknown, source: string): ProviderName[] | undefined {
+  if (value === undefined || value === "") return undefined;
+  const names = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(names) || names.some((n) => typeof n !== "string")) {
+    throw new InvalidInputError(`${source} must be a list of provider names`);
+  }
+  const providers = [...new Set(names.map((n: string) => n.trim().toLowerCase()))];
+  for (const name of providers) {
+    if (!(PROVIDER_NAMES as readonly string[]).includes(name)) {
+      throw new InvalidInputError(
+        `${source}: unknown provider "${name}" (expected ${PROVIDER_NAMES.join(" or ")})`
+      );
+    }
+  }
+  if (providers.length === 0) {
+    throw new InvalidInputError(`${source} must name at least one provider`);
+  }
+  return providers as ProviderName[];
+}
+
+/**
+ * Check RDAP server overrides from the config file or
+ * AGENT_DOMAIN_RDAP_SERVERS: a JSON object of TLDs to base URLs
+ */
+function parseRdapServers(value: unknown, source: string): Record<string, string> {
+  if (value === undefined || value === "") return {};
+  let parsed: unknown = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value) as unknown;
+    } catch {
+      throw new InvalidInputError(`${source} must be a JSON object of TLDs to RDAP base URLs`);
+    }
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new InvalidInputError(`${source} must be a JSON object of TLDs to RDAP base URLs`);
+  }
+  const servers: Record<string, string> = {};
+  for (const [tld, url] of Object.entries(parsed)) {
+    if (typeof url !== "string" || !/^https?:\/\//.test(url)) {
+      throw new InvalidInputError(`${source}: server for "${tld}" must be an http(s) URL`);
+    }
+    servers[tld === "*" ? tld : normalizeTld(tld)] = url;
+  }
+  return servers;
+}
+
+/**
+ * Read transport flags: --http, --transport <mode>, --host <host>,
+ * --port <port> (each also accepted as --flag=value)
+ */
+function parseFlags(argv: string[]): Partial<Record<"transport" | "host" | "port", string>> {
+  const flags: Partial<Record<"transport" | "host" | "port", string>> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split(/=(.*)/s, 2);
+    if (flag === "--http") {
+      flags.transport = "http";
+    } else if (flag === "--transport" || flag === "--host" || flag === "--port") {
+      const value = inline ?? argv[++i];
+      if (value === undefined) {
+        throw new InvalidInputError(`${flag} requires a value`);
+      }
+      flags[flag.slice(2) as "transport" | "host" | "port"] = value;
+    }
+  }
+  return flags;
+}
+
+/**
+ * Resolve the server configuration from the config file, environment,
+ * and command-line flags
+ */
+export function loadConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  argv: string[] = process.argv.slice(2)
+): ServerConfig {
+  const file = readConfigFile(env.AGENT_DOMAIN_CONFIG);
+  const flags = parseFlags(argv);
+
+  const backend = env.AGENT_DOMAIN_BACKEND || file.backend || "api";
+  if (backend !== "api" && backend !== "fixtures") {
+    throw new InvalidInputError(`Unknown backend "${backend}" (expected "api" or "fixtures")`);
+  }
+
+  const transport =
+    flags.transport || env.AGENT_DOMAIN_TRANSPORT || file.transport || "stdio";
+  if (transport !== "stdio" && transport !== "http") {
+    throw new InvalidInputError(`Unknown transport "${transport}" (expected "stdio" or "http")`);
+  }
+
+  const portValue = flags.port || env.AGENT_DOMAIN_PORT || file.port || DEFAULT_PORT;
+  const port = Number(portValue);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new InvalidInputError(`Invalid port "${portValue}"`);
+  }
+
+  const retentionValue =
+    env.AGENT_DOMAIN_HISTORY_RETENTION_DAYS ||
+    (file.historyRetentionDays ?? DEFAULT_HISTORY_RETENTION_DAYS);
+  const historyRetentionDays = Number(retentionValue);
+  if (!Number.isInteger(historyRetentionDays) || historyRetentionDays < 0) {
+    throw new InvalidInputError(
+      `Invalid history retention "${retentionValue}" (expected a whole number of days; 0 keeps everything)`
+    );
+  }
+
+  const baseUrl = (
+    env.AGENT_DOMAIN_BASE_URL ||
+    file.baseUrl ||
+    DEFAULT_BASE_URL
+  ).replace(/\/+$/, "");
+
+  return {
+    baseUrl,
+    userAgent: env.AGENT_DOMAIN_USER_AGENT || file.userAgent || DEFAULT_USER_AGENT,
+    headers: { ...file.headers, ...parseHeaders(env.AGENT_DOMAIN_HEADERS) },
+    backend,
+    fixturesDir: env.AGENT_DOMAIN_FIXTURES_DIR || file.fixturesDir,
+    cacheFile: env.AGENT_DOMAIN_CACHE_FILE || file.cacheFile,
+    dataDir: env.AGENT_DOMAIN_DATA_DIR || file.dataDir || DEFAULT_DATA_DIR,
+    transport,
+    host: flags.host || env.AGENT_DOMAIN_HOST || file.host || DEFAULT_HOST,
+    port,
+    authToken: env.AGENT_DOMAIN_AUTH_TOKEN || file.authToken,
+    tldGroups: {
+      ...DEFAULT_TLD_GROUPS,
+      ...parseTldGroups(file.tldGroups, "tldGroups in the config file"),
+      ...parseTldGroups(env.AGENT_DOMAIN_TLD_GROUPS, "AGENT_DOMAIN_TLD_GROUPS"),
+    },
+    historyRetentionDays,
+    providers:
+      parseProviders(env.AGENT_DOMAIN_PROVIDERS, "AGENT_DOMAIN_PROVIDERS") ??
+      parseProviders(file.providers, "providers in the config file") ??
+      // The fixtures already answer every lookup; RDAP failover adds nothing
+      (backend === "fixtures" ? ["api"] : DEFAULT_PROVIDERS),
+    rdapServers: {
+      ...parseRdapServers(file.rdapServers, "rdapServers in the config file"),
+      ...parseRdapServers(env.AGENT_DOMAIN_RDAP_SERVERS, "AGENT_DOMAIN_RDAP_SERVERS"),
+    },
+  };
+}
+
+/**
+ * Expand explore_name's tlds and groups arguments into one ordered,
+ * de-duplicated TLD list, or null to use the explore endpoint's defaults
+ */
+export function resolveExploreTlds(
+  tldGroups: Record<string, string[]>,
+  tlds: string[] | undefined,
+  groups: string[] | undefined
+): string[] | null {
+  const resolved: string[] = [];
+  for (const group of groups ?? []) {
+    const members = tldGroups[group.trim().toLowerCase()];
+    if (!members) {
+      throw new InvalidInputError(
+        `Unknown TLD group "${group}" (expected one of: ${Object.keys(tldGroups).join(", ")})`
+      );
+    }
+    resolved.push(...members.map(normalizeTld));
+  }
+  resolved.push(...(tlds ?? []).map(normalizeTld));
+  const unique = [...new Set(resolved)];
+  if (unique.length > MAX_EXPLORE_TLDS) {
+    throw new InvalidInputError(`At most ${MAX_EXPLORE_TLDS} TLDs can be explored per call`);
+  }
+  return unique.length > 0 ? unique : null;
+}
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  applyBudget,
+  costBreakdown,
+  formatCostSuffix,
+  resolveBudget,
+  totalCost,
+} from "./costs.js";
+
+describe("totalCost", () => {
+  it("charges the purchase price once and the renewal every year after", () => {
+    assert.equal(totalCost(10, 40, 1), 10);
+    assert.equal(totalCost(10, 40, 5), 170);
+    assert.equal(totalCost(9.99, 12.49, 3), 34.97);
+  });
+
+  it("is unknown without the prices it needs", () => {
+    assert.equal(totalCost(null, 40, 1), null);
+    assert.equal(totalCost(10, null, 1), 10);
+    assert.equal(totalCost(10, null, 3), null);
+  });
+});
+
+describe("costBreakdown", () => {
+  it("flags renewals that jump well above the first year", () => {
+    assert.equal(costBreakdown(2, 40).renewal_jump, true);
+    assert.equal(costBreakdown(12, 15).renewal_jump, false);
+    // Doubling a tiny price is not worth a warning
+    assert.equal(costBreakdown(1, 5).renewal_jump, false);
+    assert.deepEqual(costBreakdown(2, 40), {
+      year_1: 2,
+      year_3: 82,
+      year_5: 162,
+      year_10: 362,
+      renewal_jump: true,
+    });
+  });
+});
+
+describe("resolveBudget", () => {
+  it("defaults the horizon and rejects out-of-range values", () => {
+    assert.equal(resolveBudget(undefined), null);
+    assert.deepEqual(resolveBudget({}), { years: 5, max_total: null });
+    assert.throws(() => resolveBudget({ years: 0 }), /between 1 and 20/);
+    assert.throws(() => resolveBudget({ years: 2.5 }), /between 1 and 20/);
+    assert.throws(() => resolveBudget({ max_total: -1 }), /non-negative/);
+  });
+});
+
+describe("applyBudget", () => {
+  const items = [
+    { domain: "jump.io", purchase: 2, renewal: 60 },
+    { domain: "steady.com", purchase: 12, renewal: 12 },
+    { domain: "unknown.ai", purchase: 70, renewal: null },
+  ];
+  const prices = (item: (typeof items)[number]) => item;
+
+  it("sorts by total over the horizon and keeps unknown totals last", () => {
+    const { items: sorted, summary } = applyBudget(items, prices, { years: 3, max_total: null });
+    assert.deepEqual(sorted.map((i) => i.domain), ["steady.com", "jump.io", "unknown.ai"]);
+    assert.equal(summary.excluded_count, 0);
+  });
+
+  it("drops domains over the cap or without a known total", () => {
+    const { items: kept, summary } = applyBudget(items, prices, { years: 3, max_total: 100 });
+    assert.deepEqual(kept.map((i) => i.domain), ["steady.com"]);
+    assert.equal(summary.excluded_count, 2);
+  });
+});
+
+describe("formatCostSuffix", () => {
+  it("shows the horizon total and warns about renewal jumps", () => {
+    assert.equal(formatCostSuffix(2, 40, 5), " [5-yr total $162.00, ⚠ renews at $40.00/yr]");
+    assert.equal(formatCostSuffix(12, 12, 1), "");
+  });
+});
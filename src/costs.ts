@@ -0,0 +1,299 @@
+import { InvalidInputError } from "./errors.js";
+import type {
+  BrainstormResult,
+  BudgetSummary,
+  BulkCheckResult,
+  CostBreakdown,
+  DomainCheckResult,
+  ExploreResult,
+  SearchResult,
+} from "./types.js";
+
+/**
+ * Multi-year cost of ownership.
+ *
+ * A domain costs its purchase price the first year and its renewal price
+ * every year after. Cheap first years with expensive renewals are flagged
+ * so they stand out in listings.
+ */
+
+export const COST_HORIZONS = [1, 3, 5, 10] as const;
+export const DEFAULT_BUDGET_YEARS = 5;
+
+// A renewal counts as a jump when it is at least this multiple of the
+// first-year price and at least this many dollars more
+const RENEWAL_JUMP_MULTIPLE = 2;
+const RENEWAL_JUMP_MIN_DOLLARS = 10;
+
+export interface BudgetOptions {
+  /** Horizon in years for totals, filtering and sorting */
+  years: number;
+  /** Drop domains whose total over the horizon exceeds this */
+  max_total: number | null;
+}
+
+/** Renewal prices for domains whose listing did not include one */
+export type RenewalLookup = (domains: string[]) => Promise<Map<string, number | null>>;
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Total cost of holding a domain for a number of years
+ */
+export function totalCost(
+  purchase: number | null,
+  renewal: number | null,
+  years: number
+): number | null {
+  if (purchase === null) return null;
+  if (years <= 1) return round(purchase);
+  if (renewal === null) return null;
+  return round(purchase + renewal * (years - 1));
+}
+
+/**
+ * Cost totals over the standard horizons plus a renewal jump flag
+ */
+export function costBreakdown(
+  purchase: number | null,
+  renewal: number | null
+): CostBreakdown {
+  const jump =
+    purchase !== null &&
+    renewal !== null &&
+    renewal >= purchase * RENEWAL_JUMP_MULTIPLE &&
+    renewal - purchase >= RENEWAL_JUMP_MIN_DOLLARS;
+  return {
+    year_1: totalCost(purchase, renewal, 1),
+    year_3: totalCost(purchase, renewal, 3),
+    year_5: totalCost(purchase, renewal, 5),
+    year_10: totalCost(purchase, renewal, 10),
+    renewal_jump: jump,
+  };
+}
+
+/**
+ * Validate the budget argument shared by the listing tools
+ */
+export function resolveBudget(
+  budget: { years?: number; max_total?: number } | undefined
+): BudgetOptions | null {
+  if (!budget) return null;
+  const years = budget.years ?? DEFAULT_BUDGET_YEARS;
+  if (!Number.isInteger(years) || years < 1 || years > 20) {
+    throw new InvalidInputError("budget.years must be a whole number between 1 and 20");
+  }
+  const maxTotal = budget.max_total ?? null;
+  if (maxTotal !== null && (typeof maxTotal !== "number" || maxTotal < 0)) {
+    throw new InvalidInputError("budget.max_total must be a non-negative number");
+  }
+  return { years, max_total: maxTotal };
+}
+
+/**
+ * Filter and sort items by total cost over the budget horizon. Items whose
+ * total cannot be computed are kept at the end unless a cap is set.
+ */
+export function applyBudget<T>(
+  items: T[],
+  prices: (item: T) => { purchase: number | null; renewal: number | null },
+  budget: BudgetOptions
+): { items: T[]; summary: BudgetSummary } {
+  const withTotals = items.map((item) => {
+    const { purchase, renewal } = prices(item);
+    return { item, total: totalCost(purchase, renewal, budget.years) };
+  });
+
+  const kept = withTotals.filter(({ total }) =>
+    budget.max_total === null ? true : total !== null && total <= budget.max_total
+  );
+  kept.sort((a, b) => (a.total ?? Infinity) - (b.total ?? Infinity));
+
+  return {
+    items: kept.map(({ item }) => item),
+    summary: {
+      years: budget.years,
+      max_total: budget.max_total,
+      excluded_count: items.length - kept.length,
+    },
+  };
+}
+
+function money(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * One-line summary of multi-year totals, or null when nothing is known
+ */
+export function formatCostTotals(costs: CostBreakdown): string | null {
+  const parts: string[] = [];
+  for (const years of COST_HORIZONS) {
+    const total = costs[`year_${years}`];
+    if (total !== null) {
+      parts.push(`${years} yr${years === 1 ? "" : "s"} ${money(total)}`);
+    }
+  }
+  return parts.length > 1 ? parts.join(" | ") : null;
+}
+
+/**
+ * Short inline annotation for list entries: total over the horizon plus a
+ * warning when renewals jump
+ */
+export function formatCostSuffix(
+  purchase: number | null,
+  renewal: number | null,
+  years: number
+): string {
+  const parts: string[] = [];
+  const total = totalCost(purchase, renewal, years);
+  if (total !== null && years > 1) {
+    parts.push(`${years}-yr total ${money(total)}`);
+  }
+  if (costBreakdown(purchase, renewal).renewal_jump && renewal !== null) {
+    parts.push(`⚠ renews at ${money(renewal)}/yr`);
+  }
+  return parts.length > 0 ? ` [${parts.join(", ")}]` : "";
+}
+
+/**
+ * Describe how a budget filter changed a listing
+ */
+export function formatBudgetNote(summary: BudgetSummary): string {
+  const cap =
+    summary.max_total !== null
+      ? `, max ${money(summary.max_total)} total`
+      : "";
+  const excluded =
+    summary.excluded_count > 0
+      ? ` (${summary.excluded_count} over budget or without known renewal price excluded)`
+      : "";
+  return `Budget: sorted by ${summary.years}-year total cost${cap}${excluded}`;
+}
+
+/**
+ * Attach multi-year costs to a check result
+ */
+export function withDomainCosts(result: DomainCheckResult): DomainCheckResult {
+  return {
+    ...result,
+    costs: costBreakdown(result.purchase_price, result.renewal_price),
+  };
+}
+
+/**
+ * Attach multi-year costs to every TLD in an explore result, then apply
+ * the budget filter if one was given
+ */
+export function withExploreCosts(
+  result: ExploreResult,
+  budget: BudgetOptions | null
+): ExploreResult {
+  let results = result.results.map((r) => ({
+    ...r,
+    costs: costBreakdown(r.purchase_price, r.renewal_price),
+  }));
+  if (!budget) {
+    return { ...result, results };
+  }
+  const applied = applyBudget(
+    results,
+    (r) => ({ purchase: r.available ? r.purchase_price : null, renewal: r.renewal_price }),
+    budget
+  );
+  results = applied.items;
+  return { ...result, results, budget: applied.summary };
+}
+
+/**
+ * Attach multi-year costs to brainstorm suggestions. In budget mode,
+ * missing renewal prices are looked up first so totals can be compared.
+ */
+export async function withBrainstormCosts(
+  result: BrainstormResult,
+  budget: BudgetOptions | null,
+  lookupRenewals: RenewalLookup
+): Promise<BrainstormResult> {
+  let suggestions = result.suggestions;
+  if (budget) {
+    const missing = suggestions
+      .filter((s) => s.available && s.renewal_price == null)
+      .map((s) => s.domain);
+    const renewals = await lookupRenewals(missing);
+    suggestions = suggestions.map((s) =>
+      renewals.has(s.domain) ? { ...s, renewal_price: renewals.get(s.domain) } : s
+    );
+  }
+  suggestions = suggestions.map((s) => ({
+    ...s,
+    costs: costBreakdown(s.purchase_price, s.renewal_price ?? null),
+  }));
+  if (!budget) {
+    return { ...result, suggestions };
+  }
+  const applied = applyBudget(
+    suggestions,
+    (s) => ({ purchase: s.available ? s.purchase_price : null, renewal: s.renewal_price ?? null }),
+    budget
+  );
+  return { ...result, suggestions: applied.items, budget: applied.summary };
+}
+
+/**
+ * Attach multi-year costs to search results. In budget mode, missing
+ * renewal prices are looked up first so totals can be compared.
+ */
+export async function withSearchCosts(
+  result: SearchResult,
+  budget: BudgetOptions | null,
+  lookupRenewals: RenewalLookup
+): Promise<SearchResult> {
+  let domains = result.domains;
+  if (budget) {
+    const missing = domains.filter((d) => d.renewal_price == null).map((d) => d.domain);
+    const renewals = await lookupRenewals(missing);
+    domains = domains.map((d) =>
+      renewals.has(d.domain) ? { ...d, renewal_price: renewals.get(d.domain) } : d
+    );
+  }
+  domains = domains.map((d) => ({
+    ...d,
+    costs: costBreakdown(d.price, d.renewal_price ?? null),
+  }));
+  if (!budget) {
+    return { ...result, domains };
+  }
+  const applied = applyBudget(
+    domains,
+    (d) => ({ purchase: d.price, renewal: d.renewal_price ?? null }),
+    budget
+  );
+  return {
+    ...result,
+    count: applied.items.length,
+    domains: applied.items,
+    budget: applied.summary,
+  };
+}
+
+/**
+ * Attach multi-year costs to a bulk check, then apply the budget filter
+ */
+export function withBulkCosts(
+  result: BulkCheckResult,
+  budget: BudgetOptions | null
+): BulkCheckResult {
+  const results = result.results.map(withDomainCosts);
+  if (!budget) {
+    return { ...result, results };
+  }
+  const applied = applyBudget(
+    results,
+    (r) => ({ purchase: r.available ? r.purchase_price : null, renewal: r.renewal_price }),
+    budget
+  );
+  return { ...result, results: applied.items, budget: applied.summary };
+}
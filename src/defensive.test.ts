@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { generateDefensiveVariants, riskLevel, type DefensiveOptions } from "./defensive.js";
+import { normalizeDomain } from "./domain.js";
+
+const ALL: DefensiveOptions = { tlds: ["com", "net"], techniques: null };
+
+function variants(domain: string, options: DefensiveOptions = ALL) {
+  return generateDefensiveVariants(normalizeDomain(domain), options);
+}
+
+function techniqueOf(domain: string, list: ReturnType<typeof variants>) {
+  return list.find((v) => v.domain === domain)?.technique;
+}
+
+describe("generateDefensiveVariants", () => {
+  it("covers typos, confusables and TLD swaps without the original", () => {
+    const list = variants("modern.io");
+    assert.equal(techniqueOf("moden.io", list), "omission");
+    assert.equal(techniqueOf("omdern.io", list), "transposition");
+    assert.equal(techniqueOf("rnodern.io", list), "confusable");
+    assert.equal(techniqueOf("modernn.io", list), "doubling");
+    assert.equal(techniqueOf("mod-ern.io", list), "hyphen");
+    assert.equal(techniqueOf("modern.com", list), "tld_swap");
+    assert.ok(!list.some((v) => v.domain === "modern.io"));
+    assert.equal(new Set(list.map((v) => v.domain)).size, list.length);
+  });
+
+  it("ranks riskier variants first and keeps the best technique per domain", () => {
+    const list = variants("acme.io");
+    const scores = list.map((v) => v.risk_score);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+    // A .com swap gets a bonus over other TLDs
+    const com = list.find((v) => v.domain === "acme.com");
+    const net = list.find((v) => v.domain === "acme.net");
+    assert.ok(com && net && com.risk_score > net.risk_score);
+    assert.equal(com.risk, "high");
+  });
+
+  it("shows homographs in Unicode and scores whole-script swaps highest", () => {
+    const list = variants("cope.com", { tlds: [], techniques: ["homograph"] });
+    const whole = list[0];
+    assert.equal(whole.display, "соре.com");
+    assert.match(whole.domain, /^xn--/);
+    assert.equal(whole.risk, "high");
+    // One swapped letter mixes scripts, which registries and browsers catch
+    assert.ok(list.slice(1).every((v) => v.risk_score < whole.risk_score));
+  });
+
+  it("varies the Unicode name of an IDN", () => {
+    const list = variants("café.fr", { tlds: [], techniques: ["omission"] });
+    assert.ok(list.some((v) => v.display === "caf.fr"));
+    assert.ok(list.some((v) => v.display === "cfé.fr"));
+  });
+
+  it("drops variants that are not valid domains", () => {
+    const list = variants("ab.io", { tlds: [], techniques: ["hyphen", "omission"] });
+    assert.deepEqual(list.map((v) => v.domain).sort(), ["a-b.io", "a.io", "b.io"]);
+  });
+});
+
+describe("riskLevel", () => {
+  it("buckets scores", () => {
+    assert.equal(riskLevel(90), "high");
+    assert.equal(riskLevel(50), "medium");
+    assert.equal(riskLevel(10), "low");
+  });
+});
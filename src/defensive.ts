@@ -0,0 +1,236 @@
+import { normalizeDomain, type NormalizedDomain } from "./domain.js";
+import { InvalidInputError } from "./errors.js";
+
+/**
+ * Lookalike domains worth registering defensively.
+ *
+ * Variants of a chosen domain come from fixed rules (typos, confusable
+ * characters, IDN homographs, hyphens, TLD swaps, common misspellings),
+ * each scored by how likely it is to fool a reader or catch a mistyped
+ * visit. Everything is generated locally; only the availability checks
+ * go over the network.
+ */
+
+export const DEFENSIVE_TECHNIQUES = [
+  "omission",
+  "transposition",
+  "keyboard",
+  "doubling",
+  "confusable",
+  "homograph",
+  "hyphen",
+  "tld_swap",
+  "misspelling",
+] as const;
+export type DefensiveTechnique = (typeof DEFENSIVE_TECHNIQUES)[number];
+
+export const RISK_LEVELS = ["high", "medium", "low"] as const;
+export type RiskLevel = (typeof RISK_LEVELS)[number];
+
+export interface DefensiveVariant {
+  /** ASCII domain, punycode for homographs */
+  domain: string;
+  /** Unicode form, showing homographs as they would appear */
+  display: string;
+  technique: DefensiveTechnique;
+  /** 0-100; higher is more likely to be mistaken for the original */
+  risk_score: number;
+  risk: RiskLevel;
+}
+
+export interface DefensiveOptions {
+  /** TLDs to try the unchanged name on */
+  tlds: string[];
+  /** Only use these techniques; all when null */
+  techniques: DefensiveTechnique[] | null;
+}
+
+export const DEFAULT_SWAP_TLDS = ["com", "net", "org", "co", "io"];
+
+// Base scores: lookalikes that survive a careful read rank above typos
+// that only catch careless typing
+const TECHNIQUE_SCORES: Record<DefensiveTechnique, number> = {
+  homograph: 90,
+  confusable: 80,
+  tld_swap: 70,
+  transposition: 65,
+  omission: 60,
+  keyboard: 55,
+  misspelling: 55,
+  doubling: 45,
+  hyphen: 30,
+};
+// A single swapped script is usually refused by the registry or shown as
+// punycode by browsers; only all-lookalike labels pass for the original
+const MIXED_SCRIPT_PENALTY = 35;
+// Readers notice a wrong first letter more often than one further in
+const FIRST_LETTER_PENALTY = 15;
+const COM_BONUS = 15;
+const HIGH_RISK = 70;
+const MEDIUM_RISK = 45;
+
+const KEYBOARD_NEIGHBORS: Record<string, string> = {
+  q: "wa", w: "qase", e: "wsdr", r: "edft", t: "rfgy", y: "tghu", u: "yhji",
+  i: "ujko", o: "iklp", p: "ol", a: "qwsz", s: "awedxz", d: "serfcx",
+  f: "drtgvc", g: "ftyhbv", h: "gyujnb", j: "huikmn", k: "jiolm", l: "kop",
+  z: "asx", x: "zsdc", c: "xdfv", v: "cfgb", b: "vghn", n: "bhjm", m: "njk",
+  "1": "2q", "2": "13w", "3": "24e", "4": "35r", "5": "46t", "6": "57y",
+  "7": "68u", "8": "79i", "9": "80o", "0": "9p",
+};
+
+/** ASCII sequences that read as each other in most fonts */
+const CONFUSABLES: Array<[string, string]> = [
+  ["rn", "m"], ["m", "rn"], ["vv", "w"], ["w", "vv"], ["cl", "d"], ["d", "cl"],
+  ["l", "1"], ["1", "l"], ["i", "l"], ["l", "i"], ["o", "0"], ["0", "o"],
+];
+
+/** Cyrillic letters that render like Latin ones */
+const HOMOGLYPHS: Record<string, string> = {
+  a: "а", c: "с", d: "ԁ", e: "е", h: "һ", i: "і",
+  j: "ј", l: "ӏ", o: "о", p: "р", q: "ԛ", s: "ѕ",
+  w: "ԝ", x: "х", y: "у",
+};
+
+/** Spelling slips people make when they heard the name rather than saw it */
+const MISSPELLINGS: Array<[string, string]> = [
+  ["ph", "f"], ["f", "ph"], ["ck", "k"], ["k", "c"], ["c", "k"], ["s", "z"],
+  ["z", "s"], ["ie", "ei"], ["ei", "ie"], ["ou", "o"], ["y", "i"], ["i", "y"],
+  ["ee", "ea"], ["ea", "ee"], ["or", "er"], ["er", "or"], ["ence", "ance"],
+  ["ance", "ence"], ["ible", "able"], ["able", "ible"], ["tion", "sion"],
+];
+
+interface Candidate {
+  label: string;
+  suffix: string;
+  technique: DefensiveTechnique;
+  /** Index of the first changed character, when the label changed */
+  position: number | null;
+  mixedScript?: boolean;
+}
+
+/**
+ * Every label from replacing one occurrence of `from` with `to`
+ */
+function replaceEach(label: string, from: string, to: string): Array<[string, number]> {
+  const results: Array<[string, number]> = [];
+  for (let i = label.indexOf(from); i !== -1; i = label.indexOf(from, i + 1)) {
+    results.push([label.slice(0, i) + to + label.slice(i + from.length), i]);
+  }
+  return results;
+}
+
+function labelCandidates(label: string, suffix: string): Candidate[] {
+  const candidates: Candidate[] = [];
+  const add = (variant: string, technique: DefensiveTechnique, position: number, mixedScript?: boolean) =>
+    candidates.push({ label: variant, suffix, technique, position, mixedScript });
+  const chars = [...label];
+
+  chars.forEach((char, i) => {
+    if (chars.length > 1) {
+      add(chars.filter((_, j) => j !== i).join(""), "omission", i);
+    }
+    if (i < chars.length - 1 && chars[i + 1] !== char) {
+      const swapped = [...chars];
+      [swapped[i], swapped[i + 1]] = [swapped[i + 1], swapped[i]];
+      add(swapped.join(""), "transposition", i);
+    }
+    for (const neighbor of KEYBOARD_NEIGHBORS[char] ?? "") {
+      add(chars.map((c, j) => (j === i ? neighbor : c)).join(""), "keyboard", i);
+    }
+    if (char !== "-") {
+      add(chars.map((c, j) => (j === i ? c + c : c)).join(""), "doubling", i);
+    }
+    if (i > 0 && char !== "-" && chars[i - 1] !== "-") {
+      add(`${chars.slice(0, i).join("")}-${chars.slice(i).join("")}`, "hyphen", i);
+    }
+    const homoglyph = HOMOGLYPHS[char];
+    if (homoglyph) {
+      add(chars.map((c, j) => (j === i ? homoglyph : c)).join(""), "homograph", i, true);
+    }
+  });
+
+  // Whole-script homograph: every letter swapped, so no Latin is left
+  const letters = chars.filter((c) => /[a-z]/.test(c));
+  if (letters.length > 0 && letters.every((c) => HOMOGLYPHS[c])) {
+    add(chars.map((c) => HOMOGLYPHS[c] ?? c).join(""), "homograph", 0);
+  }
+
+  for (const [from, to] of CONFUSABLES) {
+    for (const [variant, i] of replaceEach(label, from, to)) {
+      add(variant, "confusable", i);
+    }
+  }
+  for (const [from, to] of MISSPELLINGS) {
+    for (const [variant, i] of replaceEach(label, from, to)) {
+      add(variant, "misspelling", i);
+    }
+  }
+  return candidates;
+}
+
+function riskScore(candidate: Candidate): number {
+  let score = TECHNIQUE_SCORES[candidate.technique];
+  if (candidate.mixedScript) score -= MIXED_SCRIPT_PENALTY;
+  if (candidate.technique !== "homograph" && candidate.position === 0) {
+    score -= FIRST_LETTER_PENALTY;
+  }
+  if (candidate.technique === "tld_swap" && candidate.suffix === "com") score += COM_BONUS;
+  return Math.max(0, Math.min(100, score));
+}
+
+export function riskLevel(score: number): RiskLevel {
+  if (score >= HIGH_RISK) return "high";
+  if (score >= MEDIUM_RISK) return "medium";
+  return "low";
+}
+
+/**
+ * Build deduplicated lookalikes of a domain, riskiest first. Where two
+ * techniques produce the same domain, the higher score wins. The domain
+ * itself is never included.
+ */
+export function generateDefensiveVariants(
+  original: NormalizedDomain,
+  options: DefensiveOptions
+): DefensiveVariant[] {
+  // Typos are made on what people see, so work on the Unicode label
+  const label = original.unicodeName;
+  if (!label) {
+    throw new InvalidInputError(`Invalid domain "${original.input}": it has no name to vary`);
+  }
+
+  const candidates = labelCandidates(label, original.suffix);
+  for (const tld of options.tlds) {
+    if (tld !== original.suffix) {
+      candidates.push({ label, suffix: tld, technique: "tld_swap", position: null });
+    }
+  }
+
+  const allowed = options.techniques ? new Set(options.techniques) : null;
+  const best = new Map<string, DefensiveVariant>();
+  candidates.forEach((candidate) => {
+    if (allowed && !allowed.has(candidate.technique)) return;
+    let normalized: NormalizedDomain;
+    try {
+      normalized = normalizeDomain(`${candidate.label}.${candidate.suffix}`);
+    } catch (error) {
+      // Rules can produce invalid labels, such as a leading hyphen
+      if (error instanceof InvalidInputError) return;
+      throw error;
+    }
+    if (normalized.domain === original.domain) return;
+    const score = riskScore(candidate);
+    const existing = best.get(normalized.domain);
+    if (existing && existing.risk_score >= score) return;
+    best.set(normalized.domain, {
+      domain: normalized.domain,
+      display: normalized.unicode,
+      technique: candidate.technique,
+      risk_score: score,
+      risk: riskLevel(score),
+    });
+  });
+
+  // Stable sort keeps generation order within a score
+  return [...best.values()].sort((a, b) => b.risk_score - a.risk_score);
+}
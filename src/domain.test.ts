@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { displayDomain, normalizeDomain, normalizeName, normalizeTld } from "./domain.js";
+import { InvalidInputError } from "./errors.js";
+
+describe("normalizeDomain", () => {
+  it("reduces pasted URLs to the registrable domain", () => {
+    assert.equal(normalizeDomain("https://www.Example.com/path?q=1#top").domain, "example.com");
+    assert.equal(normalizeDomain("user@example.com:8080").domain, "example.com");
+    assert.equal(normalizeDomain("example.com.").domain, "example.com");
+  });
+
+  it("recognizes multi-part suffixes", () => {
+    const parsed = normalizeDomain("www.shop.co.uk");
+    assert.equal(parsed.domain, "shop.co.uk");
+    assert.equal(parsed.name, "shop");
+    assert.equal(parsed.suffix, "co.uk");
+  });
+
+  it("converts IDNs to punycode and keeps the Unicode form", () => {
+    const parsed = normalizeDomain("Café.fr");
+    assert.equal(parsed.domain, "xn--caf-dma.fr");
+    assert.equal(parsed.unicode, "café.fr");
+    assert.equal(parsed.unicodeName, "café");
+  });
+
+  it("takes the Unicode name from the label, not the suffix length", () => {
+    assert.equal(normalizeDomain("пример.рф").unicodeName, "пример");
+    assert.equal(normalizeDomain("xn--e1afmkfd.xn--p1ai").unicodeName, "пример");
+    assert.equal(normalizeDomain("shop.co.uk").unicodeName, "shop");
+  });
+
+  it("rejects subdomains other than www", () => {
+    assert.throws(() => normalizeDomain("api.example.com"), /"api" is a subdomain.*example\.com/);
+    assert.throws(() => normalizeDomain("www.api.example.com"), /"api" is a subdomain/);
+  });
+
+  it("says when a country suffix may be missing from the bundled list", () => {
+    assert.equal(normalizeDomain("foo.com.mx").domain, "foo.com.mx");
+    assert.throws(
+      () => normalizeDomain("foo.gob.mx"),
+      /if gob\.mx is itself a public suffix, it is not in the bundled list/
+    );
+    assert.throws(
+      () => normalizeDomain("api.example.com"),
+      (error: Error) => !/bundled list/.test(error.message)
+    );
+  });
+
+  it("says what is wrong with invalid input", () => {
+    const cases: Array<[string, RegExp]> = [
+      ["", /it is empty/],
+      ["example", /no TLD/],
+      ["-example.com", /cannot start or end with a hyphen/],
+      ["ex_ample.com", /invalid character "_"/],
+      ["ab--cd.com", /3rd and 4th positions/],
+      [`${"a".repeat(64)}.com`, /64 characters long/],
+      ["co.uk", /public suffix/],
+      ["example.c0m", /not a valid TLD/],
+    ];
+    for (const [input, message] of cases) {
+      assert.throws(
+        () => normalizeDomain(input),
+        (error) => error instanceof InvalidInputError && message.test(error.message),
+        input
+      );
+    }
+  });
+});
+
+describe("normalizeName", () => {
+  it("accepts bare names and drops the TLD of full domains", () => {
+    assert.equal(normalizeName("QuickPulse"), "quickpulse");
+    assert.equal(normalizeName("quickpulse.io"), "quickpulse");
+    assert.equal(normalizeName("café"), "xn--caf-dma");
+  });
+});
+
+describe("normalizeTld", () => {
+  it("accepts TLDs as people write them", () => {
+    assert.equal(normalizeTld(".IO"), "io");
+    assert.equal(normalizeTld("co.uk"), "co.uk");
+    assert.equal(normalizeTld("рф"), "xn--p1ai");
+  });
+});
+
+describe("displayDomain", () => {
+  it("shows IDNs in both forms", () => {
+    assert.equal(displayDomain("xn--caf-dma.fr"), "café.fr (xn--caf-dma.fr)");
+    assert.equal(displayDomain("example.com"), "example.com");
+  });
+});
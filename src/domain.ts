@@ -0,0 +1,218 @@
+import { domainToASCII, domainToUnicode } from "node:url";
+import { InvalidInputError } from "./errors.js";
+import { MULTI_LABEL_SUFFIXES } from "./public-suffixes.js";
+
+/**
+ * Domain input normalization and validation.
+ *
+ * Users paste URLs, mixed case, trailing dots and Unicode names; everything
+ * is reduced to the ASCII (punycode) registrable domain before it reaches
+ * the API, and errors say exactly which part was wrong.
+ */
+
+export interface NormalizedDomain {
+  /** What the user passed in */
+  input: string;
+  /** ASCII registrable domain, e.g. "xn--caf-dma.fr" */
+  domain: string;
+  /** Unicode form for display, e.g. "café.fr" */
+  unicode: string;
+  /** Registrable label without the suffix, e.g. "xn--caf-dma" */
+  name: string;
+  /** Unicode form of the label, e.g. "café" */
+  unicodeName: string;
+  /** Public suffix, e.g. "fr" or "co.uk" */
+  suffix: string;
+}
+
+const MAX_DOMAIN_LENGTH = 253;
+const MAX_LABEL_LENGTH = 63;
+
+/**
+ * Reduce a pasted URL or hostname to a bare lowercase host
+ */
+function stripToHost(input: string): string {
+  let host = input.trim();
+  host = host.replace(/^[a-z][a-z0-9+.-]*:\/\//i, "");
+  host = host.replace(/^[^@/]*@/, "");
+  host = host.split(/[/?#]/)[0];
+  host = host.replace(/:\d+$/, "");
+  host = host.replace(/\.+$/, "");
+  return host.toLowerCase();
+}
+
+/**
+ * Convert a host to its ASCII form, rejecting names punycode cannot encode
+ */
+function toAscii(host: string, input: string): string {
+  if (/^[\x00-\x7f]*$/.test(host) && !host.includes("xn--")) {
+    return host;
+  }
+  const ascii = domainToASCII(host);
+  if (!ascii) {
+    throw new InvalidInputError(
+      `Invalid domain "${input}": it contains characters that cannot be converted to punycode`
+    );
+  }
+  return ascii;
+}
+
+/**
+ * Check a single ASCII label against the LDH (letters, digits, hyphen) rules
+ */
+function validateLabel(label: string, input: string): void {
+  const prefix = `Invalid domain "${input}":`;
+  if (label.length === 0) {
+    throw new InvalidInputError(`${prefix} it contains an empty label (two dots in a row?)`);
+  }
+  if (label.length > MAX_LABEL_LENGTH) {
+    throw new InvalidInputError(
+      `${prefix} label "${label}" is ${label.length} characters long (max ${MAX_LABEL_LENGTH})`
+    );
+  }
+  const bad = label.match(/[^a-z0-9-]/);
+  if (bad) {
+    throw new InvalidInputError(`${prefix} label "${label}" contains the invalid character "${bad[0]}"`);
+  }
+  if (label.startsWith("-") || label.endsWith("-")) {
+    throw new InvalidInputError(`${prefix} label "${label}" cannot start or end with a hyphen`);
+  }
+  if (label.slice(2, 4) === "--" && !label.startsWith("xn--")) {
+    throw new InvalidInputError(
+      `${prefix} label "${label}" has hyphens in the 3rd and 4th positions, which is reserved for "xn--" IDN labels`
+    );
+  }
+}
+
+/**
+ * Split labels into the registrable part and the public suffix
+ */
+function splitSuffix(labels: string[]): { rest: string[]; suffix: string } {
+  for (let size = Math.min(3, labels.length); size > 1; size--) {
+    const candidate = labels.slice(-size).join(".");
+    if (MULTI_LABEL_SUFFIXES.has(candidate)) {
+      return { rest: labels.slice(0, -size), suffix: candidate };
+    }
+  }
+  return { rest: labels.slice(0, -1), suffix: labels[labels.length - 1] };
+}
+
+/**
+ * Normalize user input to a registrable domain.
+ *
+ * Strips schemes, credentials, ports, paths, trailing dots and a leading
+ * "www", lowercases, and converts IDNs to punycode. Other subdomains are
+ * rejected rather than dropped, so no tool quietly checks a different
+ * domain from the one asked about.
+ */
+export function normalizeDomain(input: string): NormalizedDomain {
+  const host = stripToHost(input);
+  if (!host) {
+    throw new InvalidInputError(`Invalid domain "${input}": it is empty`);
+  }
+
+  const ascii = toAscii(host, input);
+  if (ascii.length > MAX_DOMAIN_LENGTH) {
+    throw new InvalidInputError(
+      `Invalid domain "${input}": it is ${ascii.length} characters long (max ${MAX_DOMAIN_LENGTH})`
+    );
+  }
+
+  const labels = ascii.split(".");
+  if (labels.length < 2) {
+    throw new InvalidInputError(
+      `Invalid domain "${input}": it has no TLD (did you mean ${ascii}.com?)`
+    );
+  }
+  for (const label of labels) {
+    validateLabel(label, input);
+  }
+
+  const tld = labels[labels.length - 1];
+  if (!/^[a-z]{2,}$/.test(tld) && !tld.startsWith("xn--")) {
+    throw new InvalidInputError(`Invalid domain "${input}": ".${tld}" is not a valid TLD`);
+  }
+
+  const { rest, suffix } = splitSuffix(labels);
+  if (rest.length === 0) {
+    throw new InvalidInputError(
+      `Invalid domain "${input}": "${suffix}" is a public suffix, not a registrable domain`
+    );
+  }
+
+  const name = rest[rest.length - 1];
+  const domain = `${name}.${suffix}`;
+  const subdomain = rest.slice(rest[0] === "www" ? 1 : 0, -1);
+  if (subdomain.length > 0) {
+    // A country TLD's second-level suffix may simply be missing from the
+    // bundled list, so say so instead of only blaming the input
+    const unlisted = /^[a-z]{2}$/.test(suffix)
+      ? `; if ${domain} is itself a public suffix, it is not in the bundled list`
+      : "";
+    throw new InvalidInputError(
+      `Invalid domain "${input}": "${subdomain.join(".")}" is a subdomain; only registrable domains can be checked (did you mean ${domain}?${unlisted})`
+    );
+  }
+  const unicode = domainToUnicode(domain) || domain;
+  return {
+    input,
+    domain,
+    unicode,
+    name,
+    // A single label, so it ends at the first dot. Cutting the suffix off
+    // by length would not work: "рф" is "xn--p1ai" in ASCII.
+    unicodeName: unicode.slice(0, unicode.indexOf(".")),
+    suffix,
+  };
+}
+
+/**
+ * Normalize a bare name (no TLD) for exploring across TLDs.
+ * A full domain is accepted too, in which case its TLD is dropped.
+ */
+export function normalizeName(input: string): string {
+  const host = stripToHost(input);
+  if (host.includes(".")) {
+    return normalizeDomain(input).name;
+  }
+  if (!host) {
+    throw new InvalidInputError(`Invalid name "${input}": it is empty`);
+  }
+  const ascii = toAscii(`${host}.com`, input).slice(0, -".com".length);
+  validateLabel(ascii, input);
+  return ascii;
+}
+
+/**
+ * Normalize a TLD as users tend to write it (".IO", "co.uk", "café")
+ */
+export function normalizeTld(input: string): string {
+  const trimmed = input.trim().replace(/^\.+/, "").replace(/\.+$/, "").toLowerCase();
+  if (!trimmed) {
+    throw new InvalidInputError(`Invalid TLD "${input}": it is empty`);
+  }
+  const ascii = toAscii(trimmed, input);
+  for (const label of ascii.split(".")) {
+    validateLabel(label, input);
+  }
+  return ascii;
+}
+
+/**
+ * ASCII form of a domain or part of one, for matching against stored
+ * domains, e.g. "münchen.de" → "xn--mnchen-3ya.de". ASCII text is kept
+ * as is, so a partial punycode label still matches.
+ */
+export function asciiHost(input: string): string {
+  const host = stripToHost(input);
+  return /^[\x00-\x7f]*$/.test(host) ? host : toAscii(host, input);
+}
+
+/**
+ * Render an ASCII domain for people, showing the Unicode form of IDNs
+ */
+export function displayDomain(domain: string): string {
+  if (!domain.includes("xn--")) return domain;
+  const unicode = domainToUnicode(domain);
+  return unicode && unicode !== domain ? `${unicode} (${domain})` : domain;
+}
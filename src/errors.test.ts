@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createAgentDomainClient } from "./client.js";
+import { loadConfig, resolveExploreTlds } from "./config.js";
+import {
+  AgentDomainError,
+  describeError,
+  InvalidInputError,
+  toAgentDomainError,
+  type ErrorCategory,
+} from "./errors.js";
+import { HttpError } from "./http.js";
+
+/** A client whose every API request gets this response, without RDAP */
+function clientAnswering(status: number, body: string, headers: Record<string, string> = {}) {
+  return createAgentDomainClient({
+    http: { maxRetries: 0 },
+    providers: ["api"],
+    fetch: async () => new Response(body, { status, headers }),
+  });
+}
+
+async function rejectsWith(promise: Promise<unknown>, category: ErrorCategory, message?: RegExp) {
+  await assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof AgentDomainError);
+    assert.equal(error.category, category);
+    if (message) assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe("toAgentDomainError", () => {
+  it("classifies HTTP failures by status", () => {
+    const cases: Array<[number | null, ErrorCategory, boolean]> = [
+      [null, "network", true],
+      [408, "network", true],
+      [400, "invalid_input", false],
+      [404, "not_found", false],
+      [429, "rate_limited", true],
+      [403, "upstream_unavailable", false],
+      [503, "upstream_unavailable", true],
+    ];
+    for (const [status, category, retryable] of cases) {
+      const error = toAgentDomainError(new HttpError(`HTTP ${status}`, status));
+      assert.equal(error.category, category, String(status));
+      assert.equal(error.retryable, retryable, String(status));
+    }
+  });
+
+  it("keeps classified errors and treats the rest as internal", () => {
+    const invalid = new InvalidInputError("bad");
+    assert.equal(toAgentDomainError(invalid), invalid);
+    assert.equal(toAgentDomainError(new SyntaxError("Unexpected token")).category, "malformed_response");
+    assert.equal(toAgentDomainError(new Error("boom")).category, "internal");
+  });
+
+  it("reports how long to wait after a rate limit", () => {
+    const info = describeError(toAgentDomainError(new HttpError("HTTP 429", 429, 1500)));
+    assert.deepEqual(info, {
+      category: "rate_limited",
+      retryable: true,
+      message: "HTTP 429",
+      retry_after_seconds: 2,
+    });
+  });
+});
+
+describe("bad input", () => {
+  it("is reported as invalid_input before any request is made", async () => {
+    let requests = 0;
+    const client = createAgentDomainClient({
+      fetch: async () => {
+        requests++;
+        return new Response("{}");
+      },
+    });
+    await rejectsWith(client.checkDomain("not a domain"), "invalid_input", /Invalid domain/);
+    await rejectsWith(client.searchDomains({ offset: -1 }), "invalid_input", /offset/);
+    assert.equal(requests, 0);
+  });
+
+  it("covers TLD groups and configuration", () => {
+    assert.throws(
+      () => resolveExploreTlds({ tech: ["io"] }, undefined, ["crypto"]),
+      (error) => error instanceof InvalidInputError && /Unknown TLD group "crypto"/.test(error.message)
+    );
+    assert.throws(
+      () => loadConfig({ AGENT_DOMAIN_PORT: "http" }, []),
+      (error) => error instanceof InvalidInputError && error.category === "invalid_input"
+    );
+    assert.throws(
+      () => loadConfig({ AGENT_DOMAIN_TLD_GROUPS: "[1]" }, []),
+      (error) => error instanceof InvalidInputError
+    );
+  });
+});
+
+describe("client failures", () => {
+  it("are classified and say what was being attempted", async () => {
+    await rejectsWith(
+      clientAnswering(503, "down").checkDomain("quickpulse.com"),
+      "upstream_unavailable",
+      /^Failed to check domain: /
+    );
+    await rejectsWith(
+      clientAnswering(429, "slow down", { "Retry-After": "5" }).checkDomain("quickpulse.com"),
+      "rate_limited"
+    );
+    await rejectsWith(clientAnswering(200, "<html>").checkDomain("quickpulse.com"), "malformed_response");
+    await rejectsWith(
+      clientAnswering(200, JSON.stringify({ available: true })).checkDomain("quickpulse.com"),
+      "malformed_response",
+      /lookup response\.domain is missing/
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { HttpError } from "./http.js";
+
+/**
+ * Error taxonomy.
+ *
+ * Every failure surfaced to a caller is one of these classes, each with a
+ * category and whether retrying the same request could succeed, so agents
+ * and scripts can decide what to do without parsing messages.
+ */
+
+export const ERROR_CATEGORIES = [
+  "invalid_input",
+  "not_found",
+  "rate_limited",
+  "upstream_unavailable",
+  "network",
+  "malformed_response",
+  "internal",
+] as const;
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[number];
+
+export class AgentDomainError extends Error {
+  constructor(
+    message: string,
+    public readonly category: ErrorCategory,
+    public readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = "AgentDomainError";
+  }
+}
+
+/** The request itself is wrong; fix the arguments before retrying */
+export class InvalidInputError extends AgentDomainError {
+  constructor(message: string) {
+    super(message, "invalid_input", false);
+    this.name = "InvalidInputError";
+  }
+}
+
+export class NotFoundError extends AgentDomainError {
+  constructor(message: string) {
+    super(message, "not_found", false);
+    this.name = "NotFoundError";
+  }
+}
+
+export class RateLimitedError extends AgentDomainError {
+  constructor(
+    message: string,
+    /** How long the API asked us to wait, when it said */
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message, "rate_limited", true);
+    this.name = "RateLimitedError";
+  }
+}
+
+/** The API failed or refused the request; 5xx responses are retryable */
+export class UpstreamUnavailableError extends AgentDomainError {
+  constructor(
+    message: string,
+    public readonly status: number | null = null
+  ) {
+    super(message, "upstream_unavailable", status === null || status >= 500);
+    this.name = "UpstreamUnavailableError";
+  }
+}
+
+/** The API could not be reached, or did not answer in time */
+export class NetworkError extends AgentDomainError {
+  constructor(
+    message: string,
+    public readonly timedOut: boolean = false
+  ) {
+    super(message, "network", true);
+    this.name = "NetworkError";
+  }
+}
+
+/** The API answered with something that is not the expected shape */
+export class MalformedResponseError extends AgentDomainError {
+  constructor(message: string) {
+    super(message, "malformed_response", false);
+    this.name = "MalformedResponseError";
+  }
+}
+
+/**
+ * Classify any thrown value. HTTP failures are mapped by status, JSON
+ * parse failures count as malformed responses, and anything else
+ * unexpected is internal.
+ */
+export function toAgentDomainError(error: unknown): AgentDomainError {
+  if (error instanceof AgentDomainError) {
+    return error;
+  }
+  if (error instanceof HttpError) {
+    const { status } = error;
+    if (status === null || status === 408) {
+      return new NetworkError(error.message, status === 408 || /timed out/.test(error.message));
+    }
+    if (status === 400 || status === 422) return new InvalidInputError(error.message);
+    if (status === 404) return new NotFoundError(error.message);
+    if (status === 429) return new RateLimitedError(error.message, error.retryAfterMs);
+    return new UpstreamUnavailableError(error.message, status);
+  }
+  if (error instanceof SyntaxError) {
+    return new MalformedResponseError(`Response is not valid JSON: ${error.message}`);
+  }
+  const message = error instanceof Error ? error.message : "Unknown error";
+  return new AgentDomainError(message, "internal", false);
+}
+
+/** How an error is reported in tool results and JSON output */
+export interface ErrorInfo {
+  category: ErrorCategory;
+  retryable: boolean;
+  message: string;
+  /** Seconds the API asked us to wait, for rate limits */
+  retry_after_seconds?: number;
+}
+
+export function describeError(error: AgentDomainError): ErrorInfo {
+  return {
+    category: error.category,
+    retryable: error.retryable,
+    message: error.message,
+    ...(error instanceof RateLimitedError && error.retryAfterMs !== null
+      ? { retry_after_seconds: Math.ceil(error.retryAfterMs / 1000) }
+      : {}),
+  };
+}
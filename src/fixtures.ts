@@ -0,0 +1,269 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type {
+  AnalyzeResult,
+  BrainstormResult,
+  CategoriesResult,
+  DomainCheckResult,
+  ExploreResult,
+  SearchResult,
+} from "./types.js";
+
+/**
+ * Offline fixture backend.
+ *
+ * A drop-in replacement for `fetch` that answers the AgentDomainService
+ * routes, and RDAP domain queries on any host, from local JSON, so the
+ * whole server can run with no network. Files in the override directory
+ * replace the bundled ones by name.
+ */
+
+const BUNDLED_FIXTURES_DIR = join(__dirname, "..", "fixtures");
+const EXPLORE_TLDS = ["com", "io", "ai", "co", "dev", "app", "net", "xyz", "org"];
+/** Placeholder RDAP base URL; the fixture fetch answers RDAP on any host */
+export const FIXTURE_RDAP_SERVER = "https://rdap.fixtures.invalid";
+
+interface LookupFixtures {
+  tld_prices: Record<string, { purchase: number; renewal: number }>;
+  domains: Record<string, Partial<DomainCheckResult>>;
+}
+
+interface RdapFixtures {
+  /** RDAP domain objects, merged over the record built from lookup.json */
+  domains: Record<string, Record<string, unknown>>;
+}
+
+interface AnalyzeFixtures {
+  domains: Record<string, Omit<AnalyzeResult, "domain">>;
+}
+
+/**
+ * Create a fetch implementation backed by fixture files
+ */
+export function createFixtureFetch(overrideDir?: string): typeof fetch {
+  const loaded = new Map<string, unknown>();
+
+  function load<T>(file: string): T {
+    if (!loaded.has(file)) {
+      const override = overrideDir ? join(overrideDir, file) : null;
+      const path =
+        override && existsSync(override) ? override : join(BUNDLED_FIXTURES_DIR, file);
+      loaded.set(file, JSON.parse(readFileSync(path, "utf8")));
+    }
+    return loaded.get(file) as T;
+  }
+
+  function record(domain: string): DomainCheckResult {
+    const fixtures = load<LookupFixtures>("lookup.json");
+    const key = domain.toLowerCase();
+    const tld = key.slice(key.indexOf(".") + 1);
+    const prices = fixtures.tld_prices[tld] ?? fixtures.tld_prices.default;
+    const override = fixtures.domains[key] ?? {};
+    const available = override.available ?? true;
+
+    return {
+      domain: key,
+      available,
+      status: available ? "available" : "registered",
+      checked_at: new Date().toISOString(),
+      expires_at: null,
+      source: "fixtures",
+      purchase_price: available ? prices.purchase : null,
+      renewal_price: available ? prices.renewal : null,
+      premium: false,
+      cache: { hit: false, ttl_seconds: 300, stale: false },
+      ...override,
+    };
+  }
+
+  function lookup(domain: string): DomainCheckResult {
+    const result = record(domain);
+    if (!result.available && !result.suggestions) {
+      const [label, ...rest] = result.domain.split(".");
+      const tld = rest.join(".");
+      result.suggestions = EXPLORE_TLDS.filter((t) => t !== tld)
+        .map((t) => record(`${label}.${t}`))
+        .filter((s) => s.available)
+        .slice(0, 5)
+        .map((s) => ({
+          domain: s.domain,
+          available: s.available,
+          purchase_price: s.purchase_price,
+          renewal_price: s.renewal_price,
+          premium: s.premium,
+        }));
+    }
+    return result;
+  }
+
+  function explore(name: string): ExploreResult {
+    const results = EXPLORE_TLDS.map((tld) => {
+      const r = record(`${name}.${tld}`);
+      return {
+        tld,
+        domain: r.domain,
+        available: r.available,
+        status: r.status,
+        purchase_price: r.purchase_price,
+        renewal_price: r.renewal_price,
+        premium: r.premium,
+      };
+    });
+    const available = results.filter((r) => r.available).length;
+    return {
+      name: name.toLowerCase(),
+      checked_at: new Date().toISOString(),
+      summary: `${available} of ${results.length} TLDs available for "${name}"`,
+      available_count: available,
+      taken_count: results.length - available,
+      tlds_checked: EXPLORE_TLDS,
+      results,
+    };
+  }
+
+  function brainstorm(prompt: string, count: number, exclude: string[]): BrainstormResult {
+    const fixtures = load<Pick<BrainstormResult, "suggestions">>("brainstorm.json");
+    return {
+      prompt,
+      generated_at: new Date().toISOString(),
+      suggestions: fixtures.suggestions
+        .filter((s) => !exclude.includes(s.domain))
+        .slice(0, count),
+    };
+  }
+
+  function analyze(domain: string): AnalyzeResult {
+    const fixtures = load<AnalyzeFixtures>("analyze-domain.json");
+    const key = domain.toLowerCase();
+    const known = fixtures.domains[key];
+    if (known) return { domain: key, ...known };
+
+    // Deterministic stand-in scores: shorter labels score higher
+    const label = key.split(".")[0];
+    const length = Math.max(20, 100 - Math.max(0, label.length - 5) * 8);
+    const hyphenPenalty = label.includes("-") ? 15 : 0;
+    const scores = {
+      memorability: Math.max(20, length - hyphenPenalty),
+      brandability: Math.max(20, length - 5 - hyphenPenalty),
+      length,
+      pronunciation: /\d/.test(label) ? 50 : 80,
+      seo: 60,
+      overall: 0,
+    };
+    scores.overall = Math.round(
+      (scores.memorability + scores.brandability + scores.length + scores.pronunciation + scores.seo) / 5
+    );
+    return {
+      domain: key,
+      scores,
+      pros: label.length <= 8 ? ["Short and easy to type"] : [],
+      cons: label.length > 12 ? ["Long name; harder to remember"] : [],
+      verdict: "Fixture analysis for offline testing.",
+    };
+  }
+
+  /**
+   * An RDAP domain object for a registered fixture domain, or undefined
+   * (a 404) for one that is available. Registration details come from
+   * rdap.json where it has the domain.
+   */
+  function rdap(domain: string): unknown {
+    const result = record(domain);
+    const known = load<RdapFixtures>("rdap.json").domains[result.domain];
+    if (result.available && !known) return undefined;
+    return {
+      objectClassName: "domain",
+      ldhName: result.domain.toUpperCase(),
+      status: ["active"],
+      events: result.expires_at
+        ? [{ eventAction: "expiration", eventDate: result.expires_at }]
+        : [],
+      ...known,
+    };
+  }
+
+  function search(params: URLSearchParams): SearchResult {
+    const fixtures = load<Pick<SearchResult, "domains">>("search.json");
+    const category = params.get("category");
+    const maxPrice = params.has("max_price") ? Number(params.get("max_price")) : null;
+    const minPrice = params.has("min_price") ? Number(params.get("min_price")) : null;
+    const tlds = params.get("tlds")?.split(",").filter(Boolean) ?? null;
+    const sort = params.get("sort") || "price_asc";
+    const limit = Math.min(Number(params.get("limit") || 20), 100);
+    const offset = Number(params.get("offset") || 0);
+
+    let domains = fixtures.domains.filter(
+      (d) =>
+        (!category || d.categories.includes(category)) &&
+        (maxPrice === null || (d.price !== null && d.price <= maxPrice)) &&
+        (minPrice === null || (d.price !== null && d.price >= minPrice)) &&
+        (!tlds || tlds.includes(d.tld))
+    );
+    if (sort === "price_asc" || sort === "price_desc") {
+      const dir = sort === "price_asc" ? 1 : -1;
+      domains = [...domains].sort(
+        (a, b) => dir * ((a.price ?? Infinity) - (b.price ?? Infinity))
+      );
+    }
+    domains = domains.slice(offset, offset + limit);
+
+    return {
+      count: domains.length,
+      filters: { category, max_price: maxPrice, min_price: minPrice, tlds, sort, limit },
+      domains,
+    };
+  }
+
+  function route(method: string, url: URL, body: unknown): unknown {
+    const path = url.pathname;
+    const segment = (prefix: string) => decodeURIComponent(path.slice(prefix.length));
+
+    if (method === "GET" && path.startsWith("/api/v1/lookup/")) {
+      return lookup(segment("/api/v1/lookup/"));
+    }
+    if (method === "GET" && path.startsWith("/api/v1/explore/")) {
+      return explore(segment("/api/v1/explore/"));
+    }
+    if (method === "POST" && path === "/api/v1/brainstorm") {
+      const { prompt, count, exclude } = body as {
+        prompt: string;
+        count?: number;
+        exclude?: string[];
+      };
+      return brainstorm(prompt, count ?? 10, exclude ?? []);
+    }
+    if (method === "POST" && path === "/api/v1/analyze-domain") {
+      return analyze((body as { domain: string }).domain);
+    }
+    if (method === "GET" && path === "/api/v1/domains/search") {
+      return search(url.searchParams);
+    }
+    if (method === "GET" && path === "/api/v1/domains/categories") {
+      return load<CategoriesResult>("categories.json");
+    }
+    // RDAP servers differ in their base path, e.g. /com/v1/domain/x.com
+    const rdapDomain = /\/domain\/([^/]+)$/.exec(path);
+    if (method === "GET" && rdapDomain && !path.startsWith("/api/")) {
+      return rdap(decodeURIComponent(rdapDomain[1]));
+    }
+    return undefined;
+  }
+
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const method = (init?.method ?? "GET").toUpperCase();
+    const body = typeof init?.body === "string" ? JSON.parse(init.body) : undefined;
+
+    const result = route(method, url, body);
+    if (result === undefined) {
+      return new Response(JSON.stringify({ error: `No fixture for ${method} ${url.pathname}` }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+}
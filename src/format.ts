@@ -0,0 +1,885 @@
+import type { BrainstormConstraints } from "./brainstorm.js";
+import {
+  costBreakdown,
+  DEFAULT_BUDGET_YEARS,
+  formatBudgetNote,
+  formatCostSuffix,
+  formatCostTotals,
+} from "./costs.js";
+import { displayDomain } from "./domain.js";
+import type { HistoryQueryResult } from "./history.js";
+import type { OwnedDomain, PortfolioForecast, PortfolioRefreshResult } from "./portfolio.js";
+import type {
+  AnalyzeResult,
+  BrainstormResult,
+  BulkCheckResult,
+  CategoriesResult,
+  CompareResult,
+  DefensiveVariantsResult,
+  DomainCheckResult,
+  DomainDetailsResult,
+  ExploreResult,
+  LocalCacheInfo,
+  SearchResult,
+  VariationsResult,
+} from "./types.js";
+import type { WatchedDomain, WatchlistRefreshResult } from "./watchlist.js";
+
+/**
+ * Plain-text rendering of API results and of the local watchlist,
+ * portfolio, and history, shared by the MCP tools and the terminal
+ * commands.
+ */
+
+/**
+ * Quote a value for a CSV cell when it contains a delimiter
+ */
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Describe a local cache hit, or nothing for a fresh lookup
+ */
+function formatCacheNote(info?: LocalCacheInfo): string | null {
+  if (!info || !info.hit) return null;
+  const age =
+    info.age_seconds < 60
+      ? `${info.age_seconds}s`
+      : `${Math.round(info.age_seconds / 60)}m`;
+  return `(Cached result from ${age} ago - pass fresh: true to re-check)`;
+}
+
+/**
+ * Format domain check result for display
+ */
+export function formatDomainResult(result: DomainCheckResult): string {
+  const lines: string[] = [];
+
+  lines.push(`Domain: ${displayDomain(result.domain)}`);
+  lines.push(`Status: ${result.status.toUpperCase()}`);
+  lines.push(`Available: ${result.available ? "Yes" : "No"}`);
+  if (result.source === "rdap") {
+    lines.push("Source: RDAP registry lookup (no pricing)");
+  }
+  if (result.expires_at && !result.available) {
+    lines.push(`Expires: ${result.expires_at.slice(0, 10)}`);
+  }
+
+  if (result.available && result.purchase_price) {
+    lines.push(`Purchase Price: $${result.purchase_price}`);
+    if (result.renewal_price) {
+      lines.push(`Renewal Price: $${result.renewal_price}/year`);
+    }
+    const costs = result.costs ?? costBreakdown(result.purchase_price, result.renewal_price);
+    const totals = formatCostTotals(costs);
+    if (totals) {
+      lines.push(`Total Cost: ${totals}`);
+    }
+    if (costs.renewal_jump) {
+      lines.push(
+        `Warning: Renewal ($${result.renewal_price}/year) is much higher than the first-year price`
+      );
+    }
+    if (result.premium) {
+      lines.push(`Note: This is a PREMIUM domain`);
+    }
+  }
+
+  if (result.suggestions && result.suggestions.length > 0) {
+    lines.push("");
+    lines.push("Available Alternatives:");
+    for (const s of result.suggestions.slice(0, 5)) {
+      const price = s.purchase_price ? ` - $${s.purchase_price}` : "";
+      const premium = s.premium ? " (premium)" : "";
+      lines.push(`  • ${displayDomain(s.domain)}${price}${premium}`);
+    }
+  }
+
+  if (result.cache?.stale) {
+    lines.push("");
+    lines.push("Note: The service reported this result as stale");
+  }
+
+  for (const failure of result.provider_failures ?? []) {
+    lines.push("");
+    lines.push(`Note: The ${failure.provider} provider failed (${failure.error})`);
+  }
+
+  const cacheNote = formatCacheNote(result.local_cache);
+  if (cacheNote) {
+    lines.push("");
+    lines.push(cacheNote);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format registration details for display
+ */
+export function formatDomainDetailsResult(result: DomainDetailsResult): string {
+  const lines: string[] = [];
+  const date = (value: string | null) => (value ? value.slice(0, 10) : "unknown");
+
+  lines.push(`Domain: ${displayDomain(result.domain)}`);
+  if (!result.registered) {
+    lines.push("Registered: No");
+    lines.push("");
+    lines.push(result.drop.summary);
+    return lines.join("\n");
+  }
+
+  lines.push("Registered: Yes");
+  if (result.registrar) {
+    const id = result.registrar.iana_id ? ` (IANA ID ${result.registrar.iana_id})` : "";
+    lines.push(`Registrar: ${result.registrar.name ?? "unknown"}${id}`);
+  }
+  lines.push(`Created: ${date(result.created_at)}`);
+  lines.push(`Updated: ${date(result.updated_at)}`);
+  lines.push(`Expires: ${date(result.expires_at)}`);
+  lines.push(`Status: ${result.statuses.length > 0 ? result.statuses.join(", ") : "none published"}`);
+  lines.push(
+    `Nameservers: ${result.nameservers.length > 0 ? result.nameservers.join(", ") : "none"}`
+  );
+  lines.push(`DNSSEC: ${result.dnssec}`);
+
+  lines.push("");
+  lines.push(`Drop outlook: ${result.drop.summary}`);
+
+  const cacheNote = formatCacheNote(result.local_cache);
+  if (cacheNote) {
+    lines.push("");
+    lines.push(cacheNote);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format bulk check result for display
+ */
+export function formatBulkCheckResult(result: BulkCheckResult): string {
+  const lines: string[] = [];
+
+  lines.push(`Checked ${result.total} domains`);
+  lines.push(
+    `Available: ${result.available_count} | Taken: ${result.taken_count} | Failed: ${result.failed_count}`
+  );
+  if (result.budget) {
+    lines.push(formatBudgetNote(result.budget));
+  }
+  lines.push("");
+  const years = result.budget?.years ?? DEFAULT_BUDGET_YEARS;
+
+  if (result.results.length > 0) {
+    const names = result.results.map((r) => displayDomain(r.domain));
+    const width = Math.max(...names.map((n) => n.length), 6);
+    lines.push(`${"Domain".padEnd(width)}  Status      Price     Renewal`);
+    result.results.forEach((r, i) => {
+      const status = r.available ? "✓ Available" : `✗ ${r.status === "unknown" ? "Unknown" : "Taken"}`;
+      const price = r.available && r.purchase_price ? `$${r.purchase_price}` : "-";
+      const renewal = r.available && r.renewal_price ? `$${r.renewal_price}/yr` : "-";
+      const premium = r.premium ? " (premium)" : "";
+      const cached = r.local_cache?.hit ? " [cached]" : "";
+      const cost = r.available ? formatCostSuffix(r.purchase_price, r.renewal_price, years) : "";
+      lines.push(
+        `${names[i].padEnd(width)}  ${status.padEnd(11)} ${price.padEnd(9)} ${renewal}${premium}${cost}${cached}`
+      );
+    });
+  }
+
+  if (result.failures.length > 0) {
+    lines.push("");
+    lines.push(`Failed Lookups (${result.failures.length}):`);
+    for (const f of result.failures) {
+      lines.push(`  • ${f.domain}: ${f.error}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format available name variations as a table, cheapest first
+ */
+export function formatVariationsResult(result: VariationsResult): string {
+  const lines: string[] = [];
+
+  lines.push(`Variations of "${result.base}"`);
+  const scope = result.tlds ? result.tlds.map((t) => `.${t}`).join(", ") : "all explore TLDs";
+  lines.push(
+    `Generated: ${result.generated_count} | Domains checked: ${result.checked_count} (${scope}) | Available: ${result.available_count}`
+  );
+  lines.push("");
+
+  if (result.available.length > 0) {
+    const names = result.available.map((r) => displayDomain(r.domain));
+    const width = Math.max(...names.map((n) => n.length), 6);
+    lines.push(`${"Domain".padEnd(width)}  Rule        Price     Renewal`);
+    result.available.forEach((r, i) => {
+      const price = r.purchase_price ? `$${r.purchase_price}` : "-";
+      const renewal = r.renewal_price ? `$${r.renewal_price}/yr` : "-";
+      const premium = r.premium ? " (premium)" : "";
+      lines.push(
+        `${names[i].padEnd(width)}  ${r.rule.padEnd(11)} ${price.padEnd(9)} ${renewal}${premium}`
+      );
+    });
+  } else {
+    lines.push("No available variations found. Try a higher max_length or fewer exclusions.");
+  }
+
+  if (result.failures.length > 0) {
+    lines.push("");
+    lines.push(`Failed Lookups (${result.failures.length}):`);
+    for (const f of result.failures) {
+      lines.push(`  • ${f.domain}: ${f.error}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a defensive registration plan: available lookalikes to register,
+ * then registered ones to keep an eye on
+ */
+export function formatDefensiveVariantsResult(result: DefensiveVariantsResult): string {
+  const lines: string[] = [];
+  const label = (v: DefensiveVariantsResult["variants"][number]) =>
+    v.display === v.domain ? v.domain : `${v.display} (${v.domain})`;
+
+  lines.push(`Defensive registrations for ${displayDomain(result.domain)}`);
+  lines.push(
+    `Generated: ${result.generated_count} | Checked: ${result.checked_count} (${result.min_risk} risk and up) | Available: ${result.available_count} | Registered: ${result.registered_count}`
+  );
+  lines.push("");
+
+  const available = result.variants.filter((v) => v.available);
+  if (available.length > 0) {
+    const names = available.map(label);
+    const width = Math.max(...names.map((n) => n.length), 6);
+    lines.push("Available to register (riskiest first):");
+    lines.push(`${"Domain".padEnd(width)}  Technique      Risk         Price     Renewal`);
+    available.forEach((v, i) => {
+      const risk = `${v.risk} (${v.risk_score})`;
+      const price = v.purchase_price ? `$${v.purchase_price}` : "-";
+      const renewal = v.renewal_price ? `$${v.renewal_price}/yr` : "-";
+      lines.push(
+        `${names[i].padEnd(width)}  ${v.technique.padEnd(14)} ${risk.padEnd(12)} ${price.padEnd(9)} ${renewal}`
+      );
+    });
+    const total = result.total_cost;
+    const unpriced = total.unpriced_count > 0 ? ` (${total.unpriced_count} without a price)` : "";
+    lines.push("");
+    lines.push(
+      `Registering all ${total.domain_count}: $${total.first_year.toFixed(2)} the first year, then $${total.yearly_renewal.toFixed(2)}/year${unpriced}`
+    );
+  } else {
+    lines.push("No risky variants are available to register.");
+  }
+
+  const registered = result.variants.filter((v) => !v.available);
+  if (registered.length > 0) {
+    lines.push("");
+    lines.push(`Already registered (${registered.length}) - check who holds the riskiest:`);
+    for (const v of registered) {
+      lines.push(`  • ${label(v)} - ${v.technique}, ${v.risk} risk`);
+    }
+  }
+
+  if (result.failures.length > 0) {
+    lines.push("");
+    lines.push(`Failed Lookups (${result.failures.length}):`);
+    for (const f of result.failures) {
+      lines.push(`  • ${f.domain}: ${f.error}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format domain comparison as a matrix, best first
+ */
+export function formatCompareResult(result: CompareResult): string {
+  const lines: string[] = [];
+
+  lines.push(`Domain Comparison (${result.rows.length} domains)`);
+  const weights = Object.entries(result.weights)
+    .filter(([, w]) => w > 0)
+    .map(([k, w]) => `${k} ×${w}`);
+  lines.push(`Weights: ${weights.join(", ")}`);
+  lines.push("");
+
+  if (result.rows.length > 0) {
+    const names = result.rows.map((r) => displayDomain(r.domain));
+    const width = Math.max(...names.map((n) => n.length), 6);
+    const score = (v: number | undefined | null, width = 5) =>
+      (typeof v === "number" ? String(v) : "-").padStart(width);
+    const money = (v: number | null) => (v !== null ? `$${v}` : "-").padStart(9);
+
+    lines.push(
+      `#   ${"Domain".padEnd(width)}   Mem  Brand   Len  Pron   SEO  Overall  Available      Price   Renewal   Weighted`
+    );
+    result.rows.forEach((r, i) => {
+      const available = r.available === null ? "?" : r.available ? "✓ Yes" : "✗ No";
+      const premium = r.premium ? " (premium)" : "";
+      lines.push(
+        [
+          `${String(r.rank).padEnd(3)} ${names[i].padEnd(width)}`,
+          score(r.scores?.memorability),
+          score(r.scores?.brandability),
+          score(r.scores?.length),
+          score(r.scores?.pronunciation),
+          score(r.scores?.seo),
+          score(r.scores?.overall, 7),
+          ` ${available.padEnd(9)}`,
+          money(r.available ? r.purchase_price : null),
+          money(r.available ? r.renewal_price : null),
+          `${score(r.weighted_score, 9)}${premium}`,
+        ].join(" ")
+      );
+    });
+  }
+
+  if (result.recommendation) {
+    lines.push("");
+    lines.push(`Recommendation: ${result.recommendation}`);
+  } else {
+    lines.push("");
+    lines.push("No available domain could be scored, so there is no recommendation.");
+  }
+
+  if (result.failures.length > 0) {
+    lines.push("");
+    lines.push(`Failed Lookups (${result.failures.length}):`);
+    for (const f of result.failures) {
+      lines.push(`  • ${f.domain}: ${f.error}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format explore result for display
+ */
+export function formatExploreResult(result: ExploreResult): string {
+  const lines: string[] = [];
+
+  lines.push(`Name: ${result.name}`);
+  lines.push(`Summary: ${result.summary}`);
+  lines.push(`Available: ${result.available_count} | Taken: ${result.taken_count}`);
+  if (result.budget) {
+    lines.push(formatBudgetNote(result.budget));
+  }
+  lines.push("");
+  lines.push("Results by TLD:");
+
+  const years = result.budget?.years ?? DEFAULT_BUDGET_YEARS;
+  for (const r of result.results) {
+    const status = r.available ? "✓ Available" : "✗ Taken";
+    const price = r.available && r.purchase_price ? ` - $${r.purchase_price}` : "";
+    const premium = r.premium ? " (premium)" : "";
+    const cost = r.available ? formatCostSuffix(r.purchase_price, r.renewal_price, years) : "";
+    lines.push(`  ${displayDomain(r.domain)}: ${status}${price}${premium}${cost}`);
+  }
+
+  const cacheNote = formatCacheNote(result.local_cache);
+  if (cacheNote) {
+    lines.push("");
+    lines.push(cacheNote);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format brainstorm result for display
+ */
+export function formatBrainstormResult(result: BrainstormResult): string {
+  const lines: string[] = [];
+
+  lines.push(`Brainstorm Results for: "${result.prompt}"`);
+  if (result.source === "sampling") {
+    const model = result.model ? ` (${result.model})` : "";
+    lines.push(
+      result.fallback_reason
+        ? `Source: your model${model}, because the brainstorm API failed: ${result.fallback_reason}`
+        : `Source: your model${model}, names verified with live lookups`
+    );
+  }
+  if (result.constraints) {
+    lines.push(`Constraints: ${describeConstraints(result.constraints)}`);
+  }
+  if (result.rounds) {
+    const r = result.rounds;
+    const reasons = Object.entries(r.rejection_counts)
+      .map(([reason, n]) => `${reason.replace(/_/g, " ")} ${n}`)
+      .join(", ");
+    const stopped =
+      r.stopped_because === "target_reached"
+        ? "target reached"
+        : r.stopped_because === "max_rounds"
+          ? "round limit reached"
+          : "no new suggestions";
+    lines.push(
+      `Rounds: ${r.count} of ${r.max} (${stopped}) | Rejected: ${r.rejected.length}${reasons ? ` (${reasons})` : ""}`
+    );
+  }
+  if (result.budget) {
+    lines.push(formatBudgetNote(result.budget));
+  }
+  lines.push("");
+
+  const years = result.budget?.years ?? DEFAULT_BUDGET_YEARS;
+
+  const available = result.suggestions.filter((s) => s.available);
+  const taken = result.suggestions.filter((s) => !s.available);
+
+  if (available.length > 0) {
+    lines.push(`✓ Available Domains (${available.length}):`);
+    for (const s of available) {
+      const price = s.purchase_price ? ` - $${s.purchase_price}` : "";
+      const premium = s.premium ? " (premium)" : "";
+      const cost = formatCostSuffix(s.purchase_price, s.renewal_price ?? null, years);
+      lines.push(`  • ${displayDomain(s.domain)}${price}${premium}${cost}`);
+    }
+  }
+
+  if (taken.length > 0) {
+    lines.push("");
+    lines.push(`✗ Already Taken (${taken.length}):`);
+    for (const s of taken) {
+      lines.push(`  • ${displayDomain(s.domain)}`);
+    }
+  }
+
+  if (available.length === 0) {
+    lines.push("");
+    lines.push(
+      result.constraints
+        ? "No available domains matched the constraints. Try loosening them or raising max_rounds."
+        : "No available domains found. Try a different description or be more specific."
+    );
+  } else if (result.rounds && result.suggestions.length < result.rounds.target_count) {
+    lines.push("");
+    lines.push(
+      `Found ${result.suggestions.length} of the ${result.rounds.target_count} requested. Try loosening the constraints or raising max_rounds.`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * One-line summary of brainstorm constraints
+ */
+function describeConstraints(c: BrainstormConstraints): string {
+  const parts: string[] = [];
+  if (c.max_length !== null) parts.push(`max length ${c.max_length}`);
+  if (c.tlds) parts.push(`TLDs ${c.tlds.map((t) => `.${t}`).join(", ")}`);
+  if (c.max_price !== null) parts.push(`max price $${c.max_price}`);
+  if (c.banned_words.length > 0) parts.push(`no "${c.banned_words.join('", "')}"`);
+  if (c.banned_letters.length > 0) parts.push(`no letters ${c.banned_letters.join("")}`);
+  if (c.available_only) parts.push("available only");
+  if (c.style) parts.push(`style ${c.style.replace(/_/g, " ")}`);
+  return parts.join(" | ");
+}
+
+/**
+ * Format analyze result for display
+ */
+export function formatAnalyzeResult(result: AnalyzeResult): string {
+  const lines: string[] = [];
+
+  lines.push(`Domain Analysis: ${displayDomain(result.domain)}`);
+  lines.push("");
+  if (result.remote_error) {
+    lines.push(`Note: Remote analysis unavailable (${result.remote_error}); showing local checks only.`);
+    lines.push("");
+  }
+
+  if (result.scores) {
+    const score = (value: number | null) => (value !== null ? `${value}/100` : "n/a");
+    lines.push("Scores (out of 100):");
+    lines.push(`  Memorability:   ${score(result.scores.memorability)}`);
+    lines.push(`  Brandability:   ${score(result.scores.brandability)}`);
+    lines.push(`  Length:         ${score(result.scores.length)}`);
+    lines.push(`  Pronunciation:  ${score(result.scores.pronunciation)}`);
+    lines.push(`  SEO Potential:  ${score(result.scores.seo)}`);
+    lines.push(`  Overall:        ${score(result.scores.overall)}`);
+    lines.push("");
+  } else {
+    lines.push("Scores: not available");
+    lines.push("");
+  }
+
+  if (result.pros && result.pros.length > 0) {
+    lines.push("Pros:");
+    for (const pro of result.pros) {
+      lines.push(`  ✓ ${pro}`);
+    }
+  }
+
+  if (result.cons && result.cons.length > 0) {
+    lines.push("");
+    lines.push("Cons:");
+    for (const con of result.cons) {
+      lines.push(`  ✗ ${con}`);
+    }
+  }
+
+  if (result.verdict) {
+    lines.push("");
+    lines.push(`Verdict: ${result.verdict}`);
+  }
+
+  const l = result.linguistics;
+  if (l) {
+    const list = (items: string[]) => (items.length > 0 ? items.join(", ") : "none");
+    lines.push("");
+    lines.push("Local checks:");
+    lines.push(`  Length:         ${l.length} characters, ${l.syllables} syllables`);
+    lines.push(`  Hyphens/digits: ${l.hyphens} / ${l.digits}`);
+    lines.push(`  Clusters:       ${list(l.consonant_clusters)}`);
+    lines.push(
+      `  Lookalikes:     ${list(l.ambiguous_sequences.map((a) => `${a.sequence} → ${a.reads_as}`))}`
+    );
+    lines.push(
+      `  Radio test:     ${l.radio_test.passes ? "passes" : `fails (${l.radio_test.issues.join("; ")})`}`
+    );
+    lines.push(
+      `  Flagged words:  ${list(
+        l.flagged_words.map(
+          (f) => `${f.word}${f.hidden ? " (hidden)" : ""} - ${f.language}: ${f.meaning}`
+        )
+      )}`
+    );
+  }
+
+  const cacheNote = formatCacheNote(result.local_cache);
+  if (cacheNote) {
+    lines.push("");
+    lines.push(cacheNote);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format search result for display
+ */
+export function formatSearchResult(result: SearchResult): string {
+  const lines: string[] = [];
+
+  const first = (result.offset ?? 0) + 1;
+  lines.push(
+    result.offset || result.next_cursor
+      ? `Found ${result.count} available domains (results ${first}-${first + result.count - 1})`
+      : `Found ${result.count} available domains`
+  );
+
+  const f = result.filters;
+  const filters: string[] = [];
+  if (f.category) filters.push(`category: ${f.category}`);
+  if (f.min_price != null) filters.push(`min price: $${f.min_price}`);
+  if (f.max_price != null) filters.push(`max price: $${f.max_price}`);
+  if (f.tlds) filters.push(`TLDs: ${f.tlds.join(", ")}`);
+  if (f.min_length != null) filters.push(`min length: ${f.min_length}`);
+  if (f.max_length != null) filters.push(`max length: ${f.max_length}`);
+  if (f.exclude_hyphens) filters.push("no hyphens");
+  if (f.exclude_digits) filters.push("no digits");
+  if (f.premium === "only") filters.push("premium only");
+  if (f.premium === "exclude") filters.push("no premium");
+  if (f.contains) filters.push(`contains: "${f.contains}"`);
+  if (f.starts_with) filters.push(`starts with: "${f.starts_with}"`);
+  if (f.sort) filters.push(`sort: ${f.sort}`);
+
+  if (filters.length > 0) {
+    lines.push(`Filters: ${filters.join(" | ")}`);
+  }
+  if (result.budget) {
+    lines.push(formatBudgetNote(result.budget));
+  }
+  lines.push("");
+
+  const years = result.budget?.years ?? DEFAULT_BUDGET_YEARS;
+
+  if (result.domains.length === 0) {
+    lines.push("No domains found matching your criteria.");
+    lines.push("Try adjusting your filters (higher max_price, different category, etc.)");
+  } else {
+    lines.push("Available Domains:");
+    for (const d of result.domains) {
+      const price = d.price_formatted || "price unknown";
+      const premium = d.premium ? " (premium)" : "";
+      const cost = formatCostSuffix(d.price, d.renewal_price ?? null, years);
+      lines.push(`  ✓ ${displayDomain(d.domain)} - ${price}${premium}${cost}`);
+    }
+  }
+
+  if (result.next_cursor) {
+    lines.push("");
+    lines.push(`More results available. Pass cursor "${result.next_cursor}" to get the next page.`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format categories result for display
+ */
+export function formatCategoriesResult(result: CategoriesResult): string {
+  const lines: string[] = [];
+
+  lines.push(`${result.total_available_domains} available domains across ${result.category_count} categories`);
+  lines.push("");
+  lines.push("Categories (sorted by domain count):");
+
+  for (const cat of result.categories) {
+    lines.push(`  • ${cat.title} (${cat.slug}): ${cat.available_domains} domains`);
+    if (cat.description) {
+      lines.push(`    ${cat.description}`);
+    }
+  }
+
+  lines.push("");
+  lines.push("Use search_domains with a category slug to find domains in that category.");
+
+  const cacheNote = formatCacheNote(result.local_cache);
+  if (cacheNote) {
+    lines.push(cacheNote);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format history rows as a compact log, newest first
+ */
+export function formatHistoryResult(result: HistoryQueryResult): string {
+  const lines: string[] = [];
+
+  lines.push(
+    result.count < result.total_matches
+      ? `History: showing ${result.count} of ${result.total_matches} matching rows (newest first)`
+      : `History: ${result.total_matches} matching rows (newest first)`
+  );
+  const q = result.query;
+  const filters: string[] = [];
+  if (q.domain) filters.push(`domain: ${q.domain}`);
+  if (q.tool) filters.push(`tool: ${q.tool}`);
+  if (q.since) filters.push(`since: ${q.since}`);
+  if (q.until) filters.push(`until: ${q.until}`);
+  if (q.status) filters.push(`status: ${q.status}`);
+  if (filters.length > 0) {
+    lines.push(`Filters: ${filters.join(" | ")}`);
+  }
+  lines.push("");
+
+  if (result.rows.length === 0) {
+    lines.push("No matching history.");
+    return lines.join("\n");
+  }
+  for (const row of result.rows) {
+    const when = row.recorded_at.replace("T", " ").slice(0, 19);
+    if (row.error) {
+      lines.push(`${when}  ${row.tool}  ✗ Error: ${row.error}`);
+      continue;
+    }
+    if (!row.domain) {
+      lines.push(`${when}  ${row.tool}`);
+      continue;
+    }
+    const status =
+      row.available === true
+        ? "available"
+        : row.status ?? (row.available === false ? "taken" : "-");
+    const price = row.purchase_price !== null ? ` $${row.purchase_price}` : "";
+    const renewal = row.renewal_price !== null ? ` (renews $${row.renewal_price}/yr)` : "";
+    lines.push(`${when}  ${row.tool}  ${displayDomain(row.domain)}  ${status}${price}${renewal}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format the watchlist after adding or removing a domain
+ */
+export function formatWatchResult(
+  message: string,
+  domains: WatchedDomain[]
+): string {
+  const lines: string[] = [];
+
+  lines.push(message);
+  lines.push("");
+  lines.push(`Watching ${domains.length} domain${domains.length === 1 ? "" : "s"}:`);
+  for (const d of domains) {
+    const status = d.snapshot ? d.snapshot.status.toUpperCase() : "NOT CHECKED";
+    const expires = d.snapshot?.expires_at ? ` - expires ${d.snapshot.expires_at.slice(0, 10)}` : "";
+    const note = d.note ? ` (${d.note})` : "";
+    lines.push(`  • ${displayDomain(d.domain)}: ${status}${expires}${note}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format watchlist refresh result for display
+ */
+export function formatWatchlistRefreshResult(result: WatchlistRefreshResult): string {
+  const lines: string[] = [];
+
+  lines.push(`Refreshed ${result.checked} watched domains`);
+  lines.push("");
+
+  if (result.changes.length > 0) {
+    lines.push(`Changes since last check (${result.changes.length}):`);
+    for (const c of result.changes) {
+      lines.push(`  • ${c.message}`);
+    }
+  } else {
+    lines.push("No changes since last check.");
+  }
+
+  if (result.expiring_soon.length > 0) {
+    lines.push("");
+    lines.push("Expiring Soon:");
+    for (const e of result.expiring_soon) {
+      const when = e.days_left < 0 ? `expired ${-e.days_left} days ago` : `${e.days_left} days left`;
+      lines.push(`  • ${displayDomain(e.domain)}: ${e.expires_at.slice(0, 10)} (${when})`);
+    }
+  }
+
+  if (result.failures.length > 0) {
+    lines.push("");
+    lines.push(`Failed Lookups (${result.failures.length}):`);
+    for (const f of result.failures) {
+      lines.push(`  • ${f.domain}: ${f.error}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format the portfolio after adding or removing a domain
+ */
+export function formatPortfolioResult(message: string, domains: OwnedDomain[]): string {
+  const lines: string[] = [];
+
+  lines.push(message);
+  lines.push("");
+  lines.push(`Portfolio: ${domains.length} owned domain${domains.length === 1 ? "" : "s"}`);
+  for (const d of domains) {
+    const expires = d.expires_at ? `expires ${d.expires_at.slice(0, 10)}` : "expiry unknown";
+    const price = d.renewal_price_override ?? d.renewal_price;
+    const renewal = price !== null ? ` - renews $${price.toFixed(2)}/yr` : "";
+    const note = d.note ? ` (${d.note})` : "";
+    lines.push(`  • ${displayDomain(d.domain)}: ${expires}${renewal}${note}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format portfolio refresh result for display
+ */
+export function formatPortfolioRefreshResult(result: PortfolioRefreshResult): string {
+  const lines: string[] = [];
+
+  lines.push(`Refreshed ${result.checked} owned domains`);
+  lines.push("");
+
+  if (result.updated.length > 0) {
+    lines.push(`Updated (${result.updated.length}):`);
+    for (const u of result.updated) {
+      const expiry = u.field === "expires_at";
+      const value = (v: string | number | null) =>
+        v === null ? "unknown" : expiry ? String(v).slice(0, 10) : `$${Number(v).toFixed(2)}`;
+      lines.push(
+        `  • ${displayDomain(u.domain)}: ${expiry ? "expiry" : "renewal price"} ${value(u.previous)} → ${value(u.current)}`
+      );
+    }
+  } else {
+    lines.push("No expiry dates or renewal prices changed.");
+  }
+
+  if (result.lapsed.length > 0) {
+    lines.push("");
+    lines.push("⚠️ Reported as available - the registration may have lapsed:");
+    for (const domain of result.lapsed) {
+      lines.push(`  • ${displayDomain(domain)}`);
+    }
+  }
+
+  if (result.failures.length > 0) {
+    lines.push("");
+    lines.push(`Failed Lookups (${result.failures.length}):`);
+    for (const f of result.failures) {
+      lines.push(`  • ${f.domain}: ${f.error}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a renewal forecast for display
+ */
+export function formatPortfolioForecast(result: PortfolioForecast): string {
+  const lines: string[] = [];
+  const cost = (c: { cost: number; unpriced: number }) =>
+    `$${c.cost.toFixed(2)}${c.unpriced > 0 ? ` + ${c.unpriced} unpriced` : ""}`;
+
+  lines.push(
+    `Renewal forecast: ${result.domain_count} owned domains, next ${result.horizon_months} months`
+  );
+  lines.push(
+    `Total: $${result.total_cost.toFixed(2)} for ${result.renewals.length} renewals` +
+      (result.unpriced_renewals > 0
+        ? ` (${result.unpriced_renewals} without a known price; set it with add_owned_domain)`
+        : "")
+  );
+
+  if (result.expiring_soon.length > 0) {
+    lines.push("");
+    lines.push(`Expiring within ${result.within_days} days:`);
+    for (const e of result.expiring_soon) {
+      const when = e.days_left < 0 ? `expired ${-e.days_left} days ago` : `${e.days_left} days left`;
+      lines.push(`  • ${displayDomain(e.domain)}: ${e.expires_at.slice(0, 10)} (${when})`);
+    }
+  }
+
+  if (result.by_month.length > 0) {
+    lines.push("");
+    lines.push("By Month:");
+    for (const m of result.by_month) {
+      lines.push(`  ${m.period}: ${cost(m)} (${m.renewals} renewal${m.renewals === 1 ? "" : "s"})`);
+    }
+    lines.push("");
+    lines.push("By Quarter:");
+    for (const q of result.by_quarter) {
+      lines.push(`  ${q.period}: ${cost(q)}`);
+    }
+    lines.push("");
+    lines.push("By Year:");
+    for (const y of result.by_year) {
+      lines.push(`  ${y.period}: ${cost(y)}`);
+    }
+  }
+
+  if (result.missing_expiry.length > 0) {
+    lines.push("");
+    lines.push(
+      `No known expiry date (not forecast): ${result.missing_expiry.map(displayDomain).join(", ")}`
+    );
+  }
+
+  return lines.join("\n");
+}
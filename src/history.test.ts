@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { beforeEach, describe, it } from "node:test";
+import {
+  createHistory,
+  exportHistory,
+  extractInputDomains,
+  extractObservations,
+  type History,
+  type HistoryQuery,
+} from "./history.js";
+
+function query(overrides: Partial<HistoryQuery> = {}): HistoryQuery {
+  return { domain: null, tool: null, since: null, until: null, status: null, limit: 100, ...overrides };
+}
+
+describe("extractObservations", () => {
+  it("finds every domain a result reports on", () => {
+    const observations = extractObservations({
+      checked_at: "2026-10-01T00:00:00Z",
+      results: [
+        { domain: "acme.com", available: false, status: "registered" },
+        { domain: "acme.io", available: true, purchase_price: 34.99, renewal_price: 59.99 },
+      ],
+      suggestions: [{ domain: "acme.io", available: false }],
+      prompt: { domain: "not an observation" },
+    });
+    assert.deepEqual(observations, [
+      {
+        domain: "acme.com",
+        available: false,
+        status: "registered",
+        purchase_price: null,
+        renewal_price: null,
+        checked_at: "2026-10-01T00:00:00Z",
+      },
+      {
+        domain: "acme.io",
+        available: true,
+        status: null,
+        purchase_price: 34.99,
+        renewal_price: 59.99,
+        checked_at: "2026-10-01T00:00:00Z",
+      },
+    ]);
+  });
+});
+
+describe("extractInputDomains", () => {
+  it("collects the domains named in the arguments in ASCII form", () => {
+    assert.deepEqual(
+      extractInputDomains({ domain: " Acme.COM ", domains: ["münchen.de", "acme.com", 7], limit: 3 }),
+      ["acme.com", "xn--mnchen-3ya.de"]
+    );
+    assert.deepEqual(extractInputDomains({ description: "coffee shop" }), []);
+  });
+});
+
+describe("history", () => {
+  let history: History;
+
+  beforeEach(async () => {
+    history = createHistory(join(await mkdtemp(join(tmpdir(), "history-test-")), "history.jsonl"), 0);
+    await history.record("check_domain", { domain: "acme.com", format: "json" }, {
+      domain: "acme.com",
+      available: false,
+      status: "registered",
+    }, null);
+    await history.record("check_domain", { domain: "münchen.de" }, {
+      domain: "xn--mnchen-3ya.de",
+      available: true,
+      status: "available",
+      purchase_price: 19.99,
+    }, null);
+    await history.record("search_domains", {}, null, "upstream down");
+  });
+
+  it("returns rows newest first", async () => {
+    const result = await history.query(query());
+    assert.equal(result.total_matches, 3);
+    assert.deepEqual(result.rows.map((r) => r.tool), ["search_domains", "check_domain", "check_domain"]);
+  });
+
+  it("filters by tool, status, and limit", async () => {
+    assert.equal((await history.query(query({ tool: "check_domain" }))).total_matches, 2);
+    assert.deepEqual(
+      (await history.query(query({ status: "available" }))).rows.map((r) => r.domain),
+      ["xn--mnchen-3ya.de"]
+    );
+    assert.deepEqual(
+      (await history.query(query({ status: "registered" }))).rows.map((r) => r.domain),
+      ["acme.com"]
+    );
+    const errors = await history.query(query({ status: "error" }));
+    assert.equal(errors.rows[0].error, "upstream down");
+
+    const limited = await history.query(query({ limit: 1 }));
+    assert.equal(limited.total_matches, 3);
+    assert.equal(limited.count, 1);
+  });
+
+  it("matches Unicode domain filters against stored punycode", async () => {
+    for (const domain of ["münchen.de", "MÜNCHEN", "xn--mnchen"]) {
+      const result = await history.query(query({ domain }));
+      assert.deepEqual(result.rows.map((r) => r.domain), ["xn--mnchen-3ya.de"], domain);
+    }
+  });
+
+  it("finds calls by the domains they were asked about", async () => {
+    await history.record("check_domain", { domain: "broken.io" }, null, "upstream down");
+    await history.record("analyze_domain", { domain: "acme.com" }, {
+      domain: "acme.com",
+      scores: { overall: 80 },
+    }, null);
+    await history.record("compare_domains", { domains: ["acme.com", "acme.net"] }, {
+      results: [{ domain: "acme.com", available: false, status: "registered" }],
+    }, null);
+
+    const failed = await history.query(query({ domain: "broken.io" }));
+    assert.deepEqual(
+      failed.rows.map((r) => [r.tool, r.domain, r.status]),
+      [["check_domain", "broken.io", "error"]]
+    );
+    const acme = await history.query(query({ domain: "acme" }));
+    assert.deepEqual(
+      acme.rows.map((r) => [r.tool, r.domain, r.status]),
+      [
+        ["compare_domains", "acme.com", "registered"],
+        ["compare_domains", "acme.net", null],
+        ["analyze_domain", "acme.com", null],
+        ["check_domain", "acme.com", "registered"],
+      ]
+    );
+  });
+
+  it("filters by date, counting a bare until date as the whole day", async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    assert.equal((await history.query(query({ since: today, until: today }))).total_matches, 3);
+    assert.equal((await history.query(query({ until: "2000-01-01" }))).total_matches, 0);
+    await assert.rejects(history.query(query({ since: "last week" })), /since must be a date/);
+  });
+
+  it("exports matching rows as CSV", async () => {
+    const { rows } = await history.query(query({ domain: "acme.com" }));
+    assert.equal(rows.length, 1);
+    const csv = exportHistory(rows, "csv").split("\n");
+    assert.equal(csv[0], "recorded_at,tool,domain,status,available,purchase_price,renewal_price,checked_at,error");
+    assert.match(csv[1], /,check_domain,acme\.com,registered,false,,,/);
+  });
+});
+
+describe("exportHistory", () => {
+  it("escapes CSV and Markdown cells", () => {
+    const row = {
+      recorded_at: "2026-10-01T00:00:00.000Z",
+      tool: "check_domain",
+      domain: null,
+      status: "error",
+      available: null,
+      purchase_price: null,
+      renewal_price: null,
+      checked_at: null,
+      error: 'bad "input", | and\nmore',
+    };
+    assert.match(exportHistory([row], "csv"), /,"bad ""input"", \| and\nmore"$/);
+    assert.match(exportHistory([row], "markdown"), /\| bad "input", \\\| and more \|$/);
+    assert.deepEqual(JSON.parse(exportHistory([row], "json")), [row]);
+  });
+});
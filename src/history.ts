@@ -0,0 +1,328 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { asciiHost } from "./domain.js";
+import { InvalidInputError } from "./errors.js";
+import { csvCell } from "./format.js";
+
+/**
+ * Append-only history of tool calls.
+ *
+ * Every call is one JSON line: the arguments, the domains they named,
+ * whether it succeeded, and the domains it reported on with their status
+ * and prices at that moment.
+ * Entries older than the retention period are dropped when the file is
+ * compacted, at most once a day.
+ */
+
+export interface HistoryObservation {
+  domain: string;
+  available: boolean | null;
+  status: string | null;
+  purchase_price: number | null;
+  renewal_price: number | null;
+  checked_at: string | null;
+}
+
+export interface HistoryEntry {
+  id: string;
+  recorded_at: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  /** Domains named in the arguments, in ASCII form */
+  inputs: string[];
+  ok: boolean;
+  error: string | null;
+  domains: HistoryObservation[];
+}
+
+/**
+ * One row per domain observation or input domain, or per call that named
+ * and reported no domains
+ */
+export interface HistoryRow {
+  recorded_at: string;
+  tool: string;
+  domain: string | null;
+  status: string | null;
+  available: boolean | null;
+  purchase_price: number | null;
+  renewal_price: number | null;
+  checked_at: string | null;
+  error: string | null;
+}
+
+export const HISTORY_STATUSES = ["available", "registered", "unknown", "error"] as const;
+export type HistoryStatus = (typeof HISTORY_STATUSES)[number];
+
+export interface HistoryQuery {
+  /** Matches anywhere in the domain, in Unicode or punycode */
+  domain: string | null;
+  tool: string | null;
+  since: string | null;
+  until: string | null;
+  status: HistoryStatus | null;
+  limit: number;
+}
+
+export interface HistoryQueryResult {
+  query: HistoryQuery;
+  total_matches: number;
+  count: number;
+  rows: HistoryRow[];
+}
+
+export const EXPORT_FORMATS = ["csv", "json", "markdown"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPORT_COLUMNS: Array<keyof HistoryRow> = [
+  "recorded_at",
+  "tool",
+  "domain",
+  "status",
+  "available",
+  "purchase_price",
+  "renewal_price",
+  "checked_at",
+  "error",
+];
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+/**
+ * Domains named in a call's arguments. Text that is not a valid domain is
+ * kept as given, so failed calls on it can still be found.
+ */
+export function extractInputDomains(args: Record<string, unknown>): string[] {
+  const values = [args.domain, ...(Array.isArray(args.domains) ? args.domains : [])];
+  const found = new Set<string>();
+  for (const value of values) {
+    if (typeof value !== "string" || !value.trim()) continue;
+    try {
+      found.add(asciiHost(value));
+    } catch {
+      found.add(value.trim().toLowerCase());
+    }
+  }
+  return [...found];
+}
+
+/**
+ * Find every domain a tool result reports on: any object with a domain
+ * name and an availability, status, or price field
+ */
+export function extractObservations(result: unknown): HistoryObservation[] {
+  const found = new Map<string, HistoryObservation>();
+
+  const walk = (value: unknown, checkedAt: string | null) => {
+    if (Array.isArray(value)) {
+      for (const item of value) walk(item, checkedAt);
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+    const obj = value as Record<string, unknown>;
+    const here = typeof obj.checked_at === "string" ? obj.checked_at : checkedAt;
+
+    if (
+      typeof obj.domain === "string" &&
+      ("available" in obj || "status" in obj || "purchase_price" in obj || "price" in obj) &&
+      !found.has(obj.domain)
+    ) {
+      found.set(obj.domain, {
+        domain: obj.domain,
+        available: typeof obj.available === "boolean" ? obj.available : null,
+        status: typeof obj.status === "string" ? obj.status : null,
+        purchase_price: numberOrNull(obj.purchase_price ?? obj.price),
+        renewal_price: numberOrNull(obj.renewal_price),
+        checked_at: here,
+      });
+    }
+    for (const child of Object.values(obj)) {
+      if (child && typeof child === "object") walk(child, here);
+    }
+  };
+
+  walk(result, null);
+  return [...found.values()];
+}
+
+function toRows(entry: HistoryEntry): HistoryRow[] {
+  const base = { recorded_at: entry.recorded_at, tool: entry.tool, error: entry.error };
+  const unobserved = (domain: string | null): HistoryRow => ({
+    ...base,
+    domain,
+    status: entry.ok ? null : "error",
+    available: null,
+    purchase_price: null,
+    renewal_price: null,
+    checked_at: null,
+  });
+  const observed = new Set(entry.domains.map((d) => d.domain));
+  const inputs = entry.inputs.filter((d) => !observed.has(d));
+  if (entry.domains.length === 0 && inputs.length === 0) {
+    return [unobserved(null)];
+  }
+  return [...entry.domains.map((d) => ({ ...base, ...d })), ...inputs.map(unobserved)];
+}
+
+function matchesStatus(row: HistoryRow, status: HistoryStatus): boolean {
+  if (status === "error") return row.error !== null;
+  if (status === "available") return row.available === true || row.status === "available";
+  if (status === "registered") return row.available === false && row.status !== "unknown";
+  return row.status === "unknown";
+}
+
+/**
+ * Parse a date bound; a bare date as the upper bound covers the whole day
+ */
+function parseBound(value: string, name: string, endOfDay: boolean): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new InvalidInputError(`${name} must be a date such as 2026-01-31 or 2026-01-31T12:00:00Z`);
+  }
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? time + DAY_MS : time;
+}
+
+function markdownCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return String(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Render history rows as CSV, JSON, or a Markdown table
+ */
+export function exportHistory(rows: HistoryRow[], format: ExportFormat): string {
+  if (format === "json") {
+    return JSON.stringify(rows, null, 2);
+  }
+  if (format === "csv") {
+    return [
+      EXPORT_COLUMNS.join(","),
+      ...rows.map((row) => EXPORT_COLUMNS.map((c) => csvCell(row[c])).join(",")),
+    ].join("\n");
+  }
+  return [
+    `| ${EXPORT_COLUMNS.join(" | ")} |`,
+    `| ${EXPORT_COLUMNS.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${EXPORT_COLUMNS.map((c) => markdownCell(row[c])).join(" | ")} |`),
+  ].join("\n");
+}
+
+/**
+ * Create a history log stored as JSON lines in the given file.
+ * A retention of 0 days keeps everything.
+ */
+export function createHistory(filePath: string, retentionDays: number) {
+  let queue: Promise<unknown> = Promise.resolve();
+  let lastCompactedAt = 0;
+
+  // Serialize operations so appends and compaction cannot interleave
+  function exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const next = queue.then(operation);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async function readEntries(): Promise<HistoryEntry[]> {
+    let raw: string;
+    try {
+      raw = await readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    const entries: HistoryEntry[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as HistoryEntry);
+      } catch {
+        // A torn final line from an interrupted write; skip it
+      }
+    }
+    return entries;
+  }
+
+  async function compactIfDue(): Promise<void> {
+    const now = Date.now();
+    if (retentionDays <= 0 || now - lastCompactedAt < DAY_MS) return;
+    lastCompactedAt = now;
+    const cutoff = now - retentionDays * DAY_MS;
+    const entries = await readEntries();
+    const kept = entries.filter((e) => Date.parse(e.recorded_at) >= cutoff);
+    if (kept.length === entries.length) return;
+    const tmp = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tmp, kept.map((e) => `${JSON.stringify(e)}\n`).join(""));
+    await rename(tmp, filePath);
+  }
+
+  return {
+    /**
+     * Append one tool call
+     */
+    record(
+      tool: string,
+      args: Record<string, unknown>,
+      result: unknown,
+      error: string | null
+    ): Promise<void> {
+      return exclusive(async () => {
+        await mkdir(dirname(filePath), { recursive: true });
+        await compactIfDue();
+        const { format: _format, ...inputs } = args;
+        const entry: HistoryEntry = {
+          id: randomUUID(),
+          recorded_at: new Date().toISOString(),
+          tool,
+          arguments: inputs,
+          inputs: extractInputDomains(inputs),
+          ok: error === null,
+          error,
+          domains: error === null ? extractObservations(result) : [],
+        };
+        await appendFile(filePath, `${JSON.stringify(entry)}\n`);
+      });
+    },
+
+    /**
+     * Find matching rows, newest first
+     */
+    query(query: HistoryQuery): Promise<HistoryQueryResult> {
+      return exclusive(async () => {
+        await compactIfDue();
+        const since = query.since ? parseBound(query.since, "since", false) : null;
+        const until = query.until ? parseBound(query.until, "until", true) : null;
+        const domain = query.domain ? asciiHost(query.domain) || null : null;
+
+        const rows = (await readEntries())
+          .filter((e) => {
+            const time = Date.parse(e.recorded_at);
+            return (
+              (!query.tool || e.tool === query.tool) &&
+              (since === null || time >= since) &&
+              (until === null || time < until)
+            );
+          })
+          .reverse()
+          .flatMap(toRows)
+          .filter(
+            (row) =>
+              (!domain || (row.domain !== null && row.domain.includes(domain))) &&
+              (!query.status || matchesStatus(row, query.status))
+          );
+
+        return {
+          query,
+          total_matches: rows.length,
+          count: Math.min(rows.length, query.limit),
+          rows: rows.slice(0, query.limit),
+        };
+      });
+    },
+  };
+}
+
+export type History = ReturnType<typeof createHistory>;
@@ -0,0 +1,122 @@
+import { timingSafeEqual } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from "node:http";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+
+/**
+ * HTTP transport: serves MCP over Server-Sent Events so one hosted
+ * instance can handle many clients.
+ *
+ *   GET  /sse                      open a session (event stream)
+ *   POST /messages?sessionId=...   send a message to that session
+ *   GET  /health                   liveness check, never authenticated
+ */
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Require "Authorization: Bearer <token>" on MCP endpoints when set */
+  authToken?: string;
+}
+
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Compare bearer tokens without leaking their contents through timing
+ */
+function isAuthorized(req: IncomingMessage, token: string | undefined): boolean {
+  if (!token) return true;
+  const header = req.headers.authorization ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Start the HTTP transport, creating one MCP server per SSE session
+ */
+export function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpServer> {
+  const transports = new Map<string, SSEServerTransport>();
+  const startedAt = Date.now();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    try {
+      if (req.method === "GET" && url.pathname === HEALTH_PATH) {
+        sendJson(res, 200, {
+          status: "ok",
+          sessions: transports.size,
+          uptime_seconds: Math.round((Date.now() - startedAt) / 1000),
+        });
+        return;
+      }
+
+      if (url.pathname !== SSE_PATH && url.pathname !== MESSAGES_PATH) {
+        sendJson(res, 404, { error: "Not found" });
+        return;
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        sendJson(res, 401, { error: "Unauthorized" });
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const server = createServer();
+        transports.set(transport.sessionId, transport);
+        res.on("close", () => {
+          transports.delete(transport.sessionId);
+          server.close().catch(() => undefined);
+        });
+        await server.connect(transport);
+        return;
+      }
+
+      if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+        const sessionId = url.searchParams.get("sessionId") ?? "";
+        const transport = transports.get(sessionId);
+        if (!transport) {
+          sendJson(res, 404, { error: `Unknown session: ${sessionId}` });
+          return;
+        }
+        await transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 405, { error: "Method not allowed" });
+    } catch (error) {
+      console.error("HTTP transport error:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal server error" });
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve(httpServer);
+    });
+  });
+}
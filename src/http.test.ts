@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { createHttpClient, HttpError } from "./http.js";
+
+const realFetch = globalThis.fetch;
+
+type Handler = (url: string, init: RequestInit) => Response | Promise<Response>;
+
+/** Replace the global fetch and record every call made through it */
+function stubFetch(handler: Handler): string[] {
+  const calls: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    calls.push(String(input));
+    return handler(String(input), init ?? {});
+  }) as typeof fetch;
+  return calls;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/** A fetch that never settles until its signal aborts */
+function hang(init: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+  });
+}
+
+const fast = {
+  baseUrl: "https://api.test",
+  backoffBaseMs: 1,
+  backoffMaxMs: 20,
+  requestsPerSecond: 1000,
+  burst: 1000,
+};
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+describe("createHttpClient", () => {
+  it("returns the parsed body of a successful response", async () => {
+    const calls = stubFetch(() => json({ ok: true }));
+    const client = createHttpClient(fast);
+    assert.deepEqual(await client.request("/x"), { ok: true });
+    assert.deepEqual(calls, ["https://api.test/x"]);
+  });
+
+  it("times out a request that never responds", async () => {
+    stubFetch((_, init) => hang(init));
+    const client = createHttpClient({ ...fast, timeoutMs: 20, maxRetries: 0 });
+    await assert.rejects(client.request("/x"), (error: unknown) => {
+      assert.ok(error instanceof HttpError);
+      assert.equal(error.status, null);
+      assert.match(error.message, /timed out after 20ms/);
+      return true;
+    });
+  });
+
+  it("keeps the timeout armed while the body is read", async () => {
+    stubFetch((_, init) => {
+      // Headers arrive at once; the body never finishes
+      const body = new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('{"partial":'));
+          init.signal?.addEventListener("abort", () =>
+            controller.error(new Error("aborted"))
+          );
+        },
+      });
+      return new Response(body, { status: 200 });
+    });
+    const client = createHttpClient({ ...fast, timeoutMs: 20, maxRetries: 0 });
+    await assert.rejects(client.request("/x"), /timed out after 20ms/);
+  });
+
+  it("retries GETs on transient failures", async () => {
+    let n = 0;
+    const calls = stubFetch(() => (++n < 3 ? json({ error: "busy" }, 502) : json({ n })));
+    const client = createHttpClient(fast);
+    assert.deepEqual(await client.request("/x"), { n: 3 });
+    assert.equal(calls.length, 3);
+  });
+
+  it("gives up after maxRetries and keeps the API's message", async () => {
+    const calls = stubFetch(() => json({ error: "down for maintenance" }, 500));
+    const client = createHttpClient({ ...fast, maxRetries: 2 });
+    await assert.rejects(client.request("/x"), (error: unknown) => {
+      assert.ok(error instanceof HttpError);
+      assert.equal(error.status, 500);
+      assert.equal(error.message, "HTTP 500: down for maintenance");
+      return true;
+    });
+    assert.equal(calls.length, 3);
+  });
+
+  it("does not retry client errors", async () => {
+    const calls = stubFetch(() => json({ error: "bad domain" }, 400));
+    const client = createHttpClient(fast);
+    await assert.rejects(client.request("/x"), /HTTP 400: bad domain/);
+    assert.equal(calls.length, 1);
+  });
+
+  it("waits for Retry-After on 429, capped at backoffMaxMs", async () => {
+    let n = 0;
+    stubFetch(() => (++n === 1 ? json({}, 429, { "Retry-After": "0.05" }) : json({ n })));
+    const client = createHttpClient({ ...fast, backoffMaxMs: 1000 });
+    const started = Date.now();
+    assert.deepEqual(await client.request("/x"), { n: 2 });
+    assert.ok(Date.now() - started >= 45);
+  });
+
+  it("only retries POSTs the server explicitly throttled", async () => {
+    const failing = stubFetch(() => json({}, 500));
+    const client = createHttpClient(fast);
+    await assert.rejects(client.request("/x", { method: "POST", body: {} }), /HTTP 500/);
+    assert.equal(failing.length, 1);
+
+    let n = 0;
+    const throttled = stubFetch(() => (++n === 1 ? json({}, 503, { "Retry-After": "0" }) : json({ n })));
+    const retrying = createHttpClient(fast);
+    assert.deepEqual(await retrying.request("/x", { method: "POST", body: {} }), { n: 2 });
+    assert.equal(throttled.length, 2);
+  });
+
+  it("does not retry a POST after a network error", async () => {
+    const calls = stubFetch(() => {
+      throw new TypeError("socket hang up");
+    });
+    const client = createHttpClient(fast);
+    await assert.rejects(
+      client.request("/x", { method: "POST", body: {} }),
+      /Network error: socket hang up/
+    );
+    assert.equal(calls.length, 1);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Shared HTTP client for the AgentDomainService API.
+ *
+ * Every request goes through a client-side rate limiter, is bounded by a
+ * timeout, and is retried on transient failures. GETs are retried with
+ * exponential backoff and jitter; other methods are only retried when the
+ * server explicitly rejected them with 429/503, since the request was not
+ * processed.
+ */
+
+export interface HttpClientOptions {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /** Retries after the first attempt */
+  maxRetries?: number;
+  /** Base delay for exponential backoff in milliseconds */
+  backoffBaseMs?: number;
+  /** Upper bound for any single wait, including Retry-After */
+  backoffMaxMs?: number;
+  /** Sustained requests per second allowed by the client-side limiter */
+  requestsPerSecond?: number;
+  /** Requests that may be sent in a burst before the limiter kicks in */
+  burst?: number;
+  /** Transport to use instead of the global fetch, e.g. the fixture backend */
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  method?: "GET" | "POST";
+  body?: unknown;
+  timeoutMs?: number;
+}
+
+export interface HttpClient {
+  request<T>(path: string, options?: RequestOptions): Promise<T>;
+}
+
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | null,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header, which is either delta-seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return null;
+}
+
+/**
+ * Token bucket limiter; callers wait until a token is free
+ */
+export function createRateLimiter(requestsPerSecond: number, burst: number) {
+  let tokens = burst;
+  let last = Date.now();
+  let queue: Promise<void> = Promise.resolve();
+
+  function refill() {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + ((now - last) / 1000) * requestsPerSecond);
+    last = now;
+  }
+
+  async function take() {
+    refill();
+    if (tokens < 1) {
+      await sleep(((1 - tokens) / requestsPerSecond) * 1000);
+      refill();
+    }
+    tokens -= 1;
+  }
+
+  return {
+    acquire(): Promise<void> {
+      // Chain acquisitions so waiters are served in order
+      const next = queue.then(take);
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+}
+
+/**
+ * Create an HTTP client bound to a base URL
+ */
+export function createHttpClient(options: HttpClientOptions): HttpClient {
+  const timeoutMs = options.timeoutMs ?? 15_000;
+  const maxRetries = options.maxRetries ?? 3;
+  const backoffBaseMs = options.backoffBaseMs ?? 500;
+  const backoffMaxMs = options.backoffMaxMs ?? 10_000;
+  const fetchImpl = options.fetch ?? fetch;
+  const limiter = createRateLimiter(
+    options.requestsPerSecond ?? 5,
+    options.burst ?? 10
+  );
+
+  function backoffDelay(attempt: number): number {
+    // Full jitter: uniform in [0, base * 2^attempt], capped
+    const ceiling = Math.min(backoffMaxMs, backoffBaseMs * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+
+  /**
+   * One try at a request. The timeout stays armed until the body has been
+   * read, so a response that stalls after its headers cannot hang the call.
+   */
+  async function attempt<T>(
+    url: string,
+    init: RequestInit,
+    perRequestTimeout: number
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), perRequestTimeout);
+    const timedOut = () =>
+      new HttpError(`Request timed out after ${perRequestTimeout}ms`, null);
+    try {
+      let response: Response;
+      try {
+        response = await fetchImpl(url, { ...init, signal: controller.signal });
+      } catch (error) {
+        if (controller.signal.aborted) throw timedOut();
+        const message = error instanceof Error ? error.message : "Unknown error";
+        throw new HttpError(`Network error: ${message}`, null);
+      }
+      if (!response.ok) {
+        throw await toHttpError(response);
+      }
+      try {
+        return (await response.json()) as T;
+      } catch (error) {
+        if (controller.signal.aborted) throw timedOut();
+        throw error;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async function request<T>(path: string, req: RequestOptions = {}): Promise<T> {
+    const method = req.method ?? "GET";
+    const idempotent = method === "GET";
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      ...options.headers,
+    };
+    const init: RequestInit = { method, headers };
+    if (req.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+      init.body = JSON.stringify(req.body);
+    }
+    const url = `${options.baseUrl}${path}`;
+
+    for (let i = 0; ; i++) {
+      await limiter.acquire();
+
+      let error: HttpError;
+      try {
+        return await attempt<T>(url, init, req.timeoutMs ?? timeoutMs);
+      } catch (caught) {
+        if (!(caught instanceof HttpError)) throw caught;
+        error = caught;
+      }
+
+      const throttled = error.status === 429 || error.status === 503;
+      const retryable =
+        error.status === null
+          ? idempotent
+          : RETRYABLE_STATUSES.has(error.status) && (idempotent || throttled);
+      if (!retryable || i >= maxRetries) {
+        throw error;
+      }
+
+      const wait =
+        throttled && error.retryAfterMs !== null
+          ? error.retryAfterMs
+          : backoffDelay(i);
+      await sleep(Math.min(wait, backoffMaxMs));
+    }
+  }
+
+  return { request };
+}
+
+/**
+ * Turn a non-OK response into an error that keeps the status and any
+ * message the API sent back
+ */
+async function toHttpError(response: Response): Promise<HttpError> {
+  let detail = "";
+  try {
+    const text = await response.text();
+    try {
+      const body = JSON.parse(text) as { error?: unknown; message?: unknown };
+      const message = body.error ?? body.message;
+      detail = typeof message === "string" ? message : text;
+    } catch {
+      detail = text;
+    }
+  } catch {
+    // Body unreadable; fall back to the status line
+  }
+  detail = detail.trim().slice(0, 200) || response.statusText;
+  return new HttpError(
+    `HTTP ${response.status}${detail ? `: ${detail}` : ""}`,
+    response.status,
+    parseRetryAfter(response.headers.get("retry-after"))
+  );
+}
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createAgentDomainClient } from "./client.js";
+import { createFixtureFetch, FIXTURE_RDAP_SERVER } from "./fixtures.js";
+import { eppStatus, estimateDrop } from "./lifecycle.js";
+
+const NOW = Date.parse("2026-10-15T12:00:00Z");
+
+function registered(statuses: string[], dates: { updated_at?: string; expires_at?: string } = {}) {
+  return {
+    registered: true,
+    statuses,
+    updated_at: dates.updated_at ?? null,
+    expires_at: dates.expires_at ?? null,
+  };
+}
+
+describe("eppStatus", () => {
+  it("turns RDAP statuses into EPP codes", () => {
+    assert.equal(eppStatus("client transfer prohibited"), "clientTransferProhibited");
+    assert.equal(eppStatus(" Redemption Period "), "redemptionPeriod");
+    assert.equal(eppStatus("active"), "ok");
+  });
+});
+
+describe("estimateDrop", () => {
+  it("counts grace, redemption and pending delete from the expiry date", () => {
+    const drop = estimateDrop(registered(["ok"], { expires_at: "2027-01-01T00:00:00Z" }), NOW);
+    assert.equal(drop.phase, "registered");
+    // 45 + 30 + 5 days
+    assert.equal(drop.estimated_drop_at, "2027-03-22T00:00:00.000Z");
+    assert.match(drop.summary, /^Registered until 2027-01-01\./);
+
+    const lapsed = estimateDrop(registered(["ok"], { expires_at: "2026-10-01T00:00:00Z" }), NOW);
+    assert.equal(lapsed.phase, "auto_renew_grace");
+    assert.equal(lapsed.estimated_drop_at, "2026-12-20T00:00:00.000Z");
+  });
+
+  it("counts from the last update once deletion has started", () => {
+    const updated_at = "2026-10-05T00:00:00Z";
+    const redemption = estimateDrop(registered(["redemptionPeriod"], { updated_at }), NOW);
+    assert.equal(redemption.phase, "redemption");
+    assert.equal(redemption.estimated_drop_at, "2026-11-09T00:00:00.000Z");
+
+    const pending = estimateDrop(registered(["pendingDelete", "redemptionPeriod"], { updated_at }), NOW);
+    assert.equal(pending.phase, "pending_delete");
+    assert.equal(pending.estimated_drop_at, "2026-10-10T00:00:00.000Z");
+
+    // Without an update date, the estimate counts from now
+    const undated = estimateDrop(registered(["pendingDelete"]), NOW);
+    assert.equal(undated.estimated_drop_at, "2026-10-20T12:00:00.000Z");
+  });
+
+  it("notes holds and handles missing dates", () => {
+    const held = estimateDrop(registered(["clientHold"]), NOW);
+    assert.equal(held.phase, "registered");
+    assert.equal(held.estimated_drop_at, null);
+    assert.equal(held.on_hold, true);
+    assert.match(held.summary, /did not publish an expiry date\. It is on hold/);
+
+    const free = estimateDrop({ registered: false, statuses: [], updated_at: null, expires_at: null }, NOW);
+    assert.equal(free.phase, "available");
+    assert.equal(free.on_hold, false);
+  });
+});
+
+describe("domainDetails", () => {
+  const fixtures = createFixtureFetch();
+  const client = createAgentDomainClient({
+    fetch: fixtures,
+    rdap: { servers: { "*": FIXTURE_RDAP_SERVER }, fetch: fixtures },
+  });
+
+  it("reads registrar, dates, statuses and nameservers from RDAP", async () => {
+    const details = await client.domainDetails("Example.com");
+    assert.equal(details.domain, "example.com");
+    assert.equal(details.registered, true);
+    assert.equal(details.created_at, "1995-08-14T04:00:00Z");
+    assert.deepEqual(details.statuses, [
+      "clientDeleteProhibited",
+      "clientTransferProhibited",
+      "clientUpdateProhibited",
+    ]);
+    assert.deepEqual(details.nameservers, ["a.iana-servers.net", "b.iana-servers.net"]);
+    assert.ok(details.registrar?.name);
+  });
+
+  it("estimates the drop for a domain in redemption", async () => {
+    const details = await client.domainDetails("quickpulse.com");
+    assert.deepEqual(details.statuses, ["redemptionPeriod"]);
+    assert.equal(details.drop.phase, "redemption");
+    assert.equal(details.drop.estimated_drop_at, "2026-11-09T09:12:44.000Z");
+  });
+
+  it("reports an unregistered domain as available", async () => {
+    const details = await client.domainDetails("quickpulse.dev");
+    assert.equal(details.registered, false);
+    assert.equal(details.registrar, null);
+    assert.equal(details.drop.phase, "available");
+  });
+});
@@ -0,0 +1,112 @@
+import type { DomainDetailsResult, DropPhase } from "./types.js";
+
+/**
+ * Registration lifecycle.
+ *
+ * Estimates when a taken domain could drop back to the open market from
+ * its EPP statuses and dates, using the standard gTLD timeline: up to 45
+ * days of auto-renew grace after expiry, 30 days of redemption, then 5
+ * days pending delete. Registrars often delete sooner and ccTLDs follow
+ * their own rules, so these are estimates.
+ */
+
+const AUTO_RENEW_GRACE_DAYS = 45;
+const REDEMPTION_DAYS = 30;
+const PENDING_DELETE_DAYS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Details = Pick<DomainDetailsResult, "registered" | "statuses" | "updated_at" | "expires_at">;
+
+function addDays(date: string | number, days: number): string | null {
+  const time = typeof date === "number" ? date : Date.parse(date);
+  return Number.isNaN(time) ? null : new Date(time + days * DAY_MS).toISOString();
+}
+
+function day(date: string): string {
+  return date.slice(0, 10);
+}
+
+/**
+ * Turn an RDAP status ("client transfer prohibited") into its EPP code
+ * ("clientTransferProhibited"). RDAP reports EPP "ok" as "active".
+ */
+export function eppStatus(rdapStatus: string): string {
+  const words = rdapStatus.trim().toLowerCase().split(/\s+/);
+  if (words.length === 1 && words[0] === "active") return "ok";
+  return words.map((w, i) => (i === 0 ? w : w.charAt(0).toUpperCase() + w.slice(1))).join("");
+}
+
+/**
+ * Estimate the drop timeline for a registration
+ */
+export function estimateDrop(
+  details: Details,
+  now: number = Date.now()
+): DomainDetailsResult["drop"] {
+  const statuses = new Set(details.statuses);
+  const onHold = statuses.has("clientHold") || statuses.has("serverHold");
+  const holdNote = onHold ? " It is on hold, so it does not resolve." : "";
+  const result = (phase: DropPhase, estimated: string | null, summary: string) => ({
+    phase,
+    estimated_drop_at: estimated,
+    on_hold: onHold,
+    summary: summary + holdNote,
+  });
+
+  if (!details.registered) {
+    return result("available", null, "Not registered; it can be registered now.");
+  }
+
+  if (statuses.has("pendingDelete")) {
+    // Entering pending delete usually shows up as the last update
+    const estimated =
+      (details.updated_at && addDays(details.updated_at, PENDING_DELETE_DAYS)) ??
+      addDays(now, PENDING_DELETE_DAYS);
+    return result(
+      "pending_delete",
+      estimated,
+      `Pending delete; it should drop within ${PENDING_DELETE_DAYS} days and cannot be renewed.`
+    );
+  }
+
+  if (statuses.has("redemptionPeriod")) {
+    const estimated =
+      (details.updated_at &&
+        addDays(details.updated_at, REDEMPTION_DAYS + PENDING_DELETE_DAYS)) ??
+      addDays(now, REDEMPTION_DAYS + PENDING_DELETE_DAYS);
+    return result(
+      "redemption",
+      estimated,
+      `In redemption; the owner can still restore it. If not, it should drop around ${estimated ? day(estimated) : "a month from now"}.`
+    );
+  }
+
+  const lapse = AUTO_RENEW_GRACE_DAYS + REDEMPTION_DAYS + PENDING_DELETE_DAYS;
+  if (statuses.has("autoRenewPeriod")) {
+    // The registry has already pushed the expiry date out a year, so count
+    // from the auto-renewal itself
+    const estimated =
+      (details.updated_at && addDays(details.updated_at, lapse)) ?? addDays(now, lapse);
+    return result(
+      "auto_renew_grace",
+      estimated,
+      `Expired and auto-renewed by the registry; the registrar can still delete it. If the owner does not pay, it could drop around ${day(estimated!)}.`
+    );
+  }
+  if (!details.expires_at || Number.isNaN(Date.parse(details.expires_at))) {
+    return result("registered", null, "Registered; the registry did not publish an expiry date.");
+  }
+  const estimated = addDays(details.expires_at, lapse);
+  if (Date.parse(details.expires_at) <= now) {
+    return result(
+      "auto_renew_grace",
+      estimated,
+      `Expired on ${day(details.expires_at)} and in the renewal grace period. If the owner does not renew, it could drop around ${day(estimated!)}.`
+    );
+  }
+  return result(
+    "registered",
+    estimated,
+    `Registered until ${day(details.expires_at)}. If it is not renewed, the earliest it could drop is around ${day(estimated!)}.`
+  );
+}
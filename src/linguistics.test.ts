@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createAgentDomainClient } from "./client.js";
+import { normalizeDomain } from "./domain.js";
+import { analyzeName } from "./linguistics.js";
+
+function analyze(domain: string) {
+  return analyzeName(normalizeDomain(domain));
+}
+
+function flagged(domain: string): string[] {
+  return analyze(domain).flagged_words.map((f) => `${f.word}${f.hidden ? " (hidden)" : ""}`);
+}
+
+describe("analyzeName", () => {
+  it("measures length, syllables and clusters", () => {
+    const result = analyze("quickpulse.io");
+    assert.equal(result.name, "quickpulse");
+    assert.equal(result.length, 10);
+    assert.equal(result.syllables, 2);
+    assert.deepEqual(result.consonant_clusters, ["ckp"]);
+    assert.equal(analyze("strengths.com").syllables, 1);
+    assert.equal(analyze("cloud9.com").syllables, 2);
+  });
+
+  it("runs the radio test and finds lookalike letters", () => {
+    const clean = analyze("pulse.com");
+    assert.equal(clean.radio_test.passes, true);
+    assert.deepEqual(clean.ambiguous_sequences, []);
+
+    const phone = analyze("phonez-4u.com");
+    assert.equal(phone.radio_test.passes, false);
+    assert.equal(phone.hyphens, 1);
+    assert.equal(phone.digits, 1);
+    assert.ok(phone.radio_test.issues.includes('"ph" sounds like "f"'));
+    assert.deepEqual(analyze("modern.io").ambiguous_sequences, [{ sequence: "rn", reads_as: "m" }]);
+  });
+
+  it("analyzes the Unicode name under an IDN suffix", () => {
+    const result = analyze("пример.рф");
+    assert.equal(result.name, "пример");
+    assert.equal(result.length, 6);
+  });
+});
+
+describe("flagged words", () => {
+  it("finds whole words and words hidden across a split", () => {
+    assert.deepEqual(flagged("mist.io"), ["mist"]);
+    assert.deepEqual(flagged("gift-shop.com"), ["gift"]);
+    assert.deepEqual(flagged("therapistfinder.com"), ["rapist (hidden)"]);
+    assert.deepEqual(flagged("expertsexchange.com"), ["sex (hidden)"]);
+  });
+
+  it("does not flag words inside everyday words", () => {
+    for (const domain of ["giftbox.com", "chemistry.io", "torpedo.com", "phototools.com"]) {
+      assert.deepEqual(flagged(domain), [], domain);
+    }
+    // A short word at the edge of a name is not a split a reader makes
+    assert.deepEqual(flagged("sextant.com"), []);
+  });
+
+  it("reports a clean name as a strength", () => {
+    const result = analyze("quickpulse.io");
+    assert.ok(result.strengths.some((s) => /^No profanity or negative meanings found/.test(s)));
+    assert.ok(analyze("kurwa.com").warnings.some((w) => /^Profanity: "kurwa" as a word/.test(w)));
+  });
+});
+
+describe("analyzeDomain fallback", () => {
+  it("answers from local checks when the remote analysis fails", async () => {
+    const client = createAgentDomainClient({
+      http: { maxRetries: 0 },
+      fetch: async () => new Response("down", { status: 503 }),
+    });
+    const result = await client.analyzeDomain("quickpulse.io");
+    assert.equal(result.scores, null);
+    assert.match(result.remote_error ?? "", /^Failed to analyze domain: /);
+    assert.equal(result.linguistics?.name, "quickpulse");
+    assert.match(result.verdict ?? "", /^Local checks found/);
+  });
+});
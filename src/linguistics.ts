@@ -0,0 +1,194 @@
+import type { NormalizedDomain } from "./domain.js";
+import type { AnalyzeResult, LinguisticAnalysis } from "./types.js";
+import { FLAGGED_WORDS } from "./word-lists.js";
+
+/**
+ * Offline name analysis.
+ *
+ * Deterministic checks on how a name looks, sounds, and reads in other
+ * languages, run next to the remote analysis and used on their own when
+ * it fails. Syllables and spelling rules are English heuristics.
+ */
+
+const SHORT_NAME = 8;
+const LONG_NAME = 15;
+const EASY_SYLLABLES = 3;
+const HARD_SYLLABLES = 5;
+/** Shorter words turn up inside all sorts of words, so they need flanking letters to count */
+const MIN_HIDDEN_WORD_LENGTH = 4;
+/**
+ * Letters needed on each side of a short hidden word for the name to split
+ * around it, as "expertsexchange" reads as "expert sex change"
+ */
+const MIN_FLANK_LENGTH = 3;
+const HARD_CLUSTER_LENGTH = 4;
+
+const VOWEL_GROUPS = /[aeiouy]+/g;
+const CONSONANT_RUNS = /[bcdfghjklmnpqrstvwxz]{3,}/g;
+/** Syllables in each digit read aloud: zero, one, two... */
+const DIGIT_SYLLABLES = [2, 1, 1, 1, 1, 1, 1, 2, 1, 1];
+
+const AMBIGUOUS_SEQUENCES: Array<[string, string]> = [
+  ["rn", "m"],
+  ["vv", "w"],
+  ["cl", "d"],
+  ["1", "l or I"],
+  ["0", "O"],
+];
+
+/** Spellings a listener would not guess from the sound alone */
+const RADIO_PITFALLS: Array<[RegExp, string]> = [
+  [/ph/, '"ph" sounds like "f"'],
+  [/gh/, '"gh" is silent or sounds like "f"'],
+  [/^(kn|wr|ps)/, "the first letter is silent"],
+  [/q(?!u)/, '"q" without "u"'],
+  [/ie|ei/, '"ie" and "ei" are easy to swap'],
+  [/[bcdfghjklmnpqstvwxz]r$/, 'ends in "r" with the vowel dropped'],
+  [/[^tz]z$/, 'ends in "z" in place of "s"'],
+];
+
+const LANGUAGE_COUNT = new Set(
+  FLAGGED_WORDS.flatMap((w) => w.language.split("/"))
+).size;
+
+/**
+ * Count syllables in one word: vowel groups, less a silent final "e"
+ */
+function countSyllables(word: string): number {
+  let count = 0;
+  for (const char of word) {
+    if (/[0-9]/.test(char)) count += DIGIT_SYLLABLES[Number(char)];
+  }
+  const letters = word.replace(/[^a-z]/g, "");
+  if (!letters) return count;
+  // A leading "y" is a consonant, as in "yes"
+  let groups = letters.replace(/^y/, "").match(VOWEL_GROUPS)?.length ?? 0;
+  if (groups > 1 && /[^aeiouy]e$/.test(letters) && !/[^aeiouy]le$/.test(letters)) {
+    groups--;
+  }
+  return count + Math.max(groups, 1);
+}
+
+/**
+ * Whether a word is hidden inside a segment. Short words only count where
+ * the segment has room for a word on each side, since that is where a
+ * reader's split crosses into them.
+ */
+function hiddenIn(segment: string, word: string): boolean {
+  if (word.length >= MIN_HIDDEN_WORD_LENGTH) return segment.includes(word);
+  for (let i = segment.indexOf(word); i !== -1; i = segment.indexOf(word, i + 1)) {
+    if (i >= MIN_FLANK_LENGTH && segment.length - i - word.length >= MIN_FLANK_LENGTH) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function flaggedWords(segments: string[]): LinguisticAnalysis["flagged_words"] {
+  const found: LinguisticAnalysis["flagged_words"] = [];
+  for (const entry of FLAGGED_WORDS) {
+    const whole = segments.includes(entry.word);
+    const hidden =
+      !whole && !entry.wholeOnly && segments.some((s) => hiddenIn(s, entry.word));
+    if (whole || hidden) {
+      found.push({ ...entry, hidden });
+    }
+  }
+  return found;
+}
+
+/**
+ * Analyze the name part of a domain
+ */
+export function analyzeName(domain: NormalizedDomain): LinguisticAnalysis {
+  const name = domain.unicodeName;
+  // Hyphens and digits break a name into the parts people read separately
+  const segments = name.split(/[-0-9]+/).filter(Boolean);
+  const length = [...name].length;
+  const hyphens = (name.match(/-/g) ?? []).length;
+  const digits = (name.match(/[0-9]/g) ?? []).length;
+  const syllables = name
+    .split("-")
+    .reduce((sum, part) => sum + countSyllables(part), 0);
+  const clusters = [...new Set(name.match(CONSONANT_RUNS) ?? [])];
+  const ambiguous = AMBIGUOUS_SEQUENCES.filter(([sequence]) => name.includes(sequence)).map(
+    ([sequence, readsAs]) => ({ sequence, reads_as: readsAs })
+  );
+
+  const radioIssues: string[] = [];
+  if (digits > 0) radioIssues.push('has digits, so listeners cannot tell "4" from "four"');
+  if (hyphens > 0) radioIssues.push("has hyphens, which have to be spelled out");
+  for (const [pattern, issue] of RADIO_PITFALLS) {
+    if (segments.some((s) => pattern.test(s))) radioIssues.push(issue);
+  }
+  const flagged = flaggedWords(segments);
+
+  const strengths: string[] = [];
+  const warnings: string[] = [];
+  if (length <= SHORT_NAME) strengths.push(`Short (${length} characters)`);
+  if (length > LONG_NAME) warnings.push(`Long (${length} characters)`);
+  if (syllables <= EASY_SYLLABLES) strengths.push(`Easy to say (${syllables} syllables)`);
+  if (syllables >= HARD_SYLLABLES) warnings.push(`Many syllables (${syllables})`);
+  const hardClusters = clusters.filter((c) => c.length >= HARD_CLUSTER_LENGTH);
+  if (hardClusters.length > 0) {
+    warnings.push(`Hard consonant clusters: ${hardClusters.join(", ")}`);
+  }
+  if (ambiguous.length > 0) {
+    warnings.push(
+      `Lookalike letters: ${ambiguous.map((a) => `"${a.sequence}" reads as "${a.reads_as}"`).join(", ")}`
+    );
+  } else {
+    strengths.push("No lookalike letter sequences");
+  }
+  if (radioIssues.length > 0) {
+    warnings.push(`Fails the radio test: ${radioIssues.join("; ")}`);
+  } else {
+    strengths.push("Passes the radio test: spelled the way it sounds");
+  }
+  for (const f of flagged) {
+    const where = f.hidden ? "hidden across words" : "as a word";
+    const kind = f.severity === "profanity" ? "Profanity" : "Negative meaning";
+    warnings.push(`${kind}: "${f.word}" ${where} (${f.language}: ${f.meaning})`);
+  }
+  if (flagged.length === 0) {
+    strengths.push(`No profanity or negative meanings found in ${LANGUAGE_COUNT} languages`);
+  }
+
+  return {
+    name,
+    length,
+    syllables,
+    consonant_clusters: clusters,
+    ambiguous_sequences: ambiguous,
+    hyphens,
+    digits,
+    radio_test: { passes: radioIssues.length === 0, issues: radioIssues },
+    flagged_words: flagged,
+    strengths,
+    warnings,
+  };
+}
+
+/**
+ * An analysis built from local checks alone, for when the remote
+ * analysis is unavailable
+ */
+export function localAnalyzeResult(
+  domain: string,
+  linguistics: LinguisticAnalysis,
+  remoteError: string
+): AnalyzeResult {
+  const concerns = linguistics.warnings.length;
+  return {
+    domain,
+    scores: null,
+    pros: linguistics.strengths,
+    cons: linguistics.warnings,
+    verdict:
+      concerns === 0
+        ? "Local checks found no problems with this name."
+        : `Local checks found ${concerns} potential problem${concerns === 1 ? "" : "s"} with this name.`,
+    linguistics,
+    remote_error: remoteError,
+  };
+}
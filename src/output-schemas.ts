@@ -0,0 +1,767 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * JSON Schemas describing the structured payload each tool returns in
+ * `structuredContent`. They mirror the interfaces in types.ts.
+ */
+
+type OutputSchema = NonNullable<Tool["outputSchema"]>;
+
+const nullableNumber = { type: ["number", "null"] };
+const nullableString = { type: ["string", "null"] };
+const localCache = {
+  type: "object",
+  description: "Whether this result was served from the server's local cache",
+  properties: {
+    hit: { type: "boolean" },
+    age_seconds: { type: "number" },
+    expires_at: nullableString,
+  },
+};
+const costBreakdown = {
+  type: "object",
+  description: "Total cost over 1/3/5/10 years (purchase + renewals)",
+  properties: {
+    year_1: nullableNumber,
+    year_3: nullableNumber,
+    year_5: nullableNumber,
+    year_10: nullableNumber,
+    renewal_jump: { type: "boolean" },
+  },
+};
+const budgetSummary = {
+  type: "object",
+  description: "Present when the listing was filtered and sorted in budget mode",
+  properties: {
+    years: { type: "number" },
+    max_total: nullableNumber,
+    excluded_count: { type: "number" },
+  },
+};
+const domainStatus = {
+  type: "string",
+  enum: ["available", "registered", "unknown"],
+};
+const riskLevel = {
+  type: "string",
+  enum: ["high", "medium", "low"],
+};
+
+export const domainCheckOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    domain: { type: "string" },
+    available: { type: "boolean" },
+    status: domainStatus,
+    checked_at: { type: "string" },
+    expires_at: nullableString,
+    source: { type: "string" },
+    purchase_price: nullableNumber,
+    renewal_price: nullableNumber,
+    premium: { type: "boolean" },
+    provider_failures: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          provider: { type: "string" },
+          error: { type: "string" },
+        },
+      },
+    },
+    cache: {
+      type: "object",
+      properties: {
+        hit: { type: "boolean" },
+        ttl_seconds: { type: "number" },
+        stale: { type: "boolean" },
+      },
+    },
+    suggestions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          available: { type: "boolean" },
+          purchase_price: nullableNumber,
+          renewal_price: nullableNumber,
+          premium: { type: "boolean" },
+        },
+      },
+    },
+    costs: costBreakdown,
+    local_cache: localCache,
+  },
+  required: ["domain", "available", "status"],
+};
+
+export const exploreOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    checked_at: { type: "string" },
+    summary: { type: "string" },
+    available_count: { type: "number" },
+    taken_count: { type: "number" },
+    tlds_checked: { type: "array", items: { type: "string" } },
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          tld: { type: "string" },
+          domain: { type: "string" },
+          available: { type: "boolean" },
+          status: domainStatus,
+          purchase_price: nullableNumber,
+          renewal_price: nullableNumber,
+          premium: { type: "boolean" },
+          costs: costBreakdown,
+        },
+      },
+    },
+    budget: budgetSummary,
+    local_cache: localCache,
+  },
+  required: ["name", "results"],
+};
+
+export const brainstormOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    prompt: { type: "string" },
+    generated_at: { type: "string" },
+    source: { type: "string", enum: ["api", "sampling"] },
+    model: { type: "string" },
+    fallback_reason: { type: "string" },
+    suggestions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          domain: { type: "string" },
+          tld: { type: "string" },
+          available: { type: "boolean" },
+          purchase_price: nullableNumber,
+          renewal_price: nullableNumber,
+          premium: { type: "boolean" },
+          costs: costBreakdown,
+        },
+      },
+    },
+    constraints: {
+      type: "object",
+      description: "Constraints the suggestions were filtered by, when any were given",
+      properties: {
+        max_length: nullableNumber,
+        tlds: { type: ["array", "null"], items: { type: "string" } },
+        max_price: nullableNumber,
+        banned_words: { type: "array", items: { type: "string" } },
+        banned_letters: { type: "array", items: { type: "string" } },
+        available_only: { type: "boolean" },
+        style: { type: ["string", "null"], enum: ["real_word", "invented", "compound", null] },
+      },
+    },
+    rounds: {
+      type: "object",
+      description: "How many brainstorm rounds ran and why candidates were rejected",
+      properties: {
+        count: { type: "number" },
+        max: { type: "number" },
+        target_count: { type: "number" },
+        stopped_because: {
+          type: "string",
+          enum: ["target_reached", "max_rounds", "no_new_candidates"],
+        },
+        rejection_counts: {
+          type: "object",
+          additionalProperties: { type: "number" },
+        },
+        rejected: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              domain: { type: "string" },
+              reason: {
+                type: "string",
+                enum: ["taken", "too_long", "wrong_tld", "over_price", "banned_word", "banned_letter"],
+              },
+            },
+          },
+        },
+      },
+    },
+    budget: budgetSummary,
+  },
+  required: ["suggestions"],
+};
+
+const analyzeScores = {
+  type: ["object", "null"],
+  properties: {
+    memorability: nullableNumber,
+    brandability: nullableNumber,
+    length: nullableNumber,
+    pronunciation: nullableNumber,
+    seo: nullableNumber,
+    overall: nullableNumber,
+  },
+};
+
+export const analyzeOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    domain: { type: "string" },
+    scores: analyzeScores,
+    pros: { type: "array", items: { type: "string" } },
+    cons: { type: "array", items: { type: "string" } },
+    verdict: nullableString,
+    linguistics: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        length: { type: "number" },
+        syllables: { type: "number" },
+        consonant_clusters: { type: "array", items: { type: "string" } },
+        ambiguous_sequences: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              sequence: { type: "string" },
+              reads_as: { type: "string" },
+            },
+          },
+        },
+        hyphens: { type: "number" },
+        digits: { type: "number" },
+        radio_test: {
+          type: "object",
+          properties: {
+            passes: { type: "boolean" },
+            issues: { type: "array", items: { type: "string" } },
+          },
+        },
+        flagged_words: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              word: { type: "string" },
+              language: { type: "string" },
+              meaning: { type: "string" },
+              severity: { type: "string", enum: ["profanity", "negative"] },
+              hidden: { type: "boolean" },
+            },
+          },
+        },
+        strengths: { type: "array", items: { type: "string" } },
+        warnings: { type: "array", items: { type: "string" } },
+      },
+    },
+    remote_error: { type: "string" },
+    local_cache: localCache,
+  },
+  required: ["domain"],
+};
+
+export const defensiveVariantsOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    domain: { type: "string" },
+    checked_at: { type: "string" },
+    generated_count: { type: "number" },
+    checked_count: { type: "number" },
+    available_count: { type: "number" },
+    registered_count: { type: "number" },
+    min_risk: riskLevel,
+    variants: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          display: { type: "string" },
+          technique: { type: "string" },
+          risk: riskLevel,
+          risk_score: { type: "number" },
+          available: { type: "boolean" },
+          status: domainStatus,
+          purchase_price: nullableNumber,
+          renewal_price: nullableNumber,
+          premium: { type: "boolean" },
+          costs: costBreakdown,
+        },
+      },
+    },
+    total_cost: {
+      type: "object",
+      properties: {
+        domain_count: { type: "number" },
+        first_year: { type: "number" },
+        yearly_renewal: { type: "number" },
+        unpriced_count: { type: "number" },
+      },
+    },
+    failures: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          error: { type: "string" },
+        },
+      },
+    },
+  },
+  required: ["domain", "variants", "total_cost"],
+};
+
+export const domainDetailsOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    domain: { type: "string" },
+    registered: { type: "boolean" },
+    checked_at: { type: "string" },
+    source: { type: "string" },
+    registrar: {
+      type: ["object", "null"],
+      properties: {
+        name: nullableString,
+        iana_id: nullableString,
+      },
+    },
+    created_at: nullableString,
+    updated_at: nullableString,
+    expires_at: nullableString,
+    statuses: { type: "array", items: { type: "string" } },
+    nameservers: { type: "array", items: { type: "string" } },
+    dnssec: { type: "string", enum: ["signed", "unsigned", "unknown"] },
+    drop: {
+      type: "object",
+      properties: {
+        phase: {
+          type: "string",
+          enum: ["available", "registered", "auto_renew_grace", "redemption", "pending_delete"],
+        },
+        estimated_drop_at: nullableString,
+        on_hold: { type: "boolean" },
+        summary: { type: "string" },
+      },
+    },
+    local_cache: localCache,
+  },
+  required: ["domain", "registered", "statuses", "drop"],
+};
+
+export const searchOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    count: { type: "number" },
+    filters: {
+      type: "object",
+      properties: {
+        category: nullableString,
+        max_price: nullableNumber,
+        min_price: nullableNumber,
+        tlds: { type: ["array", "null"], items: { type: "string" } },
+        sort: { type: "string" },
+        limit: { type: "number" },
+        min_length: nullableNumber,
+        max_length: nullableNumber,
+        exclude_hyphens: { type: "boolean" },
+        exclude_digits: { type: "boolean" },
+        premium: { type: ["string", "null"], enum: ["only", "exclude", null] },
+        contains: nullableString,
+        starts_with: nullableString,
+      },
+    },
+    offset: { type: "number" },
+    next_cursor: {
+      ...nullableString,
+      description: "Pass as `cursor` to get the next page; null on the last page",
+    },
+    domains: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          name: { type: "string" },
+          tld: { type: "string" },
+          price: nullableNumber,
+          price_formatted: nullableString,
+          renewal_price: nullableNumber,
+          premium: { type: "boolean" },
+          categories: { type: "array", items: { type: "string" } },
+          costs: costBreakdown,
+        },
+      },
+    },
+    budget: budgetSummary,
+  },
+  required: ["count", "domains"],
+};
+
+export const categoriesOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    total_available_domains: { type: "number" },
+    category_count: { type: "number" },
+    categories: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          slug: { type: "string" },
+          title: { type: "string" },
+          description: nullableString,
+          available_domains: { type: "number" },
+        },
+      },
+    },
+    local_cache: localCache,
+  },
+  required: ["categories"],
+};
+
+export const bulkCheckOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    checked_at: { type: "string" },
+    total: { type: "number" },
+    available_count: { type: "number" },
+    taken_count: { type: "number" },
+    failed_count: { type: "number" },
+    results: { type: "array", items: domainCheckOutputSchema },
+    failures: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          error: { type: "string" },
+        },
+      },
+    },
+    budget: budgetSummary,
+  },
+  required: ["total", "results", "failures"],
+};
+
+const watchedDomain = {
+  type: "object",
+  properties: {
+    domain: { type: "string" },
+    note: nullableString,
+    added_at: { type: "string" },
+    last_checked_at: nullableString,
+    snapshot: {
+      type: ["object", "null"],
+      properties: {
+        available: { type: "boolean" },
+        status: domainStatus,
+        purchase_price: nullableNumber,
+        renewal_price: nullableNumber,
+        premium: { type: "boolean" },
+        expires_at: nullableString,
+      },
+    },
+  },
+};
+
+const watchChange = {
+  type: "object",
+  properties: {
+    domain: { type: "string" },
+    type: {
+      type: "string",
+      enum: ["status", "purchase_price", "renewal_price", "premium", "expiring"],
+    },
+    detected_at: { type: "string" },
+    message: { type: "string" },
+    previous: {},
+    current: {},
+  },
+};
+
+export const watchOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    domain: { type: "string" },
+    watched: { type: "boolean" },
+    lookup_error: nullableString,
+    domains: { type: "array", items: watchedDomain },
+  },
+  required: ["domain", "watched", "domains"],
+};
+
+export const watchlistRefreshOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    refreshed_at: { type: "string" },
+    checked: { type: "number" },
+    changes: { type: "array", items: watchChange },
+    expiring_soon: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          expires_at: { type: "string" },
+          days_left: { type: "number" },
+        },
+      },
+    },
+    failures: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          error: { type: "string" },
+        },
+      },
+    },
+  },
+  required: ["checked", "changes", "expiring_soon", "failures"],
+};
+
+const ownedDomain = {
+  type: "object",
+  properties: {
+    domain: { type: "string" },
+    note: nullableString,
+    added_at: { type: "string" },
+    expires_at: nullableString,
+    renewal_price: nullableNumber,
+    renewal_price_override: nullableNumber,
+    last_refreshed_at: nullableString,
+  },
+};
+
+const periodCost = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      period: { type: "string" },
+      renewals: { type: "number" },
+      cost: { type: "number" },
+      unpriced: { type: "number" },
+    },
+  },
+};
+
+export const portfolioOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    domain: { type: "string" },
+    owned: { type: "boolean" },
+    lookup_error: nullableString,
+    domains: { type: "array", items: ownedDomain },
+  },
+  required: ["domain", "owned", "domains"],
+};
+
+export const portfolioRefreshOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    refreshed_at: { type: "string" },
+    checked: { type: "number" },
+    updated: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          field: { type: "string", enum: ["expires_at", "renewal_price"] },
+          previous: { type: ["string", "number", "null"] },
+          current: { type: ["string", "number", "null"] },
+        },
+      },
+    },
+    lapsed: { type: "array", items: { type: "string" } },
+    failures: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          error: { type: "string" },
+        },
+      },
+    },
+  },
+  required: ["checked", "updated", "lapsed", "failures"],
+};
+
+export const portfolioForecastOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    generated_at: { type: "string" },
+    horizon_months: { type: "number" },
+    domain_count: { type: "number" },
+    total_cost: { type: "number" },
+    unpriced_renewals: { type: "number" },
+    renewals: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          due_at: { type: "string" },
+          renewal_price: nullableNumber,
+          overdue: { type: "boolean" },
+        },
+      },
+    },
+    by_month: periodCost,
+    by_quarter: periodCost,
+    by_year: periodCost,
+    within_days: { type: "number" },
+    expiring_soon: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          expires_at: { type: "string" },
+          days_left: { type: "number" },
+        },
+      },
+    },
+    missing_expiry: { type: "array", items: { type: "string" } },
+  },
+  required: ["total_cost", "renewals", "by_month", "by_quarter", "by_year", "expiring_soon"],
+};
+
+export const compareOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    compared_at: { type: "string" },
+    weights: {
+      type: "object",
+      properties: {
+        memorability: { type: "number" },
+        brandability: { type: "number" },
+        length: { type: "number" },
+        pronunciation: { type: "number" },
+        seo: { type: "number" },
+        overall: { type: "number" },
+        price: { type: "number" },
+      },
+    },
+    rows: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          rank: { type: "number" },
+          domain: { type: "string" },
+          available: { type: ["boolean", "null"] },
+          status: { type: ["string", "null"] },
+          purchase_price: nullableNumber,
+          renewal_price: nullableNumber,
+          premium: { type: "boolean" },
+          scores: analyzeScores,
+          price_score: nullableNumber,
+          weighted_score: nullableNumber,
+        },
+      },
+    },
+    recommendation: nullableString,
+    failures: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          error: { type: "string" },
+        },
+      },
+    },
+  },
+  required: ["rows", "failures"],
+};
+
+export const variationsOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    base: { type: "string" },
+    checked_at: { type: "string" },
+    generated_count: { type: "number" },
+    checked_count: { type: "number" },
+    available_count: { type: "number" },
+    tlds: { type: ["array", "null"], items: { type: "string" } },
+    available: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          name: { type: "string" },
+          tld: { type: "string" },
+          rule: {
+            type: "string",
+            enum: ["prefix", "suffix", "plural", "hyphenated", "vowel_drop", "word_swap"],
+          },
+          purchase_price: nullableNumber,
+          renewal_price: nullableNumber,
+          premium: { type: "boolean" },
+        },
+      },
+    },
+    failures: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          domain: { type: "string" },
+          error: { type: "string" },
+        },
+      },
+    },
+  },
+  required: ["base", "available", "failures"],
+};
+
+export const historyOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    query: {
+      type: "object",
+      properties: {
+        domain: nullableString,
+        tool: nullableString,
+        since: nullableString,
+        until: nullableString,
+        status: nullableString,
+        limit: { type: "number" },
+      },
+    },
+    total_matches: { type: "number" },
+    count: { type: "number" },
+    rows: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          recorded_at: { type: "string" },
+          tool: { type: "string" },
+          domain: nullableString,
+          status: nullableString,
+          available: { type: ["boolean", "null"] },
+          purchase_price: nullableNumber,
+          renewal_price: nullableNumber,
+          checked_at: nullableString,
+          error: nullableString,
+        },
+      },
+    },
+  },
+  required: ["total_matches", "rows"],
+};
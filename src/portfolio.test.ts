@@ -0,0 +1,158 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import {
+  createPortfolio,
+  exportBudgetCsv,
+  exportCalendar,
+  forecastRenewals,
+  parseExpiryDate,
+  type OwnedDomain,
+} from "./portfolio.js";
+import type { DomainCheckResult } from "./types.js";
+
+const NOW = Date.parse("2026-10-15T12:00:00Z");
+
+function owned(domain: string, overrides: Partial<OwnedDomain> = {}): OwnedDomain {
+  return {
+    domain,
+    note: null,
+    added_at: "2026-01-01T00:00:00.000Z",
+    expires_at: null,
+    renewal_price: null,
+    renewal_price_override: null,
+    last_refreshed_at: null,
+    ...overrides,
+  };
+}
+
+const DOMAINS = [
+  owned("acme.com", { expires_at: "2026-11-20T00:00:00.000Z", renewal_price: 14.99, note: "main, keep" }),
+  owned("acme.io", { expires_at: "2027-02-01T00:00:00.000Z", renewal_price: 59.99, renewal_price_override: 45 }),
+  owned("acme.dev", { expires_at: "2026-10-01T00:00:00.000Z" }),
+  owned("acme.net"),
+];
+
+describe("forecastRenewals", () => {
+  it("totals renewals by period and flags what it cannot price", () => {
+    const forecast = forecastRenewals(DOMAINS, { months: 12, withinDays: 30 }, NOW);
+    assert.deepEqual(
+      forecast.renewals.map((r) => `${r.due_at.slice(0, 10)} ${r.domain} ${r.renewal_price}`),
+      [
+        "2026-10-15 acme.dev null",
+        "2026-11-20 acme.com 14.99",
+        "2027-02-01 acme.io 45",
+        "2027-10-01 acme.dev null",
+      ]
+    );
+    assert.equal(forecast.renewals[0].overdue, true);
+    assert.equal(forecast.total_cost, 59.99);
+    assert.equal(forecast.unpriced_renewals, 2);
+    assert.deepEqual(forecast.missing_expiry, ["acme.net"]);
+    assert.deepEqual(forecast.by_quarter.map((q) => [q.period, q.cost]), [
+      ["2026-Q4", 14.99],
+      ["2027-Q1", 45],
+      ["2027-Q4", 0],
+    ]);
+    assert.deepEqual(forecast.expiring_soon.map((e) => e.domain), ["acme.dev"]);
+  });
+
+  it("repeats renewals yearly over longer horizons", () => {
+    const forecast = forecastRenewals([DOMAINS[0]], { months: 36, withinDays: 30 }, NOW);
+    assert.deepEqual(
+      forecast.renewals.map((r) => r.due_at.slice(0, 10)),
+      ["2026-11-20", "2027-11-20", "2028-11-20"]
+    );
+  });
+});
+
+describe("exportBudgetCsv", () => {
+  it("writes one row per renewal and a total row", () => {
+    const forecast = forecastRenewals(DOMAINS, { months: 12, withinDays: 30 }, NOW);
+    assert.deepEqual(exportBudgetCsv(forecast, DOMAINS).split("\n"), [
+      "domain,due_date,month,quarter,renewal_price,overdue,note",
+      "acme.dev,2026-10-15,2026-10,2026-Q4,,yes,",
+      'acme.com,2026-11-20,2026-11,2026-Q4,14.99,,"main, keep"',
+      "acme.io,2027-02-01,2027-02,2027-Q1,45.00,,",
+      "acme.dev,2027-10-01,2027-10,2027-Q4,,,",
+      "TOTAL,,,,59.99,,",
+    ]);
+  });
+});
+
+describe("exportCalendar", () => {
+  it("writes an all-day event with reminders for each dated domain", () => {
+    const ics = exportCalendar(DOMAINS, NOW);
+    const lines = ics.split("\r\n");
+    assert.equal(lines[0], "BEGIN:VCALENDAR");
+    assert.ok(ics.endsWith("END:VCALENDAR\r\n"));
+    assert.equal(lines.filter((l) => l === "BEGIN:VEVENT").length, 3);
+    assert.equal(lines.filter((l) => l === "BEGIN:VALARM").length, 6);
+    assert.ok(lines.includes("UID:acme.com-renewal@agentdomainservice.com"));
+    assert.ok(lines.includes("DTSTART;VALUE=DATE:20261120"));
+    assert.ok(lines.includes("DTEND;VALUE=DATE:20261121"));
+    assert.ok(lines.includes("DTSTAMP:20261015T120000Z"));
+    assert.ok(
+      ics
+        .replace(/\r\n /g, "")
+        .includes("DESCRIPTION:acme.com expires on 2026-11-20. Renewal price: $14.99. main\\, keep\r\n")
+    );
+  });
+
+  it("folds long lines at 75 octets", () => {
+    const long = owned("acme.com", { expires_at: "2026-11-20T00:00:00.000Z", note: "é".repeat(80) });
+    for (const line of exportCalendar([long], NOW).split("\r\n")) {
+      assert.ok(Buffer.byteLength(line) <= 75, line);
+    }
+  });
+});
+
+describe("portfolio", () => {
+  function lookup(domain: string, overrides: Partial<DomainCheckResult> = {}): DomainCheckResult {
+    return {
+      domain,
+      available: false,
+      status: "registered",
+      checked_at: new Date().toISOString(),
+      expires_at: "2027-05-01T00:00:00Z",
+      source: "api",
+      purchase_price: null,
+      renewal_price: null,
+      premium: false,
+      ...overrides,
+    };
+  }
+
+  it("keeps values given by the owner and what a bad lookup cannot replace", async () => {
+    const filePath = join(await mkdtemp(join(tmpdir(), "portfolio-test-")), "portfolio.json");
+    let next: DomainCheckResult | Error = lookup("acme.com");
+    const portfolio = createPortfolio(filePath, async () => {
+      if (next instanceof Error) throw next;
+      return next;
+    });
+
+    const added = await portfolio.add("acme.com", {
+      note: null,
+      expiresAt: parseExpiryDate("2027-06-01"),
+      renewalPrice: 9.5,
+    });
+    assert.equal(added.lookupError, null);
+    assert.equal(added.entry.expires_at, "2027-06-01T00:00:00.000Z");
+    assert.equal(added.entry.renewal_price_override, 9.5);
+
+    next = lookup("acme.com", { expires_at: "not a date", renewal_price: 14.99 });
+    const refreshed = await portfolio.refresh({ concurrency: 2 });
+    assert.deepEqual(refreshed.updated.map((u) => u.field), ["renewal_price"]);
+    const [entry] = await portfolio.list();
+    assert.equal(entry.expires_at, "2027-06-01T00:00:00.000Z");
+
+    next = new Error("upstream down");
+    const failed = await portfolio.refresh({ concurrency: 2 });
+    assert.deepEqual(failed.failures, [{ domain: "acme.com", error: "upstream down" }]);
+
+    next = lookup("acme.com", { available: true, status: "available" });
+    assert.deepEqual((await portfolio.refresh({ concurrency: 2 })).lapsed, ["acme.com"]);
+  });
+});
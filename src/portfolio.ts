@@ -0,0 +1,480 @@
+import { mapWithConcurrency } from "./concurrency.js";
+import { InvalidInputError } from "./errors.js";
+import { csvCell } from "./format.js";
+import { readJsonFile, writeJsonFile } from "./json-store.js";
+import type { DomainCheckResult } from "./types.js";
+
+/**
+ * Portfolio of domains the team owns.
+ *
+ * Each owned domain keeps its expiry date and renewal price, refreshed
+ * through the availability lookup. From those the portfolio forecasts
+ * renewal costs by month, quarter, and year, and exports the deadlines as
+ * an iCalendar file and the costs as a CSV budget sheet.
+ */
+
+export interface OwnedDomain {
+  domain: string;
+  note: string | null;
+  added_at: string;
+  expires_at: string | null;
+  /** Renewal price from the last lookup */
+  renewal_price: number | null;
+  /** Price the team actually pays, e.g. a registrar discount; wins over the lookup */
+  renewal_price_override: number | null;
+  last_refreshed_at: string | null;
+}
+
+export interface PortfolioRefreshResult {
+  refreshed_at: string;
+  checked: number;
+  updated: Array<{
+    domain: string;
+    field: "expires_at" | "renewal_price";
+    previous: string | number | null;
+    current: string | number | null;
+  }>;
+  /** Owned domains the lookup reports as available: the registration may have lapsed */
+  lapsed: string[];
+  failures: Array<{
+    domain: string;
+    error: string;
+  }>;
+}
+
+export interface PortfolioRenewal {
+  domain: string;
+  due_at: string;
+  /** Override or looked-up price; null when neither is known */
+  renewal_price: number | null;
+  /** The expiry date has already passed */
+  overdue: boolean;
+}
+
+export interface PortfolioPeriodCost {
+  period: string;
+  renewals: number;
+  cost: number;
+  /** Renewals in the period without a known price */
+  unpriced: number;
+}
+
+export interface PortfolioForecast {
+  generated_at: string;
+  horizon_months: number;
+  domain_count: number;
+  total_cost: number;
+  unpriced_renewals: number;
+  renewals: PortfolioRenewal[];
+  by_month: PortfolioPeriodCost[];
+  by_quarter: PortfolioPeriodCost[];
+  by_year: PortfolioPeriodCost[];
+  within_days: number;
+  expiring_soon: Array<{
+    domain: string;
+    expires_at: string;
+    days_left: number;
+  }>;
+  /** Owned domains with no known expiry date, left out of the forecast */
+  missing_expiry: string[];
+}
+
+export const PORTFOLIO_EXPORT_FORMATS = ["ics", "csv"] as const;
+export type PortfolioExportFormat = (typeof PORTFOLIO_EXPORT_FORMATS)[number];
+
+interface PortfolioData {
+  domains: OwnedDomain[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Calendar reminders before each renewal deadline */
+const REMINDER_DAYS = [30, 7];
+const BUDGET_COLUMNS = ["domain", "due_date", "month", "quarter", "renewal_price", "overdue", "note"];
+
+function daysUntil(date: string, now: number): number {
+  return Math.floor((Date.parse(date) - now) / DAY_MS);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function priceOf(entry: OwnedDomain): number | null {
+  return entry.renewal_price_override ?? entry.renewal_price;
+}
+
+/**
+ * Check an expiry date argument and return it as an ISO timestamp
+ */
+export function parseExpiryDate(value: string): string {
+  const time = Date.parse(value.trim());
+  if (Number.isNaN(time)) {
+    throw new InvalidInputError(`expires_at must be a date such as 2027-03-31`);
+  }
+  return new Date(time).toISOString();
+}
+
+/** "2026-11-05T..." -> month, quarter, and year keys */
+function periods(date: string): { month: string; quarter: string; year: string } {
+  const year = date.slice(0, 4);
+  const month = Number(date.slice(5, 7));
+  return {
+    month: date.slice(0, 7),
+    quarter: `${year}-Q${Math.ceil(month / 3)}`,
+    year,
+  };
+}
+
+function addYears(date: string, years: number): string {
+  const d = new Date(date);
+  d.setUTCFullYear(d.getUTCFullYear() + years);
+  return d.toISOString();
+}
+
+function totalsBy(
+  renewals: PortfolioRenewal[],
+  key: (renewal: PortfolioRenewal) => string
+): PortfolioPeriodCost[] {
+  const totals = new Map<string, PortfolioPeriodCost>();
+  for (const renewal of renewals) {
+    const period = key(renewal);
+    const total = totals.get(period) ?? { period, renewals: 0, cost: 0, unpriced: 0 };
+    total.renewals++;
+    if (renewal.renewal_price === null) {
+      total.unpriced++;
+    } else {
+      total.cost = round(total.cost + renewal.renewal_price);
+    }
+    totals.set(period, total);
+  }
+  return [...totals.values()].sort((a, b) => a.period.localeCompare(b.period));
+}
+
+/**
+ * Forecast renewals due within the next `months` months. A domain past
+ * its expiry date counts as due now; later renewals recur yearly.
+ */
+export function forecastRenewals(
+  domains: OwnedDomain[],
+  options: { months: number; withinDays: number },
+  now: number = Date.now()
+): PortfolioForecast {
+  const end = new Date(now);
+  end.setUTCMonth(end.getUTCMonth() + options.months);
+  const nowIso = new Date(now).toISOString();
+
+  const renewals: PortfolioRenewal[] = [];
+  const expiring: PortfolioForecast["expiring_soon"] = [];
+  const missing: string[] = [];
+  for (const entry of domains) {
+    if (!entry.expires_at) {
+      missing.push(entry.domain);
+      continue;
+    }
+    const daysLeft = daysUntil(entry.expires_at, now);
+    if (daysLeft <= options.withinDays) {
+      expiring.push({ domain: entry.domain, expires_at: entry.expires_at, days_left: daysLeft });
+    }
+    const price = priceOf(entry);
+    if (daysLeft < 0) {
+      renewals.push({ domain: entry.domain, due_at: nowIso, renewal_price: price, overdue: true });
+    }
+    // Later renewals fall on the anniversaries of the expiry date
+    for (let year = 0; ; year++) {
+      const due = addYears(entry.expires_at, year);
+      if (Date.parse(due) > end.getTime()) break;
+      if (Date.parse(due) > now) {
+        renewals.push({ domain: entry.domain, due_at: due, renewal_price: price, overdue: false });
+      }
+    }
+  }
+  renewals.sort((a, b) => a.due_at.localeCompare(b.due_at) || a.domain.localeCompare(b.domain));
+  expiring.sort((a, b) => a.days_left - b.days_left);
+
+  const priced = renewals.filter((r) => r.renewal_price !== null);
+  return {
+    generated_at: nowIso,
+    horizon_months: options.months,
+    domain_count: domains.length,
+    total_cost: round(priced.reduce((sum, r) => sum + r.renewal_price!, 0)),
+    unpriced_renewals: renewals.length - priced.length,
+    renewals,
+    by_month: totalsBy(renewals, (r) => periods(r.due_at).month),
+    by_quarter: totalsBy(renewals, (r) => periods(r.due_at).quarter),
+    by_year: totalsBy(renewals, (r) => periods(r.due_at).year),
+    within_days: options.withinDays,
+    expiring_soon: expiring,
+    missing_expiry: missing,
+  };
+}
+
+/**
+ * Render the forecast's renewals as a CSV budget sheet, with a total row
+ */
+export function exportBudgetCsv(forecast: PortfolioForecast, domains: OwnedDomain[]): string {
+  const notes = new Map(domains.map((d) => [d.domain, d.note]));
+  const rows = forecast.renewals.map((r) => {
+    const { month, quarter } = periods(r.due_at);
+    const row: Record<string, unknown> = {
+      domain: r.domain,
+      due_date: r.due_at.slice(0, 10),
+      month,
+      quarter,
+      renewal_price: r.renewal_price?.toFixed(2),
+      overdue: r.overdue ? "yes" : "",
+      note: notes.get(r.domain),
+    };
+    return BUDGET_COLUMNS.map((c) => csvCell(row[c])).join(",");
+  });
+  const total = BUDGET_COLUMNS.map((c) =>
+    c === "domain" ? "TOTAL" : c === "renewal_price" ? forecast.total_cost.toFixed(2) : ""
+  ).join(",");
+  return [BUDGET_COLUMNS.join(","), ...rows, total].join("\n");
+}
+
+/** Escape text for an iCalendar property value (RFC 5545, 3.3.11) */
+function icsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Fold content lines longer than 75 octets (RFC 5545, 3.1) */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut)) > 75) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = ` ${rest.slice(cut)}`;
+  }
+  parts.push(rest);
+  return parts.join("\r\n");
+}
+
+function icsDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, "");
+}
+
+function icsTimestamp(date: string): string {
+  return `${date.slice(0, 19).replace(/[-:]/g, "")}Z`;
+}
+
+/**
+ * Render each owned domain's next expiry as an all-day calendar event,
+ * with reminders ahead of it
+ */
+export function exportCalendar(domains: OwnedDomain[], now: number = Date.now()): string {
+  const stamp = icsTimestamp(new Date(now).toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//AgentDomainService//Domain Portfolio//EN",
+    "CALSCALE:GREGORIAN",
+    "X-WR-CALNAME:Domain renewals",
+  ];
+  for (const entry of domains) {
+    if (!entry.expires_at) continue;
+    const price = priceOf(entry);
+    const description = [
+      `${entry.domain} expires on ${entry.expires_at.slice(0, 10)}.`,
+      price !== null ? `Renewal price: $${price.toFixed(2)}.` : null,
+      entry.note,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${entry.domain}-renewal@agentdomainservice.com`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(entry.expires_at)}`,
+      `DTEND;VALUE=DATE:${icsDate(new Date(Date.parse(entry.expires_at) + DAY_MS).toISOString())}`,
+      `SUMMARY:${icsText(`Renew ${entry.domain}`)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      "TRANSP:TRANSPARENT"
+    );
+    for (const days of REMINDER_DAYS) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${icsText(`${entry.domain} expires in ${days} days`)}`,
+        `TRIGGER:-P${days}D`,
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Create a portfolio persisted to the given JSON file
+ */
+export function createPortfolio(
+  filePath: string,
+  checkDomain: (domain: string) => Promise<DomainCheckResult>
+) {
+  let data: PortfolioData | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load(): Promise<PortfolioData> {
+    if (!data) {
+      data = await readJsonFile<PortfolioData>(filePath, { domains: [] });
+    }
+    return data;
+  }
+
+  async function save(): Promise<void> {
+    if (data) await writeJsonFile(filePath, data);
+  }
+
+  // Serialize operations so concurrent tool calls cannot clobber the file
+  function exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const next = queue.then(operation);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Take the expiry date and renewal price from a lookup, keeping what is
+   * already known when the lookup has no value
+   */
+  function apply(
+    entry: OwnedDomain,
+    result: DomainCheckResult,
+    now: string
+  ): PortfolioRefreshResult["updated"] {
+    const updated: PortfolioRefreshResult["updated"] = [];
+    // Stored in one format so a differently written timestamp is not a
+    // change; a date that does not parse leaves the known one in place
+    const time = result.expires_at ? Date.parse(result.expires_at) : NaN;
+    const expiresAt = Number.isNaN(time) ? null : new Date(time).toISOString();
+    if (expiresAt && expiresAt !== entry.expires_at) {
+      updated.push({
+        domain: entry.domain,
+        field: "expires_at",
+        previous: entry.expires_at,
+        current: expiresAt,
+      });
+      entry.expires_at = expiresAt;
+    }
+    if (result.renewal_price !== null && result.renewal_price !== entry.renewal_price) {
+      updated.push({
+        domain: entry.domain,
+        field: "renewal_price",
+        previous: entry.renewal_price,
+        current: result.renewal_price,
+      });
+      entry.renewal_price = result.renewal_price;
+    }
+    entry.last_refreshed_at = now;
+    return updated;
+  }
+
+  return {
+    list(): Promise<OwnedDomain[]> {
+      return exclusive(async () => (await load()).domains);
+    },
+
+    /**
+     * Add or update an owned domain. Values given here are kept; a lookup
+     * fills in what is missing, and a failed lookup does not stop the add.
+     */
+    add(
+      domain: string,
+      details: {
+        note: string | null;
+        expiresAt: string | null;
+        renewalPrice: number | null;
+      }
+    ): Promise<{ entry: OwnedDomain; lookupError: string | null }> {
+      return exclusive(async () => {
+        const store = await load();
+        const now = new Date().toISOString();
+        let entry = store.domains.find((d) => d.domain === domain);
+        if (!entry) {
+          entry = {
+            domain,
+            note: null,
+            added_at: now,
+            expires_at: null,
+            renewal_price: null,
+            renewal_price_override: null,
+            last_refreshed_at: null,
+          };
+          store.domains.push(entry);
+        }
+        if (details.note !== null) entry.note = details.note;
+        if (details.renewalPrice !== null) entry.renewal_price_override = details.renewalPrice;
+
+        let lookupError: string | null = null;
+        try {
+          apply(entry, await checkDomain(domain), now);
+        } catch (error) {
+          lookupError = error instanceof Error ? error.message : "Unknown error";
+        }
+        // The owner knows the expiry date better than any lookup
+        if (details.expiresAt !== null) entry.expires_at = details.expiresAt;
+        await save();
+        return { entry, lookupError };
+      });
+    },
+
+    /**
+     * Remove an owned domain; returns false if it was not in the portfolio
+     */
+    remove(domain: string): Promise<boolean> {
+      return exclusive(async () => {
+        const store = await load();
+        const before = store.domains.length;
+        store.domains = store.domains.filter((d) => d.domain !== domain);
+        if (store.domains.length === before) return false;
+        await save();
+        return true;
+      });
+    },
+
+    /**
+     * Re-check every owned domain's expiry date and renewal price
+     */
+    refresh(options: { concurrency: number }): Promise<PortfolioRefreshResult> {
+      return exclusive(async () => {
+        const store = await load();
+        const settled = await mapWithConcurrency(
+          store.domains,
+          options.concurrency,
+          (entry) => checkDomain(entry.domain)
+        );
+
+        const now = new Date().toISOString();
+        const updated: PortfolioRefreshResult["updated"] = [];
+        const lapsed: string[] = [];
+        const failures: PortfolioRefreshResult["failures"] = [];
+        settled.forEach((outcome, i) => {
+          const entry = store.domains[i];
+          if (!outcome.ok) {
+            const message =
+              outcome.error instanceof Error ? outcome.error.message : "Unknown error";
+            failures.push({ domain: entry.domain, error: message });
+            return;
+          }
+          if (outcome.value.available) {
+            lapsed.push(entry.domain);
+          }
+          updated.push(...apply(entry, outcome.value, now));
+        });
+        await save();
+
+        return {
+          refreshed_at: now,
+          checked: store.domains.length - failures.length,
+          updated,
+          lapsed,
+          failures,
+        };
+      });
+    },
+  };
+}
+
+export type Portfolio = ReturnType<typeof createPortfolio>;
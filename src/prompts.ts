@@ -0,0 +1,141 @@
+import { InvalidInputError } from "./errors.js";
+
+/**
+ * Guided prompts for common naming workflows. Each prompt expands into a
+ * user message that walks the model through the tools in order, so clients
+ * can offer them as one-click flows.
+ */
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(args: Record<string, string>): string;
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: "name_my_startup",
+    description:
+      "Find a name and domain for a new startup: brainstorm, explore, analyze, then shortlist",
+    arguments: [
+      {
+        name: "description",
+        description: "What the startup does (e.g., 'AI bookkeeping for freelancers')",
+        required: true,
+      },
+      {
+        name: "budget",
+        description: "Maximum first-year price in USD (optional)",
+      },
+      {
+        name: "tlds",
+        description: "Preferred TLDs, comma-separated (optional, e.g. 'com, io')",
+      },
+    ],
+    render(args) {
+      const constraints: string[] = [];
+      if (args.budget) constraints.push(`- Budget: at most $${args.budget} for the first year`);
+      if (args.tlds) constraints.push(`- Preferred TLDs: ${args.tlds}`);
+      return [
+        `I'm naming a new startup: ${args.description}`,
+        "",
+        ...(constraints.length > 0 ? ["Constraints:", ...constraints, ""] : []),
+        "Please work through this step by step:",
+        "1. Use brainstorm_domains with my description to generate candidate names.",
+        "2. For the 3-5 most promising names, use explore_name to see which TLDs are available.",
+        "3. Use analyze_domain on the best available option for each name.",
+        "4. Give me a shortlist of the top 3 available domains, with price, scores, and a one-line reason for each, and recommend one.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "find_cheap_domain",
+    description: "Find an inexpensive available domain in a category",
+    arguments: [
+      {
+        name: "category",
+        description: "Category slug (e.g., 'ai-agents'); see the categories://all resource",
+        required: true,
+      },
+      {
+        name: "max_price",
+        description: "Maximum price in USD (default: 15)",
+      },
+    ],
+    render(args) {
+      const maxPrice = args.max_price || "15";
+      return [
+        `Find me a cheap domain in the "${args.category}" category for at most $${maxPrice}.`,
+        "",
+        "Please work through this step by step:",
+        `1. Use search_domains with category "${args.category}", max_price ${maxPrice}, and sort "price_asc". If the category is not recognized, use list_categories to find the closest match.`,
+        "2. Use check_domains on the 10 most appealing results to confirm they are still available.",
+        "3. Use analyze_domain on the top 3 confirmed domains.",
+        "4. Recommend the best value, showing price, renewal price, and overall score for each finalist.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "check_before_buying",
+    description: "Sanity-check a domain before registering it",
+    arguments: [
+      {
+        name: "domain",
+        description: "The domain you plan to buy (e.g., 'quickpulse.ai')",
+        required: true,
+      },
+    ],
+    render(args) {
+      return [
+        `I'm about to register ${args.domain}. Before I do:`,
+        "",
+        "1. Use check_domain to confirm it is available and show the purchase and renewal price.",
+        "2. Use analyze_domain to score it and list pros and cons.",
+        "3. Use explore_name on the name to see which other TLDs are free, in case I should register those too.",
+        "4. Tell me whether to go ahead, and flag anything that would make you hesitate.",
+      ].join("\n");
+    },
+  },
+];
+
+/**
+ * Prompt metadata for prompts/list
+ */
+export function listPrompts() {
+  return PROMPTS.map(({ name, description, arguments: args }) => ({
+    name,
+    description,
+    arguments: args,
+  }));
+}
+
+/**
+ * Expand a prompt into the messages for prompts/get
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new InvalidInputError(`Unknown prompt: ${name}`);
+  }
+  for (const arg of prompt.arguments) {
+    if (arg.required && !args[arg.name]) {
+      throw new InvalidInputError(`Prompt "${name}" requires the "${arg.name}" argument`);
+    }
+  }
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: "user" as const,
+        content: { type: "text" as const, text: prompt.render(args) },
+      },
+    ],
+  };
+}
@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createAgentDomainClient } from "./client.js";
+import {
+  InvalidInputError,
+  NotFoundError,
+  UpstreamUnavailableError,
+  type AgentDomainError,
+} from "./errors.js";
+import { createFixtureFetch, FIXTURE_RDAP_SERVER } from "./fixtures.js";
+import { checkWithFailover, type AvailabilityProvider } from "./providers.js";
+import { createRdapProvider } from "./rdap.js";
+import type { DomainCheckResult } from "./types.js";
+
+function answering(name: AvailabilityProvider["name"], available: boolean): AvailabilityProvider {
+  return {
+    name,
+    check: async (domain) => ({
+      domain,
+      available,
+      status: available ? "available" : "registered",
+      checked_at: "2026-10-15T12:00:00.000Z",
+      expires_at: null,
+      source: "unknown",
+      purchase_price: null,
+      renewal_price: null,
+      premium: false,
+    }),
+  };
+}
+
+function failing(name: AvailabilityProvider["name"], error: Error): AvailabilityProvider {
+  return {
+    name,
+    check: async () => {
+      throw error;
+    },
+  };
+}
+
+/** An RDAP provider whose only server answers with this response */
+function rdapAnswering(status: number, body: unknown = {}) {
+  const urls: string[] = [];
+  const provider = createRdapProvider({
+    servers: { com: "https://rdap.test/com/v1/" },
+    http: { maxRetries: 0 },
+    fetch: async (input) => {
+      urls.push(String(input));
+      return new Response(JSON.stringify(body), { status });
+    },
+  });
+  return { provider, urls };
+}
+
+describe("checkWithFailover", () => {
+  it("moves on when a provider fails and records why", async () => {
+    const result = await checkWithFailover(
+      [failing("api", new UpstreamUnavailableError("HTTP 503")), answering("rdap", true)],
+      "quickpulse.com"
+    );
+    assert.equal(result.available, true);
+    assert.equal(result.source, "rdap");
+    assert.deepEqual(result.provider_failures, [{ provider: "api", error: "HTTP 503" }]);
+  });
+
+  it("does not retry invalid input elsewhere", async () => {
+    let rdapCalls = 0;
+    const rdap = answering("rdap", true);
+    await assert.rejects(
+      checkWithFailover(
+        [
+          failing("api", new InvalidInputError("Invalid domain")),
+          { ...rdap, check: (d) => (rdapCalls++, rdap.check(d)) },
+        ],
+        "quickpulse.com"
+      ),
+      InvalidInputError
+    );
+    assert.equal(rdapCalls, 0);
+  });
+
+  it("lists every failure, classified by the first", async () => {
+    await assert.rejects(
+      checkWithFailover(
+        [
+          failing("api", new UpstreamUnavailableError("HTTP 503")),
+          failing("rdap", new NotFoundError("No RDAP server is known for a.zz")),
+        ],
+        "a.zz"
+      ),
+      (error: AgentDomainError) => {
+        assert.equal(error.category, "upstream_unavailable");
+        assert.match(error.message, /^Every provider failed: api: HTTP 503; rdap: No RDAP server/);
+        return true;
+      }
+    );
+  });
+});
+
+describe("rdap provider", () => {
+  it("reads a registration and its expiry", async () => {
+    const { provider, urls } = rdapAnswering(200, {
+      objectClassName: "domain",
+      events: [
+        { eventAction: "registration", eventDate: "2001-01-01T00:00:00Z" },
+        { eventAction: "expiration", eventDate: "2027-01-01T00:00:00Z" },
+      ],
+    });
+    const result = await provider.check("example.com");
+    assert.deepEqual(urls, ["https://rdap.test/com/v1/domain/example.com"]);
+    assert.equal(result.available, false);
+    assert.equal(result.status, "registered");
+    assert.equal(result.expires_at, "2027-01-01T00:00:00Z");
+    assert.equal(result.purchase_price, null);
+  });
+
+  it("treats a 404 as available", async () => {
+    const result = await rdapAnswering(404, { errorCode: 404 }).provider.check("quickpulse.com");
+    assert.equal(result.available, true);
+    assert.equal(result.status, "available");
+  });
+
+  it("reports other failures and unknown TLDs", async () => {
+    await assert.rejects(
+      rdapAnswering(503).provider.check("quickpulse.com"),
+      (error: AgentDomainError) =>
+        error.category === "upstream_unavailable" && /^RDAP lookup failed: /.test(error.message)
+    );
+    await assert.rejects(rdapAnswering(200, "<html>").provider.check("quickpulse.com"), {
+      name: "MalformedResponseError",
+    });
+    await assert.rejects(
+      createRdapProvider({ servers: {} }).check("quickpulse.notatld"),
+      NotFoundError
+    );
+  });
+});
+
+describe("client failover", () => {
+  const fixtures = createFixtureFetch();
+
+  /** A client on the fixture backend whose API is down */
+  function clientWithApiDown(providers?: Array<"api" | "rdap">) {
+    return createAgentDomainClient({
+      http: { maxRetries: 0 },
+      providers,
+      fetch: async (input, init) =>
+        String(input).includes("/api/")
+          ? new Response("down", { status: 503 })
+          : fixtures(input, init),
+      rdap: { servers: { "*": FIXTURE_RDAP_SERVER }, fetch: fixtures },
+    });
+  }
+
+  it("answers lookups from RDAP while the API is down", async () => {
+    const client = clientWithApiDown();
+    const taken: DomainCheckResult = await client.checkDomain("example.com");
+    assert.equal(taken.available, false);
+    assert.equal(taken.source, "rdap");
+    assert.equal(taken.provider_failures?.[0].provider, "api");
+
+    const free = await client.checkDomain("quickpulse.dev");
+    assert.equal(free.available, true);
+    assert.equal(free.purchase_price, null);
+  });
+
+  it("explores TLD by TLD when the explore endpoint fails", async () => {
+    const result = await clientWithApiDown().exploreName("quickpulse", false, ["com", "io"]);
+    assert.deepEqual(result.results.map((r) => r.tld), ["com", "io"]);
+    assert.equal(result.name, "quickpulse");
+  });
+
+  it("fails as the API failed when RDAP is not configured", async () => {
+    await assert.rejects(
+      clientWithApiDown(["api"]).checkDomain("quickpulse.com"),
+      (error: AgentDomainError) =>
+        error.category === "upstream_unavailable" && /^Failed to check domain: /.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { AgentDomainError, InvalidInputError, toAgentDomainError } from "./errors.js";
+import type { DomainCheckResult } from "./types.js";
+
+/**
+ * Availability providers.
+ *
+ * A provider answers whether one normalized domain is taken. Lookups try
+ * the configured providers in order and move on to the next when one
+ * cannot answer, so an outage of one source does not stop every check.
+ */
+
+export const PROVIDER_NAMES = ["api", "rdap"] as const;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+export const DEFAULT_PROVIDERS: ProviderName[] = ["api", "rdap"];
+
+export interface AvailabilityProvider {
+  name: ProviderName;
+  /** Check an ASCII, normalized domain */
+  check(domain: string): Promise<DomainCheckResult>;
+}
+
+/**
+ * Check a domain with each provider in turn until one answers. Invalid
+ * input is not retried elsewhere, since every provider would reject it.
+ * The result's `source` names the provider that answered.
+ */
+export async function checkWithFailover(
+  providers: AvailabilityProvider[],
+  domain: string
+): Promise<DomainCheckResult> {
+  const failures: NonNullable<DomainCheckResult["provider_failures"]> = [];
+  let firstError: AgentDomainError | null = null;
+
+  for (const provider of providers) {
+    try {
+      const result = await provider.check(domain);
+      return {
+        ...result,
+        source: provider.name,
+        ...(failures.length > 0 ? { provider_failures: failures } : {}),
+      };
+    } catch (error) {
+      const classified = toAgentDomainError(error);
+      if (classified instanceof InvalidInputError) {
+        throw classified;
+      }
+      failures.push({ provider: provider.name, error: classified.message });
+      firstError ??= classified;
+    }
+  }
+
+  if (!firstError) {
+    throw new InvalidInputError("No availability providers are configured");
+  }
+  if (failures.length > 1) {
+    firstError.message = `Every provider failed: ${failures
+      .map((f) => `${f.provider}: ${f.error}`)
+      .join("; ")}`;
+  }
+  // Classified by the primary provider's failure, with every reason listed
+  throw firstError;
+}
@@ -0,0 +1,66 @@
+/**
+ * Multi-label public suffixes: a hand-picked subset of the ICANN section of
+ * the Public Suffix List (https://publicsuffix.org), covering the common
+ * commercial second-level registries. It is not the full list, so a domain
+ * under an unlisted suffix is read as a subdomain of that suffix. Single-label
+ * TLDs need no entry: any final label is treated as a suffix on its own.
+ */
+export const MULTI_LABEL_SUFFIXES: ReadonlySet<string> = new Set([
+  // United Kingdom
+  "ac.uk", "co.uk", "gov.uk", "ltd.uk", "me.uk", "net.uk", "nhs.uk", "org.uk",
+  "plc.uk", "police.uk", "sch.uk",
+  // Australia
+  "asn.au", "com.au", "edu.au", "gov.au", "id.au", "net.au", "org.au",
+  // New Zealand
+  "ac.nz", "co.nz", "geek.nz", "gen.nz", "govt.nz", "kiwi.nz", "maori.nz",
+  "net.nz", "org.nz", "school.nz",
+  // Japan
+  "ac.jp", "co.jp", "ed.jp", "go.jp", "gr.jp", "lg.jp", "ne.jp", "or.jp",
+  // South Korea
+  "ac.kr", "co.kr", "go.kr", "ne.kr", "or.kr", "re.kr",
+  // China, Hong Kong, Taiwan
+  "com.cn", "edu.cn", "gov.cn", "net.cn", "org.cn",
+  "com.hk", "edu.hk", "gov.hk", "net.hk", "org.hk",
+  "com.tw", "edu.tw", "gov.tw", "net.tw", "org.tw",
+  // South and Southeast Asia
+  "co.in", "firm.in", "gen.in", "ind.in", "net.in", "org.in",
+  "com.sg", "edu.sg", "gov.sg", "net.sg", "org.sg",
+  "com.my", "net.my", "org.my",
+  "co.id", "or.id", "web.id",
+  "co.th", "in.th", "or.th",
+  "com.ph", "net.ph", "org.ph",
+  "com.vn", "net.vn", "org.vn",
+  "com.pk", "net.pk", "org.pk",
+  "com.bd", "net.bd", "org.bd",
+  // Middle East
+  "co.il", "org.il", "net.il", "ac.il",
+  "com.tr", "net.tr", "org.tr", "gen.tr",
+  "com.sa", "net.sa", "org.sa",
+  "co.ae", "net.ae", "org.ae",
+  "com.eg", "net.eg", "org.eg",
+  // Africa
+  "co.za", "net.za", "org.za", "web.za",
+  "co.ke", "or.ke", "ne.ke",
+  "com.ng", "net.ng", "org.ng",
+  "co.tz", "co.ug",
+  // Americas
+  "com.ar", "net.ar", "org.ar",
+  "com.br", "net.br", "org.br", "blog.br", "eco.br", "app.br", "dev.br",
+  "com.co", "net.co", "nom.co", "org.co",
+  "com.mx", "net.mx", "org.mx",
+  "com.pe", "net.pe", "org.pe",
+  "com.uy", "net.uy", "org.uy",
+  "com.ve", "net.ve", "org.ve",
+  "co.cr", "com.ec", "com.gt", "com.pa", "com.py", "com.do", "com.bo",
+  // Europe
+  "co.at", "or.at",
+  "com.cy", "com.es", "nom.es", "org.es",
+  "com.gr", "net.gr", "org.gr",
+  "co.hu", "org.hu",
+  "com.mt", "net.mt", "org.mt",
+  "com.pl", "net.pl", "org.pl", "biz.pl", "info.pl",
+  "com.pt", "org.pt",
+  "com.ro", "org.ro",
+  "com.ru", "net.ru", "org.ru",
+  "com.ua", "net.ua", "org.ua", "in.ua",
+]);
@@ -0,0 +1,33 @@
+/**
+ * RDAP base URLs by TLD, from the IANA RDAP bootstrap registry
+ * (https://data.iana.org/rdap/dns.json). Only commonly searched TLDs are
+ * bundled; others can be added with the rdapServers setting. Several
+ * ccTLDs, such as .de, run no RDAP service at all.
+ */
+export const RDAP_SERVERS: Readonly<Record<string, string>> = {
+  // Verisign
+  com: "https://rdap.verisign.com/com/v1",
+  net: "https://rdap.verisign.com/net/v1",
+  // Public Interest Registry
+  org: "https://rdap.publicinterestregistry.org/rdap",
+  // Identity Digital
+  info: "https://rdap.identitydigital.services/rdap",
+  io: "https://rdap.identitydigital.services/rdap",
+  ai: "https://rdap.identitydigital.services/rdap",
+  sh: "https://rdap.identitydigital.services/rdap",
+  // Google Registry
+  app: "https://pubapi.registry.google/rdap",
+  dev: "https://pubapi.registry.google/rdap",
+  page: "https://pubapi.registry.google/rdap",
+  // CentralNic
+  xyz: "https://rdap.centralnic.com/xyz",
+  site: "https://rdap.centralnic.com/site",
+  online: "https://rdap.centralnic.com/online",
+  store: "https://rdap.centralnic.com/store",
+  tech: "https://rdap.centralnic.com/tech",
+  // European ccTLDs
+  uk: "https://rdap.nominet.uk/uk",
+  fr: "https://rdap.nic.fr",
+  nl: "https://rdap.sidn.nl",
+  ch: "https://rdap.nic.ch",
+};
@@ -0,0 +1,209 @@
+import { MalformedResponseError, NotFoundError, toAgentDomainError } from "./errors.js";
+import { createHttpClient, HttpError, type HttpClient, type HttpClientOptions } from "./http.js";
+import { eppStatus, estimateDrop } from "./lifecycle.js";
+import { RDAP_SERVERS } from "./rdap-servers.js";
+import type { DomainCheckResult, DomainDetailsResult } from "./types.js";
+
+/**
+ * RDAP availability provider.
+ *
+ * Asks the registry's own RDAP server about a domain: 404 means nothing
+ * is registered under that name, 200 means it is taken. Registries
+ * publish no prices, so prices are always null. The same response also
+ * gives the registration details behind domain_details.
+ */
+
+type Json = Record<string, unknown>;
+
+export interface RdapProviderOptions {
+  /**
+   * TLD to RDAP base URL, taking precedence over the bundled map. A "*"
+   * entry answers for every TLD, e.g. to point all lookups at a local
+   * stand-in.
+   */
+  servers?: Record<string, string>;
+  userAgent?: string;
+  /** Transport to use instead of the global fetch */
+  fetch?: typeof fetch;
+  /** Timeout, retry, and rate limit settings, applied per RDAP server */
+  http?: Omit<HttpClientOptions, "baseUrl" | "headers" | "fetch">;
+}
+
+/**
+ * Find the RDAP server for a domain's suffix: the full suffix first
+ * ("co.uk"), then its last label ("uk")
+ */
+function serverFor(domain: string, servers: Record<string, string>): string | null {
+  const suffix = domain.slice(domain.indexOf(".") + 1);
+  const tld = suffix.slice(suffix.lastIndexOf(".") + 1);
+  return (
+    servers[suffix] ??
+    servers[tld] ??
+    servers["*"] ??
+    RDAP_SERVERS[suffix] ??
+    RDAP_SERVERS[tld] ??
+    null
+  );
+}
+
+function asObject(value: unknown): Json | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Json) : null;
+}
+
+function asList(value: unknown): Json[] {
+  return Array.isArray(value)
+    ? value.map(asObject).filter((item): item is Json => item !== null)
+    : [];
+}
+
+/** The date of an RDAP event, such as "registration" or "expiration" */
+function eventDate(domain: Json, action: string): string | null {
+  const event = asList(domain.events).find((e) => e.eventAction === action);
+  return typeof event?.eventDate === "string" ? event.eventDate : null;
+}
+
+/** The formatted name from an entity's jCard, e.g. ["fn", {}, "text", "Registrar Inc."] */
+function vcardName(entity: Json): string | null {
+  const vcard = entity.vcardArray;
+  if (!Array.isArray(vcard) || !Array.isArray(vcard[1])) return null;
+  for (const property of vcard[1] as unknown[]) {
+    if (Array.isArray(property) && property[0] === "fn" && typeof property[3] === "string") {
+      return property[3];
+    }
+  }
+  return null;
+}
+
+function registrar(domain: Json): DomainDetailsResult["registrar"] {
+  const entity = asList(domain.entities).find(
+    (e) => Array.isArray(e.roles) && e.roles.includes("registrar")
+  );
+  if (!entity) return null;
+  const ianaId = asList(entity.publicIds).find((id) => id.type === "IANA Registrar ID");
+  return {
+    name: vcardName(entity),
+    iana_id: typeof ianaId?.identifier === "string" ? ianaId.identifier : null,
+  };
+}
+
+/** EPP status codes, de-duplicated */
+function statuses(domain: Json): string[] {
+  const values = Array.isArray(domain.status) ? domain.status : [];
+  return [
+    ...new Set(values.filter((s): s is string => typeof s === "string").map(eppStatus)),
+  ];
+}
+
+function nameservers(domain: Json): string[] {
+  return asList(domain.nameservers).flatMap((ns) =>
+    typeof ns.ldhName === "string" ? [ns.ldhName.toLowerCase()] : []
+  );
+}
+
+function dnssec(domain: Json): DomainDetailsResult["dnssec"] {
+  const signed = asObject(domain.secureDNS)?.delegationSigned;
+  return typeof signed === "boolean" ? (signed ? "signed" : "unsigned") : "unknown";
+}
+
+function domainObject(body: unknown): Json {
+  const domain = asObject(body);
+  if (!domain) {
+    throw new MalformedResponseError("RDAP response is not an object");
+  }
+  return domain;
+}
+
+/**
+ * Create an RDAP provider
+ */
+export function createRdapProvider(options: RdapProviderOptions = {}) {
+  const servers = options.servers ?? {};
+  // One client per server, so each registry gets its own rate limit
+  const clients = new Map<string, HttpClient>();
+
+  function clientFor(baseUrl: string): HttpClient {
+    let client = clients.get(baseUrl);
+    if (!client) {
+      client = createHttpClient({
+        ...options.http,
+        baseUrl,
+        headers: {
+          Accept: "application/rdap+json, application/json",
+          ...(options.userAgent ? { "User-Agent": options.userAgent } : {}),
+        },
+        fetch: options.fetch,
+      });
+      clients.set(baseUrl, client);
+    }
+    return client;
+  }
+
+  /**
+   * Fetch a domain's RDAP object, or null when the registry has none
+   */
+  async function lookup(domain: string): Promise<Json | null> {
+    const baseUrl = serverFor(domain, servers);
+    if (!baseUrl) {
+      throw new NotFoundError(`No RDAP server is known for ${domain}`);
+    }
+    try {
+      const body = await clientFor(baseUrl.replace(/\/+$/, "")).request<unknown>(
+        `/domain/${encodeURIComponent(domain)}`
+      );
+      return domainObject(body);
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 404) {
+        return null;
+      }
+      const classified = toAgentDomainError(error);
+      classified.message = `RDAP lookup failed: ${classified.message}`;
+      throw classified;
+    }
+  }
+
+  /**
+   * Check an ASCII, normalized domain
+   */
+  async function check(domain: string): Promise<DomainCheckResult> {
+    const found = await lookup(domain);
+    return {
+      domain,
+      available: !found,
+      status: found ? "registered" : "available",
+      checked_at: new Date().toISOString(),
+      expires_at: found ? eventDate(found, "expiration") : null,
+      source: "rdap",
+      purchase_price: null,
+      renewal_price: null,
+      premium: false,
+    };
+  }
+
+  /**
+   * Registration details for an ASCII, normalized domain
+   */
+  async function details(domain: string): Promise<DomainDetailsResult> {
+    const found = await lookup(domain);
+    const info = {
+      registered: !!found,
+      updated_at: found ? eventDate(found, "last changed") : null,
+      expires_at: found ? eventDate(found, "expiration") : null,
+      statuses: found ? statuses(found) : [],
+    };
+    return {
+      domain,
+      checked_at: new Date().toISOString(),
+      source: "rdap",
+      registrar: found ? registrar(found) : null,
+      created_at: found ? eventDate(found, "registration") : null,
+      ...info,
+      nameservers: found ? nameservers(found) : [],
+      dnssec: found ? dnssec(found) : "unknown",
+      drop: estimateDrop(info),
+    };
+  }
+
+  return { name: "rdap" as const, check, details };
+}
+
+export type RdapProvider = ReturnType<typeof createRdapProvider>;
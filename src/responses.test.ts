@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MalformedResponseError } from "./errors.js";
+import {
+  parseAnalyze,
+  parseBrainstorm,
+  parseCategories,
+  parseDomainCheck,
+  parseExplore,
+  parseSearch,
+} from "./responses.js";
+
+function malformed(message: RegExp) {
+  return (error: unknown) => error instanceof MalformedResponseError && message.test(error.message);
+}
+
+describe("parseDomainCheck", () => {
+  it("fills in missing details and accepts numeric strings", () => {
+    const result = parseDomainCheck({ domain: "quickpulse.com", status: "available", purchase_price: "10.99" });
+    assert.equal(result.available, true);
+    assert.equal(result.status, "available");
+    assert.equal(result.purchase_price, 10.99);
+    assert.equal(result.renewal_price, null);
+    assert.equal(result.premium, false);
+    assert.equal(result.source, "unknown");
+    assert.equal(result.expires_at, null);
+  });
+
+  it("derives the status from availability and the reverse", () => {
+    assert.equal(parseDomainCheck({ domain: "a.com", available: false }).status, "registered");
+    assert.equal(parseDomainCheck({ domain: "a.com", status: "registered" }).available, false);
+    // An unknown status is ignored in favor of the availability flag
+    assert.equal(parseDomainCheck({ domain: "a.com", available: true, status: "parked" }).status, "available");
+  });
+
+  it("rejects responses that do not identify the result", () => {
+    assert.throws(() => parseDomainCheck("<html>"), malformed(/lookup response is not an object/));
+    assert.throws(() => parseDomainCheck({ available: true }), malformed(/domain is missing/));
+    assert.throws(() => parseDomainCheck({ domain: "a.com" }), malformed(/neither availability nor status/));
+  });
+});
+
+describe("list responses", () => {
+  it("drop unreadable items but keep the rest", () => {
+    const explore = parseExplore({
+      name: "quickpulse",
+      results: [{ domain: "quickpulse.io", available: true }, { available: true }, "junk"],
+    });
+    assert.deepEqual(explore.results.map((r) => r.tld), ["io"]);
+    assert.equal(explore.summary, '1 of 1 TLDs available for "quickpulse"');
+
+    const search = parseSearch({ domains: [{ domain: "quick.co.uk", price: 5 }, { price: 1 }] });
+    assert.equal(search.count, 1);
+    assert.equal(search.domains[0].tld, "co.uk");
+    assert.equal(search.domains[0].price_formatted, "$5.00");
+  });
+
+  it("reject a response whose list is missing", () => {
+    assert.throws(() => parseExplore({ name: "x" }), malformed(/results is missing or not a list/));
+    assert.throws(() => parseBrainstorm({}, "ideas"), malformed(/suggestions is missing/));
+    assert.throws(() => parseCategories({ categories: {} }), malformed(/categories is missing/));
+  });
+
+  it("default brainstorm and category details", () => {
+    const brainstorm = parseBrainstorm({ suggestions: [{ domain: "pulsely.io" }] }, "ideas");
+    assert.equal(brainstorm.prompt, "ideas");
+    assert.deepEqual(brainstorm.suggestions[0], {
+      name: "pulsely",
+      domain: "pulsely.io",
+      tld: "io",
+      available: false,
+      purchase_price: null,
+      premium: false,
+    });
+
+    const categories = parseCategories({
+      categories: [{ slug: "ai", available_domains: 3 }, { slug: "fintech", available_domains: 4 }],
+    });
+    assert.equal(categories.categories[0].title, "ai");
+    assert.equal(categories.total_available_domains, 7);
+  });
+});
+
+describe("parseAnalyze", () => {
+  it("keeps the requested domain and tolerates missing scores", () => {
+    const result = parseAnalyze({ pros: ["short", 3] }, "quickpulse.io");
+    assert.equal(result.domain, "quickpulse.io");
+    assert.equal(result.scores, null);
+    assert.deepEqual(result.pros, ["short"]);
+    assert.equal(result.verdict, null);
+  });
+});
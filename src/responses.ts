@@ -0,0 +1,288 @@
+import { MalformedResponseError } from "./errors.js";
+import type {
+  AnalyzeResult,
+  BrainstormResult,
+  CategoriesResult,
+  DomainCheckResult,
+  ExploreResult,
+  SearchResult,
+} from "./types.js";
+
+/**
+ * Runtime checks for API responses.
+ *
+ * Each parser rebuilds a response as its typed shape. Fields that identify
+ * the result (a domain, the list of results) are required and a response
+ * without them is rejected as malformed. Missing or mistyped detail fields
+ * get safe defaults instead, so partial data still formats cleanly.
+ */
+
+type Json = Record<string, unknown>;
+type DomainStatus = DomainCheckResult["status"];
+
+const DOMAIN_STATUSES: readonly string[] = ["available", "registered", "unknown"];
+
+function object(value: unknown, path: string): Json {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new MalformedResponseError(`${path} is not an object`);
+  }
+  return value as Json;
+}
+
+function array(obj: Json, key: string, path: string): unknown[] {
+  const value = obj[key];
+  if (!Array.isArray(value)) {
+    throw new MalformedResponseError(`${path}.${key} is missing or not a list`);
+  }
+  return value;
+}
+
+function requiredString(obj: Json, key: string, path: string): string {
+  const value = obj[key];
+  if (typeof value !== "string" || !value) {
+    throw new MalformedResponseError(`${path}.${key} is missing`);
+  }
+  return value;
+}
+
+function string(obj: Json, key: string): string | null {
+  const value = obj[key];
+  return typeof value === "string" ? value : null;
+}
+
+/** Numbers may arrive as numeric strings */
+function number(obj: Json, key: string): number | null {
+  const value = obj[key];
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return null;
+}
+
+function boolean(obj: Json, key: string): boolean | null {
+  const value = obj[key];
+  return typeof value === "boolean" ? value : null;
+}
+
+function strings(obj: Json, key: string): string[] {
+  const value = obj[key];
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/**
+ * Parse every item of a list, dropping items that cannot be parsed;
+ * the whole response is only rejected if its list is missing
+ */
+function items<T>(list: unknown[], path: string, parse: (item: Json, path: string) => T): T[] {
+  const parsed: T[] = [];
+  list.forEach((item, i) => {
+    try {
+      parsed.push(parse(object(item, `${path}[${i}]`), `${path}[${i}]`));
+    } catch (error) {
+      if (!(error instanceof MalformedResponseError)) throw error;
+    }
+  });
+  return parsed;
+}
+
+/**
+ * Availability and status back each other up: either one is enough
+ */
+function availability(obj: Json, path: string): { available: boolean; status: DomainStatus } {
+  const available = boolean(obj, "available");
+  const rawStatus = string(obj, "status");
+  const status = rawStatus && DOMAIN_STATUSES.includes(rawStatus) ? (rawStatus as DomainStatus) : null;
+  if (available === null && status === null) {
+    throw new MalformedResponseError(`${path} has neither availability nor status`);
+  }
+  return {
+    available: available ?? status === "available",
+    status: status ?? (available ? "available" : "registered"),
+  };
+}
+
+/** "quick.co.uk" -> ["quick", "co.uk"] */
+function splitDomain(domain: string): [string, string] {
+  const dot = domain.indexOf(".");
+  return dot === -1 ? [domain, ""] : [domain.slice(0, dot), domain.slice(dot + 1)];
+}
+
+export function parseDomainCheck(value: unknown): DomainCheckResult {
+  const path = "lookup response";
+  const obj = object(value, path);
+  const domain = requiredString(obj, "domain", path);
+  const cache = obj.cache && typeof obj.cache === "object" ? (obj.cache as Json) : null;
+  const suggestions = Array.isArray(obj.suggestions)
+    ? items(obj.suggestions, `${path}.suggestions`, (s, p) => ({
+        domain: requiredString(s, "domain", p),
+        available: boolean(s, "available") ?? true,
+        purchase_price: number(s, "purchase_price"),
+        renewal_price: number(s, "renewal_price"),
+        premium: boolean(s, "premium") ?? false,
+      }))
+    : undefined;
+
+  return {
+    domain,
+    ...availability(obj, path),
+    checked_at: string(obj, "checked_at") ?? new Date().toISOString(),
+    expires_at: string(obj, "expires_at"),
+    source: string(obj, "source") ?? "unknown",
+    purchase_price: number(obj, "purchase_price"),
+    renewal_price: number(obj, "renewal_price"),
+    premium: boolean(obj, "premium") ?? false,
+    ...(cache
+      ? {
+          cache: {
+            hit: boolean(cache, "hit") ?? false,
+            ttl_seconds: number(cache, "ttl_seconds") ?? 0,
+            stale: boolean(cache, "stale") ?? false,
+          },
+        }
+      : {}),
+    ...(suggestions ? { suggestions } : {}),
+  };
+}
+
+export function parseExplore(value: unknown): ExploreResult {
+  const path = "explore response";
+  const obj = object(value, path);
+  const name = requiredString(obj, "name", path);
+  const results = items(array(obj, "results", path), `${path}.results`, (r, p) => {
+    const domain = string(r, "domain");
+    const tld = string(r, "tld") ?? (domain ? splitDomain(domain)[1] : null);
+    if (!tld) {
+      throw new MalformedResponseError(`${p} has neither a domain nor a TLD`);
+    }
+    return {
+      tld,
+      domain: domain ?? `${name}.${tld}`,
+      ...availability(r, p),
+      purchase_price: number(r, "purchase_price"),
+      renewal_price: number(r, "renewal_price"),
+      premium: boolean(r, "premium") ?? false,
+    };
+  });
+  const availableCount = results.filter((r) => r.available).length;
+
+  return {
+    name,
+    checked_at: string(obj, "checked_at") ?? new Date().toISOString(),
+    summary:
+      string(obj, "summary") ??
+      `${availableCount} of ${results.length} TLDs available for "${name}"`,
+    available_count: availableCount,
+    taken_count: results.length - availableCount,
+    tlds_checked: Array.isArray(obj.tlds_checked)
+      ? strings(obj, "tlds_checked")
+      : results.map((r) => r.tld),
+    results,
+  };
+}
+
+export function parseBrainstorm(value: unknown, prompt: string): BrainstormResult {
+  const path = "brainstorm response";
+  const obj = object(value, path);
+  const suggestions = items(array(obj, "suggestions", path), `${path}.suggestions`, (s, p) => {
+    const domain = requiredString(s, "domain", p);
+    const [label, suffix] = splitDomain(domain);
+    const renewal = number(s, "renewal_price");
+    return {
+      name: string(s, "name") ?? label,
+      domain,
+      tld: string(s, "tld") ?? suffix,
+      available: boolean(s, "available") ?? false,
+      purchase_price: number(s, "purchase_price"),
+      ...(renewal !== null ? { renewal_price: renewal } : {}),
+      premium: boolean(s, "premium") ?? false,
+    };
+  });
+
+  return {
+    prompt: string(obj, "prompt") ?? prompt,
+    generated_at: string(obj, "generated_at") ?? new Date().toISOString(),
+    suggestions,
+  };
+}
+
+export function parseAnalyze(value: unknown, domain: string): AnalyzeResult {
+  const path = "analyze response";
+  const obj = object(value, path);
+  const scores = obj.scores && typeof obj.scores === "object" ? (obj.scores as Json) : null;
+
+  return {
+    domain: string(obj, "domain") ?? domain,
+    scores: scores
+      ? {
+          memorability: number(scores, "memorability"),
+          brandability: number(scores, "brandability"),
+          length: number(scores, "length"),
+          pronunciation: number(scores, "pronunciation"),
+          seo: number(scores, "seo"),
+          overall: number(scores, "overall"),
+        }
+      : null,
+    pros: strings(obj, "pros"),
+    cons: strings(obj, "cons"),
+    verdict: string(obj, "verdict"),
+  };
+}
+
+export function parseSearch(value: unknown): SearchResult {
+  const path = "search response";
+  const obj = object(value, path);
+  const domains = items(array(obj, "domains", path), `${path}.domains`, (d, p) => {
+    const domain = requiredString(d, "domain", p);
+    const [label, suffix] = splitDomain(domain);
+    const price = number(d, "price");
+    const renewal = number(d, "renewal_price");
+    return {
+      domain,
+      name: string(d, "name") ?? label,
+      tld: string(d, "tld") ?? suffix,
+      price,
+      price_formatted:
+        string(d, "price_formatted") ?? (price !== null ? `$${price.toFixed(2)}` : null),
+      ...(renewal !== null ? { renewal_price: renewal } : {}),
+      premium: boolean(d, "premium") ?? false,
+      categories: strings(d, "categories"),
+    };
+  });
+  const filters = obj.filters && typeof obj.filters === "object" ? (obj.filters as Json) : {};
+
+  return {
+    count: domains.length,
+    filters: {
+      category: string(filters, "category"),
+      max_price: number(filters, "max_price"),
+      min_price: number(filters, "min_price"),
+      tlds: Array.isArray(filters.tlds) ? strings(filters, "tlds") : null,
+      sort: string(filters, "sort") ?? "price_asc",
+      limit: number(filters, "limit") ?? domains.length,
+    },
+    domains,
+  };
+}
+
+export function parseCategories(value: unknown): CategoriesResult {
+  const path = "categories response";
+  const obj = object(value, path);
+  const categories = items(array(obj, "categories", path), `${path}.categories`, (c, p) => {
+    const slug = requiredString(c, "slug", p);
+    return {
+      slug,
+      title: string(c, "title") ?? slug,
+      description: string(c, "description"),
+      available_domains: number(c, "available_domains") ?? 0,
+    };
+  });
+
+  return {
+    total_available_domains:
+      number(obj, "total_available_domains") ??
+      categories.reduce((sum, c) => sum + c.available_domains, 0),
+    category_count: categories.length,
+    categories,
+  };
+}
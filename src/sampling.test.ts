@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { InvalidInputError, toAgentDomainError } from "./errors.js";
+import { HttpError } from "./http.js";
+import { isApiUnavailable, parseDomainCandidates } from "./sampling.js";
+
+/** An API failure as the client reports it */
+function apiFailure(status: number | null): Error {
+  const error = toAgentDomainError(new HttpError(`HTTP ${status}`, status));
+  error.message = `Failed to brainstorm: ${error.message}`;
+  return error;
+}
+
+describe("isApiUnavailable", () => {
+  it("falls back on network, rate-limit and upstream failures", () => {
+    for (const status of [null, 408, 429, 401, 500, 503]) {
+      assert.equal(isApiUnavailable(apiFailure(status)), true, String(status));
+    }
+    assert.equal(isApiUnavailable(new HttpError("Request timed out", null)), true);
+  });
+
+  it("does not fall back when the API rejected the request", () => {
+    for (const status of [400, 404, 422]) {
+      assert.equal(isApiUnavailable(apiFailure(status)), false, String(status));
+    }
+    assert.equal(isApiUnavailable(new InvalidInputError("count must be positive")), false);
+    assert.equal(isApiUnavailable(new Error("Unexpected failure")), false);
+    assert.equal(isApiUnavailable("failed"), false);
+  });
+});
+
+describe("parseDomainCandidates", () => {
+  it("reads a JSON array, normalizing and deduplicating names", () => {
+    const text = 'Here you go: ["QuickPulse.com", "pulsely.io", "quickpulse.com", 42]';
+    assert.deepEqual(parseDomainCandidates(text, "com"), ["quickpulse.com", "pulsely.io"]);
+  });
+
+  it("reads one name per line and adds the default TLD to bare names", () => {
+    const text = "1. quickpulse\n- `pulsely.io`\n* not a name\n* bad_name!";
+    assert.deepEqual(parseDomainCandidates(text, "dev"), ["quickpulse.dev", "pulsely.io"]);
+  });
+});
@@ -0,0 +1,107 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { normalizeDomain } from "./domain.js";
+import { InvalidInputError, MalformedResponseError, toAgentDomainError } from "./errors.js";
+
+/**
+ * Brainstorming through MCP sampling: the connected client's own model
+ * suggests names, and the server verifies them like any other candidate.
+ * Used when the brainstorm endpoint is unavailable, or on request.
+ */
+
+const SAMPLING_MAX_TOKENS = 1000;
+const SAMPLING_TIMEOUT_MS = 120_000;
+
+const SYSTEM_PROMPT =
+  "You are a naming assistant. Suggest short, memorable, brandable domain names. " +
+  "Reply with only a JSON array of domain names including the TLD, for example " +
+  '["quickpulse.com", "pulsely.io"]. No commentary.';
+
+/**
+ * Whether the connected client can handle sampling requests
+ */
+export function supportsSampling(server: Server): boolean {
+  return Boolean(server.getClientCapabilities()?.sampling);
+}
+
+/**
+ * Whether a brainstorm failure means the API is unavailable: unreachable,
+ * timed out, rate limited or failing upstream. Only these fall back to
+ * sampling; a request the API rejected would fail there too.
+ */
+export function isApiUnavailable(error: unknown): boolean {
+  const { category } = toAgentDomainError(error);
+  return category === "upstream_unavailable" || category === "network" || category === "rate_limited";
+}
+
+/**
+ * Pull domain candidates out of a model reply. Accepts a JSON array or
+ * one name per line; bare names get the default TLD. Invalid names are
+ * dropped.
+ */
+export function parseDomainCandidates(text: string, defaultTld: string): string[] {
+  let items: unknown[] | null = null;
+  const array = text.match(/\[[\s\S]*\]/);
+  if (array) {
+    try {
+      const parsed = JSON.parse(array[0]) as unknown;
+      if (Array.isArray(parsed)) items = parsed;
+    } catch {
+      // Fall back to line parsing below
+    }
+  }
+  if (!items) {
+    items = text.split(/[\n,]+/);
+  }
+
+  const domains = new Set<string>();
+  for (const item of items) {
+    if (typeof item !== "string") continue;
+    const candidate = item
+      .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "")
+      .replace(/[`"'*]/g, "")
+      .trim();
+    if (!candidate || /\s/.test(candidate)) continue;
+    try {
+      const withTld = candidate.includes(".") ? candidate : `${candidate}.${defaultTld}`;
+      domains.add(normalizeDomain(withTld).domain);
+    } catch {
+      // Not a usable domain; skip it
+    }
+  }
+  return [...domains];
+}
+
+/**
+ * Ask the client's model for domain name candidates
+ */
+export async function sampleDomainNames(
+  server: Server,
+  prompt: string,
+  count: number
+): Promise<{ model: string; text: string }> {
+  if (!supportsSampling(server)) {
+    throw new InvalidInputError("The connected client does not support sampling");
+  }
+  const result = await server.createMessage(
+    {
+      systemPrompt: SYSTEM_PROMPT,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Suggest ${count} domain names for: ${prompt}`,
+          },
+        },
+      ],
+      maxTokens: SAMPLING_MAX_TOKENS,
+      temperature: 0.9,
+      includeContext: "none",
+    },
+    { timeout: SAMPLING_TIMEOUT_MS }
+  );
+  if (result.content.type !== "text") {
+    throw new MalformedResponseError("The client's model did not reply with text");
+  }
+  return { model: result.model, text: result.content.text };
+}
@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  collectSearchPage,
+  decodeCursor,
+  encodeCursor,
+  resolveSearchFilters,
+  searchParams,
+  type SearchArgs,
+  type SearchCursor,
+} from "./search.js";
+import type { SearchResult } from "./types.js";
+
+type Row = SearchResult["domains"][number];
+
+/** "a", "b", ..., "z", "ba", ...: names without digits, unique per index */
+function letters(i: number): string {
+  let name = "";
+  do {
+    name = String.fromCharCode(97 + (i % 26)) + name;
+    i = Math.floor(i / 26);
+  } while (i > 0);
+  return name;
+}
+
+function row(i: number): Row {
+  const name = i % 5 === 0 ? `go-${letters(i)}` : `site${letters(i)}`;
+  return {
+    domain: `${name}.com`,
+    name,
+    tld: "com",
+    price: i,
+    price_formatted: `$${i}`,
+    premium: i % 7 === 0,
+    categories: ["startup-names"],
+  };
+}
+
+const ROWS = Array.from({ length: 250 }, (_, i) => row(i));
+
+/**
+ * A fake upstream over `rows` that ignores filters. It honors offset and
+ * limit unless `ignoreOffset` is set. Every query is recorded.
+ */
+function upstream(rows: Row[], options: { ignoreOffset?: boolean } = {}) {
+  const queries: URLSearchParams[] = [];
+  const fetchBatch = async (params: URLSearchParams) => {
+    queries.push(new URLSearchParams(params));
+    const offset = options.ignoreOffset ? 0 : Number(params.get("offset") ?? 0);
+    return rows.slice(offset, offset + Number(params.get("limit")));
+  };
+  return { queries, fetchBatch };
+}
+
+type FetchBatch = ReturnType<typeof upstream>["fetchBatch"];
+
+/** One search_domains call: resolve the arguments and fill a page */
+async function searchPage(args: SearchArgs, fetchBatch: FetchBatch) {
+  const filters = resolveSearchFilters(args);
+  const offset = args.offset ?? 0;
+  const start: SearchCursor = args.cursor
+    ? decodeCursor(args.cursor, filters)
+    : { offset: 0, skip: offset, position: offset };
+  const { domains, next } = await collectSearchPage(filters, start, fetchBatch);
+  return {
+    domains: domains.map((d) => d.domain),
+    next_cursor: next ? encodeCursor(next, filters) : null,
+  };
+}
+
+async function allPages(args: SearchArgs, fetchBatch: FetchBatch) {
+  const names: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await searchPage({ ...args, cursor }, fetchBatch);
+    names.push(...page.domains);
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+  return names;
+}
+
+describe("search cursors", () => {
+  it("round-trip and reject other filters", () => {
+    const filters = resolveSearchFilters({ category: "startup-names" });
+    const token = encodeCursor({ offset: 100, skip: 3, position: 20 }, filters);
+    assert.deepEqual(decodeCursor(token, filters), { offset: 100, skip: 3, position: 20 });
+    assert.deepEqual(decodeCursor(token, { ...filters, limit: 50 }), {
+      offset: 100,
+      skip: 3,
+      position: 20,
+    });
+    assert.throws(
+      () => decodeCursor(token, resolveSearchFilters({ category: "fintech" })),
+      /different filters/
+    );
+    assert.throws(() => decodeCursor("not a cursor", filters), /Invalid cursor/);
+  });
+});
+
+describe("collectSearchPage", () => {
+  it("pages through every match exactly once across batches", async () => {
+    const expected = ROWS.filter((r) => !r.premium).map((r) => r.domain);
+    const paged = await allPages({ limit: 30, premium: "exclude" }, upstream(ROWS).fetchBatch);
+    assert.deepEqual(paged, expected);
+  });
+
+  it("only returns a next cursor when another match exists", async () => {
+    const { fetchBatch } = upstream(ROWS.slice(0, 100));
+    const first = await searchPage({ limit: 50 }, fetchBatch);
+    assert.ok(first.next_cursor);
+    const last = await searchPage({ limit: 50, cursor: first.next_cursor! }, fetchBatch);
+    assert.equal(last.domains.length, 50);
+    assert.equal(last.next_cursor, null);
+  });
+
+  it("does not invent rows when the API ignores offset", async () => {
+    const short = upstream(ROWS.slice(0, 30), { ignoreOffset: true });
+    const page = await searchPage({ limit: 50 }, short.fetchBatch);
+    assert.equal(page.domains.length, 30);
+    assert.equal(new Set(page.domains).size, 30);
+    assert.equal(page.next_cursor, null);
+
+    // A full batch repeated for every offset ends the results too
+    const repeating = upstream(ROWS, { ignoreOffset: true });
+    const paged = await allPages({ limit: 100, exclude_hyphens: true }, repeating.fetchBatch);
+    const firstBatch = ROWS.slice(0, 100).filter((r) => !r.name.includes("-"));
+    assert.deepEqual(paged, firstBatch.map((r) => r.domain));
+    assert.equal(repeating.queries.length, 2);
+  });
+
+  it("deduplicates repeated rows and stops at a short batch", async () => {
+    const rows = [...ROWS.slice(0, 10), ...ROWS.slice(5, 15)];
+    const { fetchBatch, queries } = upstream(rows);
+    const page = await searchPage({ limit: 100 }, fetchBatch);
+    assert.deepEqual(page.domains, ROWS.slice(0, 15).map((r) => r.domain));
+    assert.equal(page.next_cursor, null);
+    assert.equal(queries.length, 1);
+  });
+
+  it("honors a plain offset past the first batch", async () => {
+    const page = await searchPage({ limit: 3, offset: 120 }, upstream(ROWS).fetchBatch);
+    assert.deepEqual(page.domains, ROWS.slice(120, 123).map((r) => r.domain));
+  });
+});
+
+describe("search filters", () => {
+  it("keep local-only filters off the API and apply them locally", async () => {
+    const { fetchBatch, queries } = upstream(ROWS);
+    const args: SearchArgs = {
+      min_length: 5,
+      max_length: 7,
+      exclude_hyphens: true,
+      exclude_digits: true,
+      premium: "exclude",
+      contains: "te",
+      starts_with: "si",
+      min_price: 0,
+      limit: 100,
+    };
+    const paged = await allPages(args, fetchBatch);
+
+    assert.ok(queries.length > 0);
+    const localOnly = Object.keys(args).filter((key) => !["min_price", "limit"].includes(key));
+    for (const query of queries) {
+      for (const key of localOnly) {
+        assert.equal(query.has(key), false, key);
+      }
+      assert.equal(query.get("min_price"), "0");
+    }
+    const expected = ROWS.filter(
+      (r) =>
+        r.name.length >= 5 &&
+        r.name.length <= 7 &&
+        !r.name.includes("-") &&
+        !r.premium &&
+        r.name.includes("te") &&
+        r.name.startsWith("si")
+    ).map((r) => r.domain);
+    assert.ok(expected.length > 0);
+    assert.deepEqual(paged, expected);
+  });
+
+  it("reject contradictory ranges", () => {
+    assert.throws(() => resolveSearchFilters({ min_price: 20, max_price: 10 }), /min_price/);
+    assert.throws(() => resolveSearchFilters({ sort: "random" }), /Unknown sort/);
+    assert.equal(searchParams(resolveSearchFilters({})).get("sort"), "price_asc");
+  });
+});
@@ -0,0 +1,276 @@
+import { createHash } from "node:crypto";
+import { normalizeTld } from "./domain.js";
+import { InvalidInputError } from "./errors.js";
+import type { SearchResult } from "./types.js";
+
+/**
+ * search_domains filters and pagination.
+ *
+ * The API takes category, price, TLD and sort parameters; every filter is
+ * also applied locally, so results are the same whether or not the API
+ * honors one. Pages are addressed by an opaque cursor holding the upstream
+ * offset of the batch to resume in and how many of its matches were
+ * already returned.
+ */
+
+export const SEARCH_SORTS = ["price_asc", "price_desc", "newest"] as const;
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+// Rows asked of the API per request, and requests made per page at most
+const SEARCH_BATCH_SIZE = 100;
+const MAX_SEARCH_BATCHES = 5;
+
+/** Raw search_domains arguments */
+export interface SearchArgs {
+  category?: string;
+  max_price?: number;
+  min_price?: number;
+  tlds?: string[];
+  sort?: string;
+  limit?: number;
+  min_length?: number;
+  max_length?: number;
+  exclude_hyphens?: boolean;
+  exclude_digits?: boolean;
+  premium?: string;
+  contains?: string;
+  starts_with?: string;
+  cursor?: string;
+  offset?: number;
+}
+
+export type SearchFilters = Required<SearchResult["filters"]>;
+
+export interface SearchCursor {
+  /** Upstream offset of the batch to resume in */
+  offset: number;
+  /** Matches in that batch already returned */
+  skip: number;
+  /** Matches returned before the next page, for display */
+  position: number;
+}
+
+type SearchDomain = SearchResult["domains"][number];
+
+/** Filters the API has no parameter for, applied only locally */
+const LOCAL_ONLY_FILTERS = new Set([
+  "min_length",
+  "max_length",
+  "exclude_hyphens",
+  "exclude_digits",
+  "premium",
+  "contains",
+  "starts_with",
+]);
+
+function optionalNumber(value: unknown, name: string): number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new InvalidInputError(`${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+function optionalKeyword(value: unknown, name: string): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") {
+    throw new InvalidInputError(`${name} must be a string`);
+  }
+  const keyword = value.trim().toLowerCase();
+  return keyword || null;
+}
+
+/**
+ * Validate search arguments and fill in defaults
+ */
+export function resolveSearchFilters(args: SearchArgs): SearchFilters {
+  const sort = args.sort ?? "price_asc";
+  if (!(SEARCH_SORTS as readonly string[]).includes(sort)) {
+    throw new InvalidInputError(`Unknown sort "${sort}" (expected one of: ${SEARCH_SORTS.join(", ")})`);
+  }
+  const premium = args.premium ?? null;
+  if (premium !== null && premium !== "only" && premium !== "exclude") {
+    throw new InvalidInputError(`premium must be "only" or "exclude"`);
+  }
+
+  const filters: SearchFilters = {
+    category: args.category || null,
+    max_price: optionalNumber(args.max_price, "max_price"),
+    min_price: optionalNumber(args.min_price, "min_price"),
+    tlds: args.tlds && args.tlds.length > 0 ? args.tlds.map(normalizeTld) : null,
+    sort: sort as SearchSort,
+    limit: Math.min(
+      Math.max(Math.floor(args.limit ?? DEFAULT_SEARCH_LIMIT), 1),
+      MAX_SEARCH_LIMIT
+    ),
+    min_length: optionalNumber(args.min_length, "min_length"),
+    max_length: optionalNumber(args.max_length, "max_length"),
+    exclude_hyphens: args.exclude_hyphens === true,
+    exclude_digits: args.exclude_digits === true,
+    premium,
+    contains: optionalKeyword(args.contains, "contains"),
+    starts_with: optionalKeyword(args.starts_with, "starts_with"),
+  };
+
+  if (
+    filters.min_price !== null &&
+    filters.max_price !== null &&
+    filters.min_price > filters.max_price
+  ) {
+    throw new InvalidInputError("min_price cannot be greater than max_price");
+  }
+  if (
+    filters.min_length !== null &&
+    filters.max_length !== null &&
+    filters.min_length > filters.max_length
+  ) {
+    throw new InvalidInputError("min_length cannot be greater than max_length");
+  }
+  return filters;
+}
+
+/**
+ * Query parameters for the upstream search, without paging or local-only filters
+ */
+export function searchParams(filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (key === "limit" || LOCAL_ONLY_FILTERS.has(key)) continue;
+    if (value === null || value === false) continue;
+    params.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  return params;
+}
+
+/**
+ * Whether a search result passes every filter
+ */
+export function matchesSearchFilters(d: SearchDomain, filters: SearchFilters): boolean {
+  const name = d.name.toLowerCase();
+  if (filters.category && !d.categories.includes(filters.category)) return false;
+  if (filters.max_price !== null && (d.price === null || d.price > filters.max_price)) {
+    return false;
+  }
+  if (filters.min_price !== null && (d.price === null || d.price < filters.min_price)) {
+    return false;
+  }
+  if (filters.tlds && !filters.tlds.includes(d.tld)) return false;
+  if (filters.min_length !== null && name.length < filters.min_length) return false;
+  if (filters.max_length !== null && name.length > filters.max_length) return false;
+  if (filters.exclude_hyphens && name.includes("-")) return false;
+  if (filters.exclude_digits && /\d/.test(name)) return false;
+  if (filters.premium === "only" && !d.premium) return false;
+  if (filters.premium === "exclude" && d.premium) return false;
+  if (filters.contains && !name.includes(filters.contains)) return false;
+  if (filters.starts_with && !name.startsWith(filters.starts_with)) return false;
+  return true;
+}
+
+/**
+ * Fill one page of results from upstream batches, filtered locally.
+ *
+ * The API's offset parameter is not documented, so nothing here relies on
+ * it beyond asking: rows are deduplicated by domain, a batch that is short
+ * or brings no new domains ends the results, and a next cursor is only
+ * returned once a further match has been seen or the batch limit cut the
+ * scan short.
+ */
+export async function collectSearchPage(
+  filters: SearchFilters,
+  start: SearchCursor,
+  fetchBatch: (params: URLSearchParams) => Promise<SearchDomain[]>
+): Promise<{ domains: SearchDomain[]; next: SearchCursor | null }> {
+  const params = searchParams(filters);
+  params.set("limit", String(SEARCH_BATCH_SIZE));
+  const page: SearchDomain[] = [];
+  const seen = new Set<string>();
+  const returned = new Set<string>();
+  let upstreamOffset = start.offset;
+  let skip = start.skip;
+  const cursorAt = (offset: number, skipped: number): SearchCursor => ({
+    offset,
+    skip: skipped,
+    position: start.position + page.length,
+  });
+
+  for (let batch = 0; batch < MAX_SEARCH_BATCHES; batch++) {
+    params.set("offset", String(upstreamOffset));
+    const rows = await fetchBatch(params);
+
+    // Matches are counted per batch, so a cursor into this batch lines up
+    // with the same rows when the batch is fetched again
+    const batchMatches = new Set<string>();
+    let added = 0;
+    for (const row of rows) {
+      if (!seen.has(row.domain)) {
+        seen.add(row.domain);
+        added++;
+      }
+      if (!matchesSearchFilters(row, filters) || batchMatches.has(row.domain)) continue;
+      batchMatches.add(row.domain);
+      if (batchMatches.size <= skip || returned.has(row.domain)) continue;
+      if (page.length === filters.limit) {
+        return { domains: page, next: cursorAt(upstreamOffset, batchMatches.size - 1) };
+      }
+      page.push(row);
+      returned.add(row.domain);
+    }
+
+    if (rows.length < SEARCH_BATCH_SIZE || added === 0) {
+      return { domains: page, next: null };
+    }
+    upstreamOffset += rows.length;
+    // A plain offset can reach past this batch's matches
+    skip = Math.max(skip - batchMatches.size, 0);
+  }
+  return { domains: page, next: cursorAt(upstreamOffset, skip) };
+}
+
+/**
+ * Identify a filter set, so a cursor cannot be replayed against another
+ * query. The page size may change between pages.
+ */
+function fingerprint(filters: SearchFilters): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ ...filters, limit: null }))
+    .digest("base64url")
+    .slice(0, 12);
+}
+
+export function encodeCursor(cursor: SearchCursor, filters: SearchFilters): string {
+  return Buffer.from(
+    JSON.stringify({
+      o: cursor.offset,
+      s: cursor.skip,
+      p: cursor.position,
+      f: fingerprint(filters),
+    })
+  ).toString("base64url");
+}
+
+/**
+ * Read a next-page token, rejecting tokens from a different search
+ */
+export function decodeCursor(token: string, filters: SearchFilters): SearchCursor {
+  let decoded: { o?: unknown; s?: unknown; p?: unknown; f?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidInputError("Invalid cursor");
+  }
+  const { o, s, p, f } = decoded ?? {};
+  if (
+    ![o, s, p].every((n) => typeof n === "number" && Number.isInteger(n) && n >= 0)
+  ) {
+    throw new InvalidInputError("Invalid cursor");
+  }
+  if (f !== fingerprint(filters)) {
+    throw new InvalidInputError(
+      "Cursor belongs to a search with different filters; repeat the same filters or start over without a cursor"
+    );
+  }
+  return { offset: o as number, skip: s as number, position: p as number };
+}
@@ -0,0 +1,1850 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolRequest,
+  type CallToolResult,
+  type ReadResourceRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { join } from "node:path";
+import {
+  BRAINSTORM_MODES,
+  BRAINSTORM_STYLES,
+  MAX_BRAINSTORM_COUNT,
+  resolveBrainstormConstraints,
+  type BrainstormConstraintArgs,
+  type BrainstormMode,
+  type BrainstormSource,
+} from "./brainstorm.js";
+import {
+  clientOptionsFromConfig,
+  createAgentDomainClient,
+  DEFAULT_BRAINSTORM_ROUNDS,
+  DEFAULT_BULK_CONCURRENCY,
+  MAX_BULK_CONCURRENCY,
+} from "./client.js";
+import {
+  DEFAULT_COMPARE_WEIGHTS,
+  rankDomains,
+  resolveWeights,
+  type CompareWeights,
+} from "./compare.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { loadConfig, resolveExploreTlds } from "./config.js";
+import {
+  costBreakdown,
+  DEFAULT_BUDGET_YEARS,
+  resolveBudget,
+  withBrainstormCosts,
+  withBulkCosts,
+  withDomainCosts,
+  withExploreCosts,
+  withSearchCosts,
+} from "./costs.js";
+import {
+  DEFAULT_SWAP_TLDS,
+  DEFENSIVE_TECHNIQUES,
+  generateDefensiveVariants,
+  RISK_LEVELS,
+  type DefensiveTechnique,
+  type RiskLevel,
+} from "./defensive.js";
+import {
+  displayDomain,
+  normalizeDomain,
+  normalizeTld,
+  type NormalizedDomain,
+} from "./domain.js";
+import {
+  describeError,
+  InvalidInputError,
+  NotFoundError,
+  toAgentDomainError,
+  type ErrorInfo,
+} from "./errors.js";
+import {
+  formatAnalyzeResult,
+  formatBrainstormResult,
+  formatBulkCheckResult,
+  formatCategoriesResult,
+  formatCompareResult,
+  formatDefensiveVariantsResult,
+  formatDomainDetailsResult,
+  formatDomainResult,
+  formatExploreResult,
+  formatHistoryResult,
+  formatPortfolioForecast,
+  formatPortfolioRefreshResult,
+  formatPortfolioResult,
+  formatSearchResult,
+  formatVariationsResult,
+  formatWatchlistRefreshResult,
+  formatWatchResult,
+} from "./format.js";
+import {
+  createHistory,
+  EXPORT_FORMATS,
+  exportHistory,
+  HISTORY_STATUSES,
+  type ExportFormat,
+  type HistoryStatus,
+} from "./history.js";
+import { startHttpTransport } from "./http-server.js";
+import { getPrompt, listPrompts } from "./prompts.js";
+import type {
+  BrainstormResult,
+  CompareResult,
+  DefensiveVariantsResult,
+  VariationsResult,
+} from "./types.js";
+import {
+  analyzeOutputSchema,
+  brainstormOutputSchema,
+  bulkCheckOutputSchema,
+  categoriesOutputSchema,
+  compareOutputSchema,
+  defensiveVariantsOutputSchema,
+  domainCheckOutputSchema,
+  domainDetailsOutputSchema,
+  exploreOutputSchema,
+  historyOutputSchema,
+  portfolioForecastOutputSchema,
+  portfolioOutputSchema,
+  portfolioRefreshOutputSchema,
+  searchOutputSchema,
+  variationsOutputSchema,
+  watchOutputSchema,
+  watchlistRefreshOutputSchema,
+} from "./output-schemas.js";
+import {
+  createPortfolio,
+  exportBudgetCsv,
+  exportCalendar,
+  forecastRenewals,
+  parseExpiryDate,
+  PORTFOLIO_EXPORT_FORMATS,
+  type PortfolioExportFormat,
+} from "./portfolio.js";
+import {
+  isApiUnavailable,
+  parseDomainCandidates,
+  sampleDomainNames,
+  supportsSampling,
+} from "./sampling.js";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  SEARCH_SORTS,
+  type SearchArgs,
+} from "./search.js";
+import { generateVariations } from "./variations.js";
+import { createWatchlist } from "./watchlist.js";
+
+const config = loadConfig();
+const MAX_BULK_DOMAINS = 200;
+const MAX_COMPARE_DOMAINS = 10;
+const MAX_BRAINSTORM_ROUNDS = 5;
+const DEFAULT_VARIATION_LIMIT = 20;
+const MAX_VARIATION_LIMIT = 50;
+const DEFAULT_VARIATION_MAX_LENGTH = 20;
+const DEFAULT_DEFENSIVE_LIMIT = 60;
+
+const client = createAgentDomainClient(clientOptionsFromConfig(config));
+const {
+  checkDomain,
+  checkDomains,
+  domainDetails,
+  exploreName,
+  apiBrainstormSource,
+  brainstormDomains,
+  analyzeDomain,
+  searchDomains,
+  listCategories,
+  cachedCategories,
+  lookupRenewalPrices,
+} = client;
+
+const DEFAULT_EXPIRY_WARNING_DAYS = 30;
+const WATCHLIST_URI = "watchlist://domains";
+const WATCHLIST_CHANGES_URI = "watchlist://changes";
+const PORTFOLIO_URI = "portfolio://domains";
+const PORTFOLIO_CALENDAR_URI = "portfolio://renewals.ics";
+const PORTFOLIO_BUDGET_URI = "portfolio://budget.csv";
+const DEFAULT_FORECAST_MONTHS = 12;
+const MAX_FORECAST_MONTHS = 60;
+const CATEGORIES_URI = "categories://all";
+const CATEGORY_URI_PREFIX = "categories://";
+const CATEGORY_RESOURCE_LIMIT = 50;
+
+// Watchlist checks always bypass the cache so changes are seen promptly
+const watchlist = createWatchlist(join(config.dataDir, "watchlist.json"), (domain) =>
+  checkDomain(domain, true)
+);
+const portfolio = createPortfolio(join(config.dataDir, "portfolio.json"), (domain) =>
+  checkDomain(domain, true)
+);
+
+const history = createHistory(
+  join(config.dataDir, "history.jsonl"),
+  config.historyRetentionDays
+);
+const DEFAULT_HISTORY_LIMIT = 100;
+const MAX_HISTORY_LIMIT = 5000;
+
+/**
+ * Brainstorm through the client's model, verifying each name with a lookup
+ */
+function samplingBrainstormSource(server: Server, defaultTld: string): BrainstormSource {
+  return async (prompt, count, exclude) => {
+    const { model, text } = await sampleDomainNames(server, prompt, count);
+    const excluded = new Set(exclude);
+    const domains = parseDomainCandidates(text, defaultTld)
+      .filter((d) => !excluded.has(d))
+      .slice(0, count);
+    const settled = await mapWithConcurrency(domains, DEFAULT_BULK_CONCURRENCY, (d) =>
+      checkDomain(d)
+    );
+    const suggestions: BrainstormResult["suggestions"] = [];
+    settled.forEach((outcome, i) => {
+      // Names that cannot be verified are left out rather than guessed at
+      if (!outcome.ok) return;
+      const r = outcome.value;
+      const { name, suffix } = normalizeDomain(domains[i]);
+      suggestions.push({
+        name,
+        domain: r.domain,
+        tld: suffix,
+        available: r.available,
+        purchase_price: r.purchase_price,
+        renewal_price: r.renewal_price,
+        premium: r.premium,
+      });
+    });
+    return {
+      prompt,
+      generated_at: new Date().toISOString(),
+      suggestions,
+      source: "sampling",
+      model,
+    };
+  };
+}
+
+/**
+ * Brainstorm from the API, falling back to the client's model when the API
+ * is unavailable and the client supports sampling. Mode "api" never falls back;
+ * mode "sampling" skips the API.
+ */
+async function brainstormWithFallback(
+  server: Server,
+  mode: BrainstormMode,
+  run: (source: BrainstormSource) => Promise<BrainstormResult>,
+  defaultTld: string
+): Promise<BrainstormResult> {
+  const sampling = async (): Promise<BrainstormResult> => ({
+    ...(await run(samplingBrainstormSource(server, defaultTld))),
+    source: "sampling",
+  });
+  if (mode === "sampling") {
+    return sampling();
+  }
+  try {
+    return { ...(await run(apiBrainstormSource)), source: "api" };
+  } catch (error) {
+    if (mode === "api" || !supportsSampling(server) || !isApiUnavailable(error)) {
+      throw error;
+    }
+    // Reported to the caller as a warning in the result, not on stderr
+    const reason = toAgentDomainError(error).message;
+    return { ...(await sampling()), fallback_reason: reason };
+  }
+}
+
+/**
+ * Generate variations of a taken name and keep the available ones, either
+ * across the explore TLDs or in the given TLDs only
+ */
+async function exploreVariations(
+  base: string,
+  options: {
+    tlds: string[] | null;
+    maxLength: number;
+    exclude: string[];
+    limit: number;
+  },
+  fresh: boolean = false
+): Promise<VariationsResult> {
+  const generated = generateVariations(base, {
+    maxLength: options.maxLength,
+    exclude: options.exclude,
+  });
+  const variants = generated.slice(0, options.limit);
+  const failures: VariationsResult["failures"] = [];
+  const available = new Map<string, VariationsResult["available"][number]>();
+  let checked = 0;
+
+  const errorMessage = (error: unknown) =>
+    error instanceof Error ? error.message : "Unknown error";
+
+  if (options.tlds) {
+    const tlds = options.tlds;
+    const candidates = variants.flatMap((variant) =>
+      tlds.map((tld) => ({ variant, tld, domain: `${variant.name}.${tld}` }))
+    );
+    if (candidates.length > MAX_BULK_DOMAINS) {
+      throw new InvalidInputError(
+        `${candidates.length} domains to check (variants × TLDs); lower the limit or pass fewer TLDs (max ${MAX_BULK_DOMAINS})`
+      );
+    }
+    const settled = await mapWithConcurrency(
+      candidates,
+      DEFAULT_BULK_CONCURRENCY,
+      (c) => checkDomain(c.domain, fresh)
+    );
+    settled.forEach((outcome, i) => {
+      const { variant, tld, domain } = candidates[i];
+      if (!outcome.ok) {
+        failures.push({ domain, error: errorMessage(outcome.error) });
+        return;
+      }
+      checked++;
+      const r = outcome.value;
+      if (r.available && !available.has(r.domain)) {
+        available.set(r.domain, {
+          domain: r.domain,
+          name: variant.name,
+          tld,
+          rule: variant.rule,
+          purchase_price: r.purchase_price,
+          renewal_price: r.renewal_price,
+          premium: r.premium,
+        });
+      }
+    });
+  } else {
+    const settled = await mapWithConcurrency(
+      variants,
+      DEFAULT_BULK_CONCURRENCY,
+      (v) => exploreName(v.name, fresh)
+    );
+    settled.forEach((outcome, i) => {
+      const variant = variants[i];
+      if (!outcome.ok) {
+        failures.push({ domain: variant.name, error: errorMessage(outcome.error) });
+        return;
+      }
+      checked += outcome.value.results.length;
+      for (const r of outcome.value.results) {
+        if (r.available && !available.has(r.domain)) {
+          available.set(r.domain, {
+            domain: r.domain,
+            name: variant.name,
+            tld: r.tld,
+            rule: variant.rule,
+            purchase_price: r.purchase_price,
+            renewal_price: r.renewal_price,
+            premium: r.premium,
+          });
+        }
+      }
+    });
+  }
+
+  // Cheapest first; unknown prices last, then shorter names
+  const results = [...available.values()].sort(
+    (a, b) =>
+      (a.purchase_price ?? Infinity) - (b.purchase_price ?? Infinity) ||
+      a.domain.length - b.domain.length
+  );
+
+  return {
+    base,
+    checked_at: new Date().toISOString(),
+    generated_count: generated.length,
+    checked_count: checked,
+    available_count: results.length,
+    tlds: options.tlds,
+    available: results,
+    failures,
+  };
+}
+
+/**
+ * Generate lookalikes of a chosen domain, check the riskiest, and total
+ * what registering the available ones would cost
+ */
+async function planDefensiveRegistrations(
+  original: NormalizedDomain,
+  options: {
+    tlds: string[];
+    techniques: DefensiveTechnique[] | null;
+    minRisk: RiskLevel;
+    limit: number;
+  },
+  fresh: boolean = false
+): Promise<DefensiveVariantsResult> {
+  const generated = generateDefensiveVariants(original, {
+    tlds: options.tlds,
+    techniques: options.techniques,
+  });
+  const allowedRisks = RISK_LEVELS.slice(0, RISK_LEVELS.indexOf(options.minRisk) + 1);
+  const candidates = generated
+    .filter((v) => allowedRisks.includes(v.risk))
+    .slice(0, options.limit);
+  const settled = await mapWithConcurrency(candidates, DEFAULT_BULK_CONCURRENCY, (v) =>
+    checkDomain(v.domain, fresh)
+  );
+
+  const variants: DefensiveVariantsResult["variants"] = [];
+  const failures: DefensiveVariantsResult["failures"] = [];
+  settled.forEach((outcome, i) => {
+    const variant = candidates[i];
+    if (!outcome.ok) {
+      const message = outcome.error instanceof Error ? outcome.error.message : "Unknown error";
+      failures.push({ domain: variant.display, error: message });
+      return;
+    }
+    const r = outcome.value;
+    variants.push({
+      ...variant,
+      available: r.available,
+      status: r.status,
+      purchase_price: r.purchase_price,
+      renewal_price: r.renewal_price,
+      premium: r.premium,
+      ...(r.available ? { costs: costBreakdown(r.purchase_price, r.renewal_price) } : {}),
+    });
+  });
+
+  const available = variants.filter((v) => v.available);
+  const priced = available.filter((v) => v.purchase_price !== null);
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    domain: original.domain,
+    checked_at: new Date().toISOString(),
+    generated_count: generated.length,
+    checked_count: variants.length,
+    available_count: available.length,
+    registered_count: variants.length - available.length,
+    min_risk: options.minRisk,
+    variants,
+    total_cost: {
+      domain_count: available.length,
+      first_year: round(priced.reduce((sum, v) => sum + v.purchase_price!, 0)),
+      yearly_renewal: round(
+        priced.reduce((sum, v) => sum + (v.renewal_price ?? v.purchase_price!), 0)
+      ),
+      unpriced_count: available.length - priced.length,
+    },
+    failures,
+  };
+}
+
+/**
+ * Analyze and check a shortlist of domains and rank them by weighted score
+ */
+async function compareDomains(
+  domains: string[],
+  weights: CompareWeights,
+  fresh: boolean = false
+): Promise<CompareResult> {
+  const failures: CompareResult["failures"] = [];
+  const normalized = new Set<string>();
+  for (const input of domains) {
+    try {
+      normalized.add(normalizeDomain(input).domain);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      failures.push({ domain: input, error: message });
+    }
+  }
+  const unique = [...normalized];
+
+  const [checks, analyses] = await Promise.all([
+    mapWithConcurrency(unique, DEFAULT_BULK_CONCURRENCY, (d) => checkDomain(d, fresh)),
+    mapWithConcurrency(unique, DEFAULT_BULK_CONCURRENCY, (d) => analyzeDomain(d, fresh)),
+  ]);
+
+  const unwrap = <T>(
+    outcome: { ok: true; value: T } | { ok: false; error: unknown },
+    domain: string
+  ): T | null => {
+    if (outcome.ok) return outcome.value;
+    const message =
+      outcome.error instanceof Error ? outcome.error.message : "Unknown error";
+    failures.push({ domain, error: message });
+    return null;
+  };
+
+  const rows = rankDomains(
+    unique,
+    checks.map((c, i) => unwrap(c, unique[i])),
+    analyses.map((a, i) => unwrap(a, unique[i])),
+    weights
+  );
+
+  const best = rows.find((r) => r.available === true && r.weighted_score !== null);
+  let recommendation: string | null = null;
+  if (best) {
+    const price = best.purchase_price !== null ? ` at $${best.purchase_price}` : "";
+    recommendation = `${best.domain} ranks highest among available domains with a weighted score of ${best.weighted_score}/100${price}.`;
+  }
+
+  return {
+    compared_at: new Date().toISOString(),
+    weights,
+    rows,
+    recommendation,
+    failures,
+  };
+}
+
+type OutputFormat = "text" | "json" | "both";
+
+const formatProperty = {
+  type: "string",
+  enum: ["text", "json", "both"],
+  description:
+    "Response format: 'text' (formatted summary, default), 'json' (raw structured result), or 'both'. The structured result is always attached as structuredContent.",
+};
+
+const budgetProperty = {
+  type: "object",
+  description:
+    "Budget mode: sort by total cost of ownership (first year + renewals) over a horizon and optionally drop anything over a cap. Missing renewal prices are looked up.",
+  properties: {
+    years: {
+      type: "number",
+      description: `Horizon in years (default: ${DEFAULT_BUDGET_YEARS}, max: 20)`,
+    },
+    max_total: {
+      type: "number",
+      description: "Maximum total cost in USD over the horizon",
+    },
+  },
+};
+
+const freshProperty = {
+  type: "boolean",
+  description:
+    "Bypass the local cache and fetch a fresh result (default: false)",
+};
+
+/**
+ * Build a tool result carrying both the formatted text and the structured payload
+ */
+function toolResult(
+  text: string,
+  data: object,
+  format: OutputFormat = "text"
+): CallToolResult {
+  const content: CallToolResult["content"] = [];
+  if (format !== "json") {
+    content.push({ type: "text", text });
+  }
+  if (format === "json" || format === "both") {
+    content.push({ type: "text", text: JSON.stringify(data, null, 2) });
+  }
+  return {
+    content,
+    // Result interfaces have no index signature, but are plain JSON objects
+    structuredContent: data as Record<string, unknown>,
+  };
+}
+
+/**
+ * Build an error result that says what kind of failure it was and whether
+ * retrying could help
+ */
+function toolError(error: unknown): CallToolResult {
+  const info = describeError(toAgentDomainError(error));
+  const retry = info.retryable ? "retryable" : "not retryable";
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error (${info.category}, ${retry}): ${info.message}`,
+      },
+    ],
+    structuredContent: { error: info },
+    isError: true,
+  };
+}
+
+/**
+ * Tell the user when their input was rewritten before the lookup
+ */
+function withNormalizationNote(text: string, normalized: NormalizedDomain): string {
+  const input = normalized.input.trim().toLowerCase();
+  if (input === normalized.domain || input === normalized.unicode) {
+    return text;
+  }
+  return `(Interpreted "${normalized.input.trim()}" as ${displayDomain(normalized.domain)})\n\n${text}`;
+}
+
+// List available tools
+async function handleListTools() {
+  return {
+    tools: [
+      {
+        name: "check_domain",
+        description:
+          "Check if a specific domain is available for registration. Returns availability status, pricing, and alternative suggestions if the domain is taken. Powered by AgentDomainService.com - no CAPTCHAs or API keys required. If the service is down, the registry's RDAP server answers instead (availability only, no pricing); 'source' says which one answered.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            domain: {
+              type: "string",
+              description:
+                "The full domain to check (e.g., 'example.com', 'myapp.io')",
+            },
+            fresh: freshProperty,
+            format: formatProperty,
+          },
+          required: ["domain"],
+        },
+        outputSchema: domainCheckOutputSchema,
+      },
+      {
+        name: "domain_details",
+        description:
+          "Get registration details for a taken domain from its registry's RDAP server: registrar, creation, update, and expiry dates, EPP status codes (clientHold, redemptionPeriod, pendingDelete...), nameservers, and DNSSEC. Estimates when the domain could drop if it is not renewed. Use after check_domain reports a domain as registered, to decide whether to contact the owner or wait for it.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            domain: {
+              type: "string",
+              description: "The registered domain to look up (e.g., 'example.com')",
+            },
+            fresh: freshProperty,
+            format: formatProperty,
+          },
+          required: ["domain"],
+        },
+        outputSchema: domainDetailsOutputSchema,
+      },
+      {
+        name: "check_domains",
+        description:
+          "Check availability for a list of domains in one call. Lookups run in parallel with a configurable concurrency limit. Returns one combined table sorted by availability and price, and reports per-domain failures without failing the whole batch. Use this instead of repeated check_domain calls when vetting a shortlist.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            domains: {
+              type: "array",
+              items: { type: "string" },
+              description: `Domains to check (e.g., ['example.com', 'myapp.io']). Up to ${MAX_BULK_DOMAINS} per call.`,
+            },
+            concurrency: {
+              type: "number",
+              description: `Maximum lookups in flight at once (default: ${DEFAULT_BULK_CONCURRENCY}, max: ${MAX_BULK_CONCURRENCY})`,
+            },
+            fresh: freshProperty,
+            budget: budgetProperty,
+            format: formatProperty,
+          },
+          required: ["domains"],
+        },
+        outputSchema: bulkCheckOutputSchema,
+      },
+      {
+        name: "explore_name",
+        description:
+          "Explore a name across multiple TLDs (by default .com, .io, .ai, .co, .dev, .app, .net, .xyz, .org; pass tlds or groups for others, such as country TLDs) to see which variations are available. Great for brainstorming domain names for a new project. Powered by AgentDomainService.com.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description:
+                "The base name to explore (without TLD, e.g., 'myawesomeapp')",
+            },
+            tlds: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "TLDs to check instead of the default set (e.g., ['de', 'co.uk', 'sh'])",
+            },
+            groups: {
+              type: "array",
+              items: { type: "string", enum: Object.keys(config.tldGroups) },
+              description: `Named TLD groups to check, combined with tlds: ${Object.entries(config.tldGroups).map(([name, members]) => `${name} (${members.join(", ")})`).join("; ")}`,
+            },
+            fresh: freshProperty,
+            budget: budgetProperty,
+            format: formatProperty,
+          },
+          required: ["name"],
+        },
+        outputSchema: exploreOutputSchema,
+      },
+      {
+        name: "generate_variations",
+        description:
+          "Generate variations of a name that is taken (get-/try- prefixes, -hq/-app/-labs suffixes, plurals, hyphenation, dropped vowels, swapped word order) and return only the variants that are available, as one deduplicated table sorted by price. Uses local rules, so results are deterministic.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description:
+                "The base name (e.g., 'quickpulse'). Separate words with spaces, hyphens, or camelCase (e.g., 'QuickPulse') to enable word-order swaps.",
+            },
+            tlds: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Only check these TLDs (e.g., ['com', 'io']). By default each variant is explored across all TLDs.",
+            },
+            max_length: {
+              type: "number",
+              description: `Skip variants longer than this many characters, excluding the TLD (default: ${DEFAULT_VARIATION_MAX_LENGTH})`,
+            },
+            exclude: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Skip variants matching any of these patterns. Plain text matches anywhere in the name; '*' is a wildcard (e.g., ['-', 'my*']).",
+            },
+            limit: {
+              type: "number",
+              description: `Maximum variants to check (default: ${DEFAULT_VARIATION_LIMIT}, max: ${MAX_VARIATION_LIMIT})`,
+            },
+            fresh: freshProperty,
+            format: formatProperty,
+          },
+          required: ["name"],
+        },
+        outputSchema: variationsOutputSchema,
+      },
+      {
+        name: "defensive_variants",
+        description:
+          "Plan defensive registrations for a chosen domain. Generates lookalikes locally (typos: omission, transposition, keyboard neighbors, doubled letters; confusable characters such as rn/m and l/1; IDN homographs with Cyrillic lookalike letters; hyphens; TLD swaps; common misspellings), checks them in bulk, and returns them riskiest first, marking which are still available and what registering all of those would cost.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            domain: {
+              type: "string",
+              description: "The domain you chose (e.g., 'quickpulse.com')",
+            },
+            tlds: {
+              type: "array",
+              items: { type: "string" },
+              description: `TLDs to check the unchanged name on (default: ${DEFAULT_SWAP_TLDS.join(", ")})`,
+            },
+            techniques: {
+              type: "array",
+              items: { type: "string", enum: DEFENSIVE_TECHNIQUES },
+              description: "Only generate these kinds of variants (default: all)",
+            },
+            min_risk: {
+              type: "string",
+              enum: RISK_LEVELS,
+              description: "Skip variants below this risk level (default: medium)",
+            },
+            limit: {
+              type: "number",
+              description: `Maximum variants to check, riskiest first (default: ${DEFAULT_DEFENSIVE_LIMIT}, max: ${MAX_BULK_DOMAINS})`,
+            },
+            fresh: freshProperty,
+            format: formatProperty,
+          },
+          required: ["domain"],
+        },
+        outputSchema: defensiveVariantsOutputSchema,
+      },
+      {
+        name: "brainstorm_domains",
+        description:
+          "Generate creative domain name ideas based on a description of your project, business, or idea. Uses AI to suggest available domain names that match your concept. Returns only domains that are actually available for registration with real pricing. Perfect for finding the right domain for a new startup, app, or project. If the API is unavailable, falls back to your own model via sampling when the client supports it.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            description: {
+              type: "string",
+              description:
+                "A description of your project, business, or idea (e.g., 'AI-powered recipe app for busy parents', 'sustainable fashion marketplace', 'developer tools for API testing')",
+            },
+            count: {
+              type: "number",
+              description:
+                "Number of suggestions to generate (default: 10, max: 20). With constraints, the number of matching suggestions to aim for.",
+            },
+            max_length: {
+              type: "number",
+              description: "Maximum name length in characters, excluding the TLD",
+            },
+            tlds: {
+              type: "array",
+              items: { type: "string" },
+              description: "Only keep suggestions in these TLDs (e.g., ['com', 'io'])",
+            },
+            max_price: {
+              type: "number",
+              description: "Maximum first-year price in USD",
+            },
+            banned_words: {
+              type: "array",
+              items: { type: "string" },
+              description: "Reject names containing any of these words",
+            },
+            banned_letters: {
+              type: "string",
+              description: "Reject names containing any of these letters (e.g., 'qxz')",
+            },
+            available_only: {
+              type: "boolean",
+              description: "Reject suggestions that are already taken",
+            },
+            style: {
+              type: "string",
+              enum: [...BRAINSTORM_STYLES],
+              description:
+                "Style hint: 'real_word', 'invented', or 'compound'. Passed to the generator; not enforced.",
+            },
+            mode: {
+              type: "string",
+              enum: [...BRAINSTORM_MODES],
+              description:
+                "'auto' (default) uses the AgentDomainService API and falls back to your own model via sampling if the API is unreachable, rate limited or erroring; 'api' never falls back; 'sampling' uses your model directly. Sampled names are verified with live lookups.",
+            },
+            max_rounds: {
+              type: "number",
+              description: `With constraints, how many times to ask for more suggestions before giving up (default: ${DEFAULT_BRAINSTORM_ROUNDS}, max: ${MAX_BRAINSTORM_ROUNDS})`,
+            },
+            budget: budgetProperty,
+            format: formatProperty,
+          },
+          required: ["description"],
+        },
+        outputSchema: brainstormOutputSchema,
+      },
+      {
+        name: "analyze_domain",
+        description:
+          "Get an AI-powered analysis of a domain name. Scores the domain on memorability, brandability, pronunciation ease, and SEO potential. Lists pros, cons, and provides an overall verdict. Useful for evaluating domain name options before purchasing.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            domain: {
+              type: "string",
+              description:
+                "The domain to analyze (e.g., 'coolstartup.com', 'myapp.io')",
+            },
+            fresh: freshProperty,
+            format: formatProperty,
+          },
+          required: ["domain"],
+        },
+        outputSchema: analyzeOutputSchema,
+      },
+      {
+        name: "compare_domains",
+        description:
+          "Compare a shortlist of domains side by side. Runs analyze_domain and check_domain for each and shows one matrix of memorability, brandability, length, pronunciation, SEO, overall score, availability, purchase price, and renewal price. Ranks them with adjustable weights and recommends the best available one.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            domains: {
+              type: "array",
+              items: { type: "string" },
+              description: `Domains to compare (2-${MAX_COMPARE_DOMAINS}, e.g. ['quickpulse.ai', 'pulsely.com'])`,
+            },
+            weights: {
+              type: "object",
+              description: `How much each factor counts in the ranking (non-negative; 0 ignores it). Scores are 0-100; price is scored 0-100 relative to the other candidates, cheapest highest. Defaults: ${Object.entries(DEFAULT_COMPARE_WEIGHTS).map(([k, w]) => `${k}=${w}`).join(", ")}`,
+              properties: Object.fromEntries(
+                Object.keys(DEFAULT_COMPARE_WEIGHTS).map((k) => [k, { type: "number" }])
+              ),
+            },
+            fresh: freshProperty,
+            format: formatProperty,
+          },
+          required: ["domains"],
+        },
+        outputSchema: compareOutputSchema,
+      },
+      {
+        name: "search_domains",
+        description:
+          "Search for available domains with filters. Find domains by category (e.g., 'ai-agents', 'startup-names'), price range, or TLD. Perfect for finding affordable domains within a budget. Use list_categories first to see available categories.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            category: {
+              type: "string",
+              description:
+                "Filter by category slug (e.g., 'ai-agents', 'startup-names', 'ecommerce'). Use list_categories to see all available categories.",
+            },
+            max_price: {
+              type: "number",
+              description:
+                "Maximum price in USD (e.g., 15 for domains under $15). Great for finding budget-friendly domains.",
+            },
+            min_price: {
+              type: "number",
+              description: "Minimum price in USD (optional)",
+            },
+            tlds: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Filter by specific TLDs (e.g., ['com', 'io', 'dev'])",
+            },
+            sort: {
+              type: "string",
+              enum: [...SEARCH_SORTS],
+              description:
+                "Sort order: 'price_asc' (cheapest first), 'price_desc' (most expensive first), 'newest' (most recently checked)",
+            },
+            limit: {
+              type: "number",
+              description: `Results per page (default: ${DEFAULT_SEARCH_LIMIT}, max: ${MAX_SEARCH_LIMIT})`,
+            },
+            min_length: {
+              type: "number",
+              description: "Minimum name length in characters, excluding the TLD",
+            },
+            max_length: {
+              type: "number",
+              description: "Maximum name length in characters, excluding the TLD",
+            },
+            exclude_hyphens: {
+              type: "boolean",
+              description: "Skip names containing hyphens",
+            },
+            exclude_digits: {
+              type: "boolean",
+              description: "Skip names containing digits",
+            },
+            premium: {
+              type: "string",
+              enum: ["only", "exclude"],
+              description: "'only' for premium domains only, 'exclude' to skip premium domains",
+            },
+            contains: {
+              type: "string",
+              description: "Only names containing this text (e.g., 'pay')",
+            },
+            starts_with: {
+              type: "string",
+              description: "Only names starting with this text (e.g., 'get')",
+            },
+            cursor: {
+              type: "string",
+              description:
+                "next_cursor from a previous result, to get the next page. Use the same filters as that search.",
+            },
+            offset: {
+              type: "number",
+              description: "Skip this many matching results (alternative to cursor)",
+            },
+            budget: budgetProperty,
+            format: formatProperty,
+          },
+        },
+        outputSchema: searchOutputSchema,
+      },
+      {
+        name: "list_categories",
+        description:
+          "List all available domain categories with their domain counts. Use this to discover what categories are available before searching. Categories include things like AI agents, startups, e-commerce, developer tools, etc.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            fresh: freshProperty,
+            format: formatProperty,
+          },
+        },
+        outputSchema: categoriesOutputSchema,
+      },
+      {
+        name: "watch_domain",
+        description:
+          "Add a domain to the persistent watchlist. Its current status, prices, and expiry date are recorded as a baseline so refresh_watchlist can report when it drops, changes price, or nears expiration. If the lookup fails, the domain is still added and the next refresh records the baseline.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            domain: {
+              type: "string",
+              description: "The domain to watch (e.g., 'dreamname.com')",
+            },
+            note: {
+              type: "string",
+              description: "Optional note to keep with the domain (e.g., 'backup for launch')",
+            },
+            format: formatProperty,
+          },
+          required: ["domain"],
+        },
+        outputSchema: watchOutputSchema,
+      },
+      {
+        name: "unwatch_domain",
+        description: "Remove a domain from the watchlist.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            domain: {
+              type: "string",
+              description: "The domain to stop watching",
+            },
+            format: formatProperty,
+          },
+          required: ["domain"],
+        },
+        outputSchema: watchOutputSchema,
+      },
+      {
+        name: "refresh_watchlist",
+        description:
+          "Re-check every watched domain and report what changed since the last check: status flips (e.g. a taken domain becoming available), purchase or renewal price changes, premium flag changes, and registrations expiring soon.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            expiry_warning_days: {
+              type: "number",
+              description: `Flag registrations expiring within this many days (default: ${DEFAULT_EXPIRY_WARNING_DAYS})`,
+            },
+            concurrency: {
+              type: "number",
+              description: `Maximum lookups in flight at once (default: ${DEFAULT_BULK_CONCURRENCY}, max: ${MAX_BULK_CONCURRENCY})`,
+            },
+            format: formatProperty,
+          },
+        },
+        outputSchema: watchlistRefreshOutputSchema,
+      },
+      {
+        name: "add_owned_domain",
+        description:
+          "Add a domain the team owns to the portfolio, or update its details. Its expiry date is looked up; values given here take precedence. Lookups usually have no renewal price for a registered domain, so pass renewal_price to include it in the forecast. Use portfolio_forecast to plan renewal costs.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            domain: {
+              type: "string",
+              description: "The owned domain (e.g., 'ourbrand.com')",
+            },
+            note: {
+              type: "string",
+              description: "Optional note to keep with the domain (e.g., 'main site', 'billed to marketing')",
+            },
+            expires_at: {
+              type: "string",
+              description: "Expiry date, when the lookup does not have it or has it wrong (e.g., '2027-03-31')",
+            },
+            renewal_price: {
+              type: "number",
+              description:
+                "Yearly renewal price the team actually pays, in USD. Kept across refreshes. Needed for the forecast, since lookups rarely price registered domains.",
+            },
+            format: formatProperty,
+          },
+          required: ["domain"],
+        },
+        outputSchema: portfolioOutputSchema,
+      },
+      {
+        name: "remove_owned_domain",
+        description: "Remove a domain from the portfolio (e.g., after letting it expire or transferring it away).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            domain: {
+              type: "string",
+              description: "The domain to remove",
+            },
+            format: formatProperty,
+          },
+          required: ["domain"],
+        },
+        outputSchema: portfolioOutputSchema,
+      },
+      {
+        name: "refresh_portfolio",
+        description:
+          "Re-check every owned domain's expiry date, and its renewal price when the lookup has one (rare for registered domains; set it with add_owned_domain). Also warns when an owned domain is reported as available, which means its registration may have lapsed.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            concurrency: {
+              type: "number",
+              description: `Maximum lookups in flight at once (default: ${DEFAULT_BULK_CONCURRENCY}, max: ${MAX_BULK_CONCURRENCY})`,
+            },
+            format: formatProperty,
+          },
+        },
+        outputSchema: portfolioRefreshOutputSchema,
+      },
+      {
+        name: "portfolio_forecast",
+        description:
+          "Forecast renewal costs for the owned domains: totals per month, quarter, and year, plus domains expiring soon. Renewals recur yearly from each expiry date. Can export the renewal deadlines as an iCalendar (.ics) file or the renewals as a CSV budget sheet.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            months: {
+              type: "number",
+              description: `How many months ahead to forecast (default: ${DEFAULT_FORECAST_MONTHS}, max: ${MAX_FORECAST_MONTHS})`,
+            },
+            within_days: {
+              type: "number",
+              description: `List domains expiring within this many days (default: ${DEFAULT_EXPIRY_WARNING_DAYS})`,
+            },
+            export: {
+              type: "string",
+              enum: [...PORTFOLIO_EXPORT_FORMATS],
+              description:
+                "Return a file instead of the summary: 'ics' for a calendar of renewal deadlines with reminders 30 and 7 days ahead, 'csv' for a budget sheet of the forecast renewals",
+            },
+            format: formatProperty,
+          },
+        },
+        outputSchema: portfolioForecastOutputSchema,
+      },
+      {
+        name: "history",
+        description:
+          "Search the local log of past tool calls: which domains were checked, when, and what their status and prices were at that moment. Filter by domain, tool, date range, or status, and export as CSV, JSON, or Markdown.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            domain: {
+              type: "string",
+              description: "Only rows whose domain contains this text (e.g., 'acme.io' or 'acme')",
+            },
+            tool: {
+              type: "string",
+              description: "Only calls to this tool (e.g., 'check_domain')",
+            },
+            since: {
+              type: "string",
+              description: "Only calls on or after this date (e.g., '2026-01-01')",
+            },
+            until: {
+              type: "string",
+              description: "Only calls on or before this date (e.g., '2026-01-31')",
+            },
+            status: {
+              type: "string",
+              enum: [...HISTORY_STATUSES],
+              description: "Only rows with this status; 'error' for failed calls",
+            },
+            limit: {
+              type: "number",
+              description: `Maximum rows, newest first (default: ${DEFAULT_HISTORY_LIMIT}, max: ${MAX_HISTORY_LIMIT})`,
+            },
+            export: {
+              type: "string",
+              enum: [...EXPORT_FORMATS],
+              description: "Return the rows as CSV, JSON, or a Markdown table instead of a summary",
+            },
+            format: formatProperty,
+          },
+        },
+        outputSchema: historyOutputSchema,
+      },
+    ],
+  };
+}
+
+// Handle tool calls, recording each one in the history log
+async function handleCallTool(request: CallToolRequest, server: Server) {
+  const response = await runTool(request, server);
+  const { name, arguments: args } = request.params;
+  if (name !== "history") {
+    const error = response.isError
+      ? (response.structuredContent as { error: ErrorInfo }).error.message
+      : null;
+    history
+      .record(name, args ?? {}, error === null ? response.structuredContent : null, error)
+      .catch((error) => console.error("Failed to record history:", error));
+  }
+  return response;
+}
+
+async function runTool(request: CallToolRequest, server: Server): Promise<CallToolResult> {
+  const { name, arguments: args } = request.params;
+  const { format, fresh } = (args ?? {}) as {
+    format?: OutputFormat;
+    fresh?: boolean;
+  };
+  const budgetArg = (args as { budget?: { years?: number; max_total?: number } } | undefined)
+    ?.budget;
+
+  try {
+    switch (name) {
+      case "check_domain": {
+        const domain = (args as { domain: string }).domain;
+        if (!domain) {
+          throw new InvalidInputError("Domain is required");
+        }
+        const normalized = normalizeDomain(domain);
+        const result = withDomainCosts(await checkDomain(normalized.domain, fresh));
+        return toolResult(
+          withNormalizationNote(formatDomainResult(result), normalized),
+          result,
+          format
+        );
+      }
+
+      case "domain_details": {
+        const domainArg = (args as { domain: string }).domain;
+        if (!domainArg) {
+          throw new InvalidInputError("Domain is required");
+        }
+        const normalized = normalizeDomain(domainArg);
+        const result = await domainDetails(normalized.domain, fresh);
+        return toolResult(
+          withNormalizationNote(formatDomainDetailsResult(result), normalized),
+          result,
+          format
+        );
+      }
+
+      case "check_domains": {
+        const { domains, concurrency } = args as {
+          domains: string[];
+          concurrency?: number;
+        };
+        if (!Array.isArray(domains) || domains.length === 0) {
+          throw new InvalidInputError("Domains must be a non-empty array");
+        }
+        if (domains.length > MAX_BULK_DOMAINS) {
+          throw new InvalidInputError(`At most ${MAX_BULK_DOMAINS} domains can be checked per call`);
+        }
+        const budget = resolveBudget(budgetArg);
+        const result = withBulkCosts(
+          await checkDomains(
+            domains,
+            Math.min(Math.max(concurrency || DEFAULT_BULK_CONCURRENCY, 1), MAX_BULK_CONCURRENCY),
+            fresh
+          ),
+          budget
+        );
+        return toolResult(formatBulkCheckResult(result), result, format);
+      }
+
+      case "explore_name": {
+        const { name: nameArg, tlds, groups } = args as {
+          name: string;
+          tlds?: string[];
+          groups?: string[];
+        };
+        if (!nameArg) {
+          throw new InvalidInputError("Name is required");
+        }
+        const budget = resolveBudget(budgetArg);
+        const result = withExploreCosts(
+          await exploreName(nameArg, fresh, resolveExploreTlds(config.tldGroups, tlds, groups)),
+          budget
+        );
+        return toolResult(formatExploreResult(result), result, format);
+      }
+
+      case "generate_variations": {
+        const { name, tlds, max_length, exclude, limit } = args as {
+          name: string;
+          tlds?: string[];
+          max_length?: number;
+          exclude?: string[];
+          limit?: number;
+        };
+        if (!name) {
+          throw new InvalidInputError("Name is required");
+        }
+        const result = await exploreVariations(
+          name,
+          {
+            tlds: tlds && tlds.length > 0 ? [...new Set(tlds.map(normalizeTld))] : null,
+            maxLength: max_length || DEFAULT_VARIATION_MAX_LENGTH,
+            exclude: exclude ?? [],
+            limit: Math.min(Math.max(limit || DEFAULT_VARIATION_LIMIT, 1), MAX_VARIATION_LIMIT),
+          },
+          fresh
+        );
+        return toolResult(formatVariationsResult(result), result, format);
+      }
+
+      case "defensive_variants": {
+        const { domain, tlds, techniques, min_risk = "medium", limit } = args as {
+          domain: string;
+          tlds?: string[];
+          techniques?: DefensiveTechnique[];
+          min_risk?: RiskLevel;
+          limit?: number;
+        };
+        if (!domain) {
+          throw new InvalidInputError("Domain is required");
+        }
+        const unknown = (techniques ?? []).filter((t) => !DEFENSIVE_TECHNIQUES.includes(t));
+        if (unknown.length > 0) {
+          throw new InvalidInputError(
+            `Unknown technique "${unknown[0]}" (expected one of: ${DEFENSIVE_TECHNIQUES.join(", ")})`
+          );
+        }
+        if (!RISK_LEVELS.includes(min_risk)) {
+          throw new InvalidInputError(
+            `Unknown risk level "${min_risk}" (expected one of: ${RISK_LEVELS.join(", ")})`
+          );
+        }
+        const normalized = normalizeDomain(domain);
+        const result = await planDefensiveRegistrations(
+          normalized,
+          {
+            tlds:
+              tlds && tlds.length > 0 ? [...new Set(tlds.map(normalizeTld))] : DEFAULT_SWAP_TLDS,
+            techniques: techniques && techniques.length > 0 ? techniques : null,
+            minRisk: min_risk,
+            limit: Math.min(Math.max(limit || DEFAULT_DEFENSIVE_LIMIT, 1), MAX_BULK_DOMAINS),
+          },
+          fresh
+        );
+        return toolResult(
+          withNormalizationNote(formatDefensiveVariantsResult(result), normalized),
+          result,
+          format
+        );
+      }
+
+      case "brainstorm_domains": {
+        const { description, count, max_rounds, mode = "auto" } = args as {
+          description: string;
+          count?: number;
+          max_rounds?: number;
+          mode?: BrainstormMode;
+        };
+        if (!description) {
+          throw new InvalidInputError("Description is required");
+        }
+        if (!BRAINSTORM_MODES.includes(mode)) {
+          throw new InvalidInputError(
+            `Unknown mode "${mode}" (expected one of: ${BRAINSTORM_MODES.join(", ")})`
+          );
+        }
+        const budget = resolveBudget(budgetArg);
+        const constraints = resolveBrainstormConstraints(args as BrainstormConstraintArgs);
+        const result = await withBrainstormCosts(
+          await brainstormWithFallback(
+            server,
+            mode,
+            (source) =>
+              brainstormDomains(
+                description,
+                Math.min(count || 10, MAX_BRAINSTORM_COUNT),
+                constraints,
+                Math.min(
+                  Math.max(max_rounds || DEFAULT_BRAINSTORM_ROUNDS, 1),
+                  MAX_BRAINSTORM_ROUNDS
+                ),
+                source
+              ),
+            constraints?.tlds?.[0] ?? "com"
+          ),
+          budget,
+          lookupRenewalPrices
+        );
+        return toolResult(formatBrainstormResult(result), result, format);
+      }
+
+      case "analyze_domain": {
+        const domainArg = (args as { domain: string }).domain;
+        if (!domainArg) {
+          throw new InvalidInputError("Domain is required");
+        }
+        const normalized = normalizeDomain(domainArg);
+        const result = await analyzeDomain(normalized.domain, fresh);
+        return toolResult(
+          withNormalizationNote(formatAnalyzeResult(result), normalized),
+          result,
+          format
+        );
+      }
+
+      case "compare_domains": {
+        const { domains, weights } = args as {
+          domains: string[];
+          weights?: Partial<CompareWeights>;
+        };
+        if (!Array.isArray(domains) || domains.length === 0) {
+          throw new InvalidInputError("Domains must be a non-empty array");
+        }
+        if (domains.length > MAX_COMPARE_DOMAINS) {
+          throw new InvalidInputError(`At most ${MAX_COMPARE_DOMAINS} domains can be compared per call`);
+        }
+        const result = await compareDomains(domains, resolveWeights(weights), fresh);
+        return toolResult(formatCompareResult(result), result, format);
+      }
+
+      case "search_domains": {
+        const searchArgs = args as SearchArgs;
+        const budget = resolveBudget(budgetArg);
+        const result = await withSearchCosts(
+          await searchDomains(searchArgs),
+          budget,
+          lookupRenewalPrices
+        );
+        return toolResult(formatSearchResult(result), result, format);
+      }
+
+      case "list_categories": {
+        const result = await listCategories(fresh);
+        return toolResult(formatCategoriesResult(result), result, format);
+      }
+
+      case "watch_domain": {
+        const { domain, note } = args as { domain: string; note?: string };
+        if (!domain) {
+          throw new InvalidInputError("Domain is required");
+        }
+        const normalized = normalizeDomain(domain);
+        const { entry, lookupError } = await watchlist.add(normalized.domain, note ?? null);
+        await notifyResourceUpdated(WATCHLIST_URI);
+        const domains = await watchlist.list();
+        const message =
+          `Now watching ${displayDomain(entry.domain)}` +
+          (lookupError ? ` (lookup failed, so refresh_watchlist will set the baseline: ${lookupError})` : "");
+        return toolResult(
+          formatWatchResult(message, domains),
+          { domain: entry.domain, watched: true, lookup_error: lookupError, domains },
+          format
+        );
+      }
+
+      case "unwatch_domain": {
+        const domain = (args as { domain: string }).domain;
+        if (!domain) {
+          throw new InvalidInputError("Domain is required");
+        }
+        const normalized = normalizeDomain(domain);
+        const removed = await watchlist.remove(normalized.domain);
+        if (removed) {
+          await notifyResourceUpdated(WATCHLIST_URI);
+        }
+        const domains = await watchlist.list();
+        const message = removed
+          ? `Stopped watching ${displayDomain(normalized.domain)}`
+          : `${displayDomain(normalized.domain)} was not on the watchlist`;
+        return toolResult(
+          formatWatchResult(message, domains),
+          { domain: normalized.domain, watched: false, domains },
+          format
+        );
+      }
+
+      case "refresh_watchlist": {
+        const { expiry_warning_days, concurrency } = args as {
+          expiry_warning_days?: number;
+          concurrency?: number;
+        };
+        const result = await watchlist.refresh({
+          expiryWarningDays: expiry_warning_days ?? DEFAULT_EXPIRY_WARNING_DAYS,
+          concurrency: Math.min(
+            Math.max(concurrency || DEFAULT_BULK_CONCURRENCY, 1),
+            MAX_BULK_CONCURRENCY
+          ),
+        });
+        await notifyResourceUpdated(WATCHLIST_URI);
+        if (result.changes.length > 0) {
+          await notifyResourceUpdated(WATCHLIST_CHANGES_URI);
+        }
+        return toolResult(formatWatchlistRefreshResult(result), result, format);
+      }
+
+      case "add_owned_domain": {
+        const { domain, note, expires_at, renewal_price } = args as {
+          domain: string;
+          note?: string;
+          expires_at?: string;
+          renewal_price?: number;
+        };
+        if (!domain) {
+          throw new InvalidInputError("Domain is required");
+        }
+        if (
+          renewal_price !== undefined &&
+          (typeof renewal_price !== "number" || !Number.isFinite(renewal_price) || renewal_price < 0)
+        ) {
+          throw new InvalidInputError("renewal_price must be a number of at least 0");
+        }
+        const normalized = normalizeDomain(domain);
+        const { entry, lookupError } = await portfolio.add(normalized.domain, {
+          note: note ?? null,
+          expiresAt: expires_at ? parseExpiryDate(expires_at) : null,
+          renewalPrice: renewal_price ?? null,
+        });
+        await notifyPortfolioUpdated();
+        const domains = await portfolio.list();
+        const message =
+          `Added ${displayDomain(entry.domain)} to the portfolio` +
+          (lookupError ? ` (lookup failed, so expiry and price may be missing: ${lookupError})` : "");
+        return toolResult(
+          formatPortfolioResult(message, domains),
+          { domain: entry.domain, owned: true, lookup_error: lookupError, domains },
+          format
+        );
+      }
+
+      case "remove_owned_domain": {
+        const domain = (args as { domain: string }).domain;
+        if (!domain) {
+          throw new InvalidInputError("Domain is required");
+        }
+        const normalized = normalizeDomain(domain);
+        const removed = await portfolio.remove(normalized.domain);
+        if (removed) {
+          await notifyPortfolioUpdated();
+        }
+        const domains = await portfolio.list();
+        const message = removed
+          ? `Removed ${displayDomain(normalized.domain)} from the portfolio`
+          : `${displayDomain(normalized.domain)} was not in the portfolio`;
+        return toolResult(
+          formatPortfolioResult(message, domains),
+          { domain: normalized.domain, owned: false, domains },
+          format
+        );
+      }
+
+      case "refresh_portfolio": {
+        const { concurrency } = args as { concurrency?: number };
+        const result = await portfolio.refresh({
+          concurrency: Math.min(
+            Math.max(concurrency || DEFAULT_BULK_CONCURRENCY, 1),
+            MAX_BULK_CONCURRENCY
+          ),
+        });
+        await notifyPortfolioUpdated();
+        return toolResult(formatPortfolioRefreshResult(result), result, format);
+      }
+
+      case "portfolio_forecast": {
+        const { months, within_days } = args as { months?: number; within_days?: number };
+        const exportFormat = (args as { export?: PortfolioExportFormat }).export;
+        if (exportFormat && !PORTFOLIO_EXPORT_FORMATS.includes(exportFormat)) {
+          throw new InvalidInputError(
+            `Unknown export format "${exportFormat}" (expected one of: ${PORTFOLIO_EXPORT_FORMATS.join(", ")})`
+          );
+        }
+        const domains = await portfolio.list();
+        const result = forecastRenewals(domains, {
+          months: Math.min(Math.max(months || DEFAULT_FORECAST_MONTHS, 1), MAX_FORECAST_MONTHS),
+          withinDays: within_days ?? DEFAULT_EXPIRY_WARNING_DAYS,
+        });
+        const text =
+          exportFormat === "ics"
+            ? exportCalendar(domains)
+            : exportFormat === "csv"
+              ? exportBudgetCsv(result, domains)
+              : formatPortfolioForecast(result);
+        return toolResult(text, result, format);
+      }
+
+      case "history": {
+        const { domain, tool, since, until, status, limit } = args as {
+          domain?: string;
+          tool?: string;
+          since?: string;
+          until?: string;
+          status?: HistoryStatus;
+          limit?: number;
+        };
+        const exportFormat = (args as { export?: ExportFormat }).export;
+        if (status && !HISTORY_STATUSES.includes(status)) {
+          throw new InvalidInputError(
+            `Unknown status "${status}" (expected one of: ${HISTORY_STATUSES.join(", ")})`
+          );
+        }
+        if (exportFormat && !EXPORT_FORMATS.includes(exportFormat)) {
+          throw new InvalidInputError(
+            `Unknown export format "${exportFormat}" (expected one of: ${EXPORT_FORMATS.join(", ")})`
+          );
+        }
+        const result = await history.query({
+          domain: domain || null,
+          tool: tool || null,
+          since: since || null,
+          until: until || null,
+          status: status || null,
+          limit: Math.min(Math.max(limit || DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT),
+        });
+        const text = exportFormat
+          ? exportHistory(result.rows, exportFormat)
+          : formatHistoryResult(result);
+        return toolResult(text, result, format);
+      }
+
+      default:
+        throw new InvalidInputError(`Unknown tool: ${name}`);
+    }
+  } catch (error) {
+    return toolError(error);
+  }
+}
+
+// Connected servers (one per session) and the resources each subscribed to
+const sessions = new Map<Server, Set<string>>();
+
+/**
+ * Tell every subscribed session that a resource changed
+ */
+async function notifyResourceUpdated(uri: string): Promise<void> {
+  await Promise.all(
+    [...sessions]
+      .filter(([, subscriptions]) => subscriptions.has(uri))
+      .map(([server]) =>
+        server.sendResourceUpdated({ uri }).catch((error) => {
+          console.error("Failed to send resource update:", error);
+        })
+      )
+  );
+}
+
+/**
+ * The calendar and budget exports are derived from the portfolio, so
+ * they change with it
+ */
+async function notifyPortfolioUpdated(): Promise<void> {
+  await notifyResourceUpdated(PORTFOLIO_URI);
+  await notifyResourceUpdated(PORTFOLIO_CALENDAR_URI);
+  await notifyResourceUpdated(PORTFOLIO_BUDGET_URI);
+}
+
+// List available resources
+async function handleListResources() {
+  // Per-category resources are listed once categories are cached, so
+  // listing never waits on the API; they stay reachable through the
+  // template either way
+  const categories = await cachedCategories();
+  const categoryResources = (categories?.categories ?? []).map((cat) => ({
+    uri: `${CATEGORY_URI_PREFIX}${cat.slug}`,
+    name: `${cat.title} domains`,
+    description: `Cheapest available domains in ${cat.title} (${cat.available_domains} total)`,
+    mimeType: "application/json",
+  }));
+
+  return {
+    resources: [
+      {
+        uri: CATEGORIES_URI,
+        name: "Domain categories",
+        description:
+          "All domain categories with their available domain counts",
+        mimeType: "application/json",
+      },
+      ...categoryResources,
+      {
+        uri: WATCHLIST_URI,
+        name: "Domain watchlist",
+        description:
+          "Domains being watched, with the status, prices, and expiry date from their last check",
+        mimeType: "application/json",
+      },
+      {
+        uri: WATCHLIST_CHANGES_URI,
+        name: "Watchlist change log",
+        description:
+          "Changes detected by refresh_watchlist: status flips, price and premium changes, and upcoming expirations",
+        mimeType: "application/json",
+      },
+      {
+        uri: PORTFOLIO_URI,
+        name: "Domain portfolio",
+        description: "Owned domains with their expiry dates and renewal prices",
+        mimeType: "application/json",
+      },
+      {
+        uri: PORTFOLIO_CALENDAR_URI,
+        name: "Renewal calendar",
+        description: "Renewal deadlines of the owned domains as an iCalendar file",
+        mimeType: "text/calendar",
+      },
+      {
+        uri: PORTFOLIO_BUDGET_URI,
+        name: "Renewal budget",
+        description: `Renewals of the owned domains over the next ${DEFAULT_FORECAST_MONTHS} months as a CSV budget sheet`,
+        mimeType: "text/csv",
+      },
+    ],
+  };
+}
+
+// List resource templates
+async function handleListResourceTemplates() {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: `${CATEGORY_URI_PREFIX}{slug}`,
+        name: "Domains in a category",
+        description: `The ${CATEGORY_RESOURCE_LIMIT} cheapest available domains in a category (slug from ${CATEGORIES_URI})`,
+        mimeType: "application/json",
+      },
+    ],
+  };
+}
+
+// Read a resource
+async function handleReadResource(request: ReadResourceRequest) {
+  const { uri } = request.params;
+
+  // The portfolio exports are files rather than JSON
+  if (uri === PORTFOLIO_CALENDAR_URI || uri === PORTFOLIO_BUDGET_URI) {
+    const domains = await portfolio.list();
+    const text =
+      uri === PORTFOLIO_CALENDAR_URI
+        ? exportCalendar(domains)
+        : exportBudgetCsv(
+            forecastRenewals(domains, {
+              months: DEFAULT_FORECAST_MONTHS,
+              withinDays: DEFAULT_EXPIRY_WARNING_DAYS,
+            }),
+            domains
+          );
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: uri === PORTFOLIO_CALENDAR_URI ? "text/calendar" : "text/csv",
+          text,
+        },
+      ],
+    };
+  }
+
+  let data: unknown;
+  switch (uri) {
+    case WATCHLIST_URI:
+      data = { domains: await watchlist.list() };
+      break;
+    case WATCHLIST_CHANGES_URI:
+      data = { changes: await watchlist.changes() };
+      break;
+    case PORTFOLIO_URI:
+      data = { domains: await portfolio.list() };
+      break;
+    case CATEGORIES_URI:
+      data = await listCategories();
+      break;
+    default: {
+      const slug = uri.startsWith(CATEGORY_URI_PREFIX)
+        ? decodeURIComponent(uri.slice(CATEGORY_URI_PREFIX.length))
+        : "";
+      if (!slug || slug.includes("/")) {
+        throw new NotFoundError(`Unknown resource: ${uri}`);
+      }
+      data = await searchDomains({
+        category: slug,
+        sort: "price_asc",
+        limit: CATEGORY_RESOURCE_LIMIT,
+      });
+    }
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Create an MCP server for one client session. Sessions share the cache,
+ * HTTP client (and its rate limiter), watchlist, and portfolio.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "agent-domain-service",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+        },
+        prompts: {},
+      },
+    }
+  );
+
+  const subscriptions = new Set<string>();
+  sessions.set(server, subscriptions);
+  server.onclose = () => {
+    sessions.delete(server);
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, handleListTools);
+  server.setRequestHandler(CallToolRequestSchema, (request) =>
+    handleCallTool(request, server)
+  );
+  server.setRequestHandler(ListResourcesRequestSchema, handleListResources);
+  server.setRequestHandler(
+    ListResourceTemplatesRequestSchema,
+    handleListResourceTemplates
+  );
+  server.setRequestHandler(ReadResourceRequestSchema, handleReadResource);
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listPrompts() };
+  });
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  return server;
+}
+
+/**
+ * Start the MCP server on the configured transport
+ */
+export async function startServer(): Promise<void> {
+  const backend =
+    config.backend === "fixtures" ? "offline fixtures" : config.baseUrl;
+
+  // Cache writes are debounced; write out anything pending before exiting
+  process.once("beforeExit", () => void client.flushCache());
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => {
+      void client.flushCache().finally(() => process.exit(0));
+    });
+  }
+
+  if (config.transport === "http") {
+    await startHttpTransport(createServer, {
+      host: config.host,
+      port: config.port,
+      authToken: config.authToken,
+    });
+    const auth = config.authToken ? "bearer auth" : "no auth";
+    console.error(
+      `AgentDomainService MCP server listening on http://${config.host}:${config.port}/sse (${backend}, ${auth})`
+    );
+    return;
+  }
+
+  const transport = new StdioServerTransport();
+  await createServer().connect(transport);
+  console.error(`AgentDomainService MCP server running on stdio (${backend})`);
+}
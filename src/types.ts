@@ -0,0 +1,374 @@
+/**
+ * Where a result came from in the server's local cache
+ */
+export interface LocalCacheInfo {
+  hit: boolean;
+  age_seconds: number;
+  expires_at: string | null;
+}
+
+/**
+ * Total cost of holding a domain over several years, from its purchase
+ * and renewal prices (null when a needed price is unknown)
+ */
+export interface CostBreakdown {
+  year_1: number | null;
+  year_3: number | null;
+  year_5: number | null;
+  year_10: number | null;
+  /** Renewal is much more expensive than the first year */
+  renewal_jump: boolean;
+}
+
+/**
+ * How a budget filter was applied to a listing
+ */
+export interface BudgetSummary {
+  years: number;
+  max_total: number | null;
+  excluded_count: number;
+}
+
+export interface DomainCheckResult {
+  domain: string;
+  available: boolean;
+  status: "available" | "registered" | "unknown";
+  checked_at: string;
+  expires_at: string | null;
+  /** The provider that answered: "api" or "rdap" */
+  source: string;
+  purchase_price: number | null;
+  renewal_price: number | null;
+  premium: boolean;
+  /** Providers tried before the one that answered, and why they failed */
+  provider_failures?: Array<{
+    provider: string;
+    error: string;
+  }>;
+  /** The API's own cache metadata, when it sent any */
+  cache?: {
+    hit: boolean;
+    ttl_seconds: number;
+    stale: boolean;
+  };
+  suggestions?: Array<{
+    domain: string;
+    available: boolean;
+    purchase_price: number | null;
+    renewal_price: number | null;
+    premium: boolean;
+  }>;
+  costs?: CostBreakdown;
+  local_cache?: LocalCacheInfo;
+}
+
+export interface ExploreResult {
+  name: string;
+  checked_at: string;
+  summary: string;
+  available_count: number;
+  taken_count: number;
+  tlds_checked: string[];
+  results: Array<{
+    tld: string;
+    domain: string;
+    available: boolean;
+    status: "available" | "registered" | "unknown";
+    purchase_price: number | null;
+    renewal_price: number | null;
+    premium: boolean;
+    costs?: CostBreakdown;
+  }>;
+  budget?: BudgetSummary;
+  local_cache?: LocalCacheInfo;
+}
+
+export interface BrainstormResult {
+  suggestions: Array<{
+    name: string;
+    domain: string;
+    tld: string;
+    available: boolean;
+    purchase_price: number | null;
+    renewal_price?: number | null;
+    premium: boolean;
+    costs?: CostBreakdown;
+  }>;
+  prompt: string;
+  generated_at: string;
+  /** "sampling" when the names came from the client's model */
+  source?: "api" | "sampling";
+  /** Model that suggested the names, for sampling */
+  model?: string;
+  /** Why the API was skipped in favor of sampling */
+  fallback_reason?: string;
+  /** Constraints the suggestions were filtered by, when any were given */
+  constraints?: {
+    max_length: number | null;
+    tlds: string[] | null;
+    max_price: number | null;
+    banned_words: string[];
+    banned_letters: string[];
+    available_only: boolean;
+    style: "real_word" | "invented" | "compound" | null;
+  };
+  /** How the brainstorm loop went: rounds requested and what was rejected */
+  rounds?: {
+    count: number;
+    max: number;
+    target_count: number;
+    stopped_because: "target_reached" | "max_rounds" | "no_new_candidates";
+    rejection_counts: Partial<Record<BrainstormRejectionReason, number>>;
+    rejected: Array<{
+      domain: string;
+      reason: BrainstormRejectionReason;
+    }>;
+  };
+  budget?: BudgetSummary;
+}
+
+export type BrainstormRejectionReason =
+  | "taken"
+  | "too_long"
+  | "wrong_tld"
+  | "over_price"
+  | "banned_word"
+  | "banned_letter";
+
+/** Local, deterministic checks on how a name reads and sounds */
+export interface LinguisticAnalysis {
+  /** The label analyzed, without the TLD */
+  name: string;
+  length: number;
+  syllables: number;
+  /** Runs of three or more consonants, e.g. "ngth" */
+  consonant_clusters: string[];
+  /** Letter sequences that read as something else, e.g. "rn" as "m" */
+  ambiguous_sequences: Array<{
+    sequence: string;
+    reads_as: string;
+  }>;
+  hyphens: number;
+  digits: number;
+  radio_test: {
+    /** Whether someone who hears the name can spell it */
+    passes: boolean;
+    issues: string[];
+  };
+  flagged_words: Array<{
+    word: string;
+    language: string;
+    meaning: string;
+    severity: "profanity" | "negative";
+    /** Only appears across a word boundary, e.g. "rapist" in "therapistfinder" */
+    hidden: boolean;
+  }>;
+  strengths: string[];
+  warnings: string[];
+}
+
+export interface AnalyzeResult {
+  domain: string;
+  /** 0-100 per dimension; null when the API left a score out */
+  scores: {
+    memorability: number | null;
+    brandability: number | null;
+    length: number | null;
+    pronunciation: number | null;
+    seo: number | null;
+    overall: number | null;
+  } | null;
+  pros: string[];
+  cons: string[];
+  verdict: string | null;
+  linguistics?: LinguisticAnalysis;
+  /** Why the remote analysis failed, when only local checks are shown */
+  remote_error?: string;
+  local_cache?: LocalCacheInfo;
+}
+
+/** Where a registration stands on the way to being deleted */
+export type DropPhase =
+  | "available"
+  | "registered"
+  | "auto_renew_grace"
+  | "redemption"
+  | "pending_delete";
+
+export interface DomainDetailsResult {
+  domain: string;
+  registered: boolean;
+  checked_at: string;
+  /** Always "rdap": details come from the registry's RDAP server */
+  source: string;
+  registrar: {
+    name: string | null;
+    iana_id: string | null;
+  } | null;
+  created_at: string | null;
+  updated_at: string | null;
+  expires_at: string | null;
+  /** EPP status codes, e.g. clientTransferProhibited, redemptionPeriod */
+  statuses: string[];
+  nameservers: string[];
+  dnssec: "signed" | "unsigned" | "unknown";
+  drop: {
+    phase: DropPhase;
+    /** Earliest date the name could be registered again, if it lapses */
+    estimated_drop_at: string | null;
+    /** The registration is on hold and does not resolve */
+    on_hold: boolean;
+    summary: string;
+  };
+  local_cache?: LocalCacheInfo;
+}
+
+export interface SearchResult {
+  count: number;
+  filters: {
+    category: string | null;
+    max_price: number | null;
+    min_price: number | null;
+    tlds: string[] | null;
+    sort: string;
+    limit: number;
+    min_length?: number | null;
+    max_length?: number | null;
+    exclude_hyphens?: boolean;
+    exclude_digits?: boolean;
+    premium?: "only" | "exclude" | null;
+    contains?: string | null;
+    starts_with?: string | null;
+  };
+  /** Matching domains skipped before this page */
+  offset?: number;
+  /** Pass as `cursor` to get the next page; null on the last page */
+  next_cursor?: string | null;
+  domains: Array<{
+    domain: string;
+    name: string;
+    tld: string;
+    price: number | null;
+    price_formatted: string | null;
+    renewal_price?: number | null;
+    premium: boolean;
+    categories: string[];
+    costs?: CostBreakdown;
+  }>;
+  budget?: BudgetSummary;
+}
+
+export interface CategoriesResult {
+  total_available_domains: number;
+  category_count: number;
+  categories: Array<{
+    slug: string;
+    title: string;
+    description: string | null;
+    available_domains: number;
+  }>;
+  local_cache?: LocalCacheInfo;
+}
+
+export interface BulkCheckResult {
+  checked_at: string;
+  total: number;
+  available_count: number;
+  taken_count: number;
+  failed_count: number;
+  results: DomainCheckResult[];
+  failures: Array<{
+    domain: string;
+    error: string;
+  }>;
+  budget?: BudgetSummary;
+}
+
+export interface DefensiveVariantsResult {
+  domain: string;
+  checked_at: string;
+  generated_count: number;
+  checked_count: number;
+  available_count: number;
+  registered_count: number;
+  /** Lowest risk level included */
+  min_risk: "high" | "medium" | "low";
+  /** Riskiest first */
+  variants: Array<{
+    domain: string;
+    display: string;
+    technique: string;
+    risk: "high" | "medium" | "low";
+    risk_score: number;
+    available: boolean;
+    status: "available" | "registered" | "unknown";
+    purchase_price: number | null;
+    renewal_price: number | null;
+    premium: boolean;
+    costs?: CostBreakdown;
+  }>;
+  /** What registering every available variant would cost */
+  total_cost: {
+    domain_count: number;
+    first_year: number;
+    yearly_renewal: number;
+    /** Available variants without a price, left out of the totals */
+    unpriced_count: number;
+  };
+  failures: Array<{
+    domain: string;
+    error: string;
+  }>;
+}
+
+export interface CompareResult {
+  compared_at: string;
+  weights: {
+    memorability: number;
+    brandability: number;
+    length: number;
+    pronunciation: number;
+    seo: number;
+    overall: number;
+    price: number;
+  };
+  rows: Array<{
+    rank: number;
+    domain: string;
+    available: boolean | null;
+    status: DomainCheckResult["status"] | null;
+    purchase_price: number | null;
+    renewal_price: number | null;
+    premium: boolean;
+    scores: AnalyzeResult["scores"] | null;
+    price_score: number | null;
+    weighted_score: number | null;
+  }>;
+  recommendation: string | null;
+  failures: Array<{
+    domain: string;
+    error: string;
+  }>;
+}
+
+export interface VariationsResult {
+  base: string;
+  checked_at: string;
+  generated_count: number;
+  checked_count: number;
+  available_count: number;
+  tlds: string[] | null;
+  available: Array<{
+    domain: string;
+    name: string;
+    tld: string;
+    rule: string;
+    purchase_price: number | null;
+    renewal_price: number | null;
+    premium: boolean;
+  }>;
+  failures: Array<{
+    domain: string;
+    error: string;
+  }>;
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { generateVariations, splitWords } from "./variations.js";
+
+const options = { maxLength: 63, exclude: [] };
+
+describe("splitWords", () => {
+  it("splits on separators and camelCase", () => {
+    assert.deepEqual(splitWords("quickPulse"), ["quick", "pulse"]);
+    assert.deepEqual(splitWords(" data_flow-labs.io "), ["data", "flow", "labs", "io"]);
+  });
+
+  it("keeps letters outside ASCII", () => {
+    assert.deepEqual(splitWords("café"), ["café"]);
+    assert.deepEqual(splitWords("CaféNoir"), ["café", "noir"]);
+    assert.deepEqual(splitWords("über straße"), ["über", "straße"]);
+  });
+});
+
+describe("generateVariations", () => {
+  it("is deterministic and never repeats the base name", () => {
+    const first = generateVariations("quickpulse", options);
+    assert.deepEqual(generateVariations("quickpulse", options), first);
+    const names = first.map((v) => v.name);
+    assert.ok(!names.includes("quickpulse"));
+    assert.equal(new Set(names).size, names.length);
+  });
+
+  it("covers every rule for a compound name, interleaved", () => {
+    const variants = generateVariations("quick pulse", options);
+    assert.deepEqual(
+      variants.slice(0, 6).map((v) => v.rule),
+      ["prefix", "suffix", "plural", "hyphenated", "vowel_drop", "word_swap"]
+    );
+    const names = variants.map((v) => v.name);
+    const expected = ["getquickpulse", "quickpulsehq", "quickpulses", "quick-pulse", "qckpls", "pulsequick"];
+    for (const name of expected) {
+      assert.ok(names.includes(name), name);
+    }
+  });
+
+  it("applies the length limit and exclusions", () => {
+    const variants = generateVariations("pulse", { maxLength: 8, exclude: ["get*", "hub"] });
+    const names = variants.map((v) => v.name);
+    assert.ok(names.every((n) => n.length <= 8));
+    assert.ok(!names.some((n) => n.startsWith("get") || n.includes("hub")));
+    assert.ok(names.includes("trypulse"));
+  });
+
+  it("builds Unicode variants and returns them as punycode labels", () => {
+    const names = generateVariations("café", options).map((v) => v.name);
+    assert.ok(names.includes("xn--getcaf-gva"), names.join(" "));
+    assert.ok(names.includes("xn--cafs-dpa"));
+    assert.ok(!names.some((n) => n === "caf" || n.startsWith("getcaf")));
+  });
+
+  it("rejects input without letters or digits", () => {
+    assert.throws(() => generateVariations("--", options), /no letters or digits/);
+  });
+});
@@ -0,0 +1,215 @@
+import { normalizeName } from "./domain.js";
+import { InvalidInputError } from "./errors.js";
+
+/**
+ * Deterministic name variations for when a name is taken everywhere.
+ *
+ * Variants come from fixed rules (affixes, plurals, hyphenation, vowel
+ * dropping, word-order swaps), so the same base always yields the same
+ * candidates in the same order. Compound names are split on spaces,
+ * hyphens, underscores and camelCase in the raw input.
+ */
+
+export type VariationRule =
+  | "prefix"
+  | "suffix"
+  | "plural"
+  | "hyphenated"
+  | "vowel_drop"
+  | "word_swap";
+
+export interface NameVariant {
+  name: string;
+  rule: VariationRule;
+}
+
+export interface VariationOptions {
+  /** Drop variants longer than this many characters */
+  maxLength: number;
+  /** Drop variants matching any of these; `*` is a wildcard, otherwise substring */
+  exclude: string[];
+}
+
+const PREFIXES = ["get", "try", "use", "go", "my"];
+const SUFFIXES = ["hq", "app", "labs", "ly", "hub"];
+const VOWELS = /[aeiou]/;
+const MIN_VOWEL_DROP_LENGTH = 3;
+const MAX_LABEL_LENGTH = 63;
+
+/**
+ * Split raw input into lowercase words on camelCase and anything that is
+ * not a letter or digit. Letters outside ASCII are kept, so "café" stays
+ * whole and is converted to punycode only once a variant is built.
+ */
+export function splitWords(input: string): string[] {
+  return input
+    .trim()
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .map((w) => w.toLowerCase())
+    .filter(Boolean);
+}
+
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh)$/.test(word)) return `${word}es`;
+  return `${word}s`;
+}
+
+function singularize(word: string): string | null {
+  if (/[^aeiou]ies$/.test(word)) return `${word.slice(0, -3)}y`;
+  if (/(x|z|ch|sh|ss)es$/.test(word)) return word.slice(0, -2);
+  if (/[^s]s$/.test(word)) return word.slice(0, -1);
+  return null;
+}
+
+/**
+ * "flicker" -> "flickr": drop the vowel before a final consonant
+ */
+function dropLastVowel(word: string): string | null {
+  const match = word.match(/^(.*[^aeiou])[aeiou]([^aeiou])$/);
+  return match ? `${match[1]}${match[2]}` : null;
+}
+
+/**
+ * "quickpulse" -> "qckpls": drop every vowel after the first letter
+ */
+function dropAllVowels(word: string): string | null {
+  const dropped = word[0] + word.slice(1).replace(new RegExp(VOWELS, "g"), "");
+  return dropped.length >= MIN_VOWEL_DROP_LENGTH ? dropped : null;
+}
+
+function permutations(words: string[]): string[][] {
+  if (words.length <= 1) return [words];
+  return words.flatMap((word, i) =>
+    permutations([...words.slice(0, i), ...words.slice(i + 1)]).map((rest) => [
+      word,
+      ...rest,
+    ])
+  );
+}
+
+function isValidLabel(name: string): boolean {
+  return (
+    name.length > 0 &&
+    name.length <= MAX_LABEL_LENGTH &&
+    /^[a-z0-9-]+$/.test(name) &&
+    !name.startsWith("-") &&
+    !name.endsWith("-") &&
+    !name.includes("--")
+  );
+}
+
+/**
+ * The ASCII label a variant registers as, or null if it cannot be one
+ */
+function toLabel(name: string): string | null {
+  if (/^[\x00-\x7f]*$/.test(name)) {
+    return isValidLabel(name) ? name : null;
+  }
+  try {
+    return normalizeName(name);
+  } catch {
+    return null;
+  }
+}
+
+function matchesPattern(name: string, pattern: string): boolean {
+  const p = pattern.trim().toLowerCase();
+  if (!p) return false;
+  if (!p.includes("*")) return name.includes(p);
+  const escaped = p.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`).test(name);
+}
+
+/**
+ * Build deduplicated variants of a base name, interleaved by rule.
+ * The base name itself is never included.
+ */
+export function generateVariations(
+  base: string,
+  options: VariationOptions
+): NameVariant[] {
+  const words = splitWords(base);
+  if (words.length === 0) {
+    throw new InvalidInputError(`Invalid name "${base}": it has no letters or digits`);
+  }
+  const joined = words.join("");
+  const last = words[words.length - 1];
+  const head = words.slice(0, -1).join("");
+  const candidates: NameVariant[] = [];
+  const add = (name: string | null, rule: VariationRule) => {
+    if (name) candidates.push({ name, rule });
+  };
+
+  for (const prefix of PREFIXES) {
+    add(`${prefix}${joined}`, "prefix");
+  }
+  for (const suffix of SUFFIXES) {
+    add(`${joined}${suffix}`, "suffix");
+  }
+
+  add(`${head}${pluralize(last)}`, "plural");
+  const singular = singularize(last);
+  if (singular) add(`${head}${singular}`, "plural");
+
+  if (words.length > 1) {
+    add(words.join("-"), "hyphenated");
+  }
+  for (const prefix of PREFIXES.slice(0, 2)) {
+    add(`${prefix}-${joined}`, "hyphenated");
+  }
+  for (const suffix of SUFFIXES.slice(0, 3)) {
+    add(`${joined}-${suffix}`, "hyphenated");
+  }
+
+  const dropped = dropLastVowel(last);
+  if (dropped) add(`${head}${dropped}`, "vowel_drop");
+  add(dropAllVowels(joined), "vowel_drop");
+
+  if (words.length > 1 && words.length <= 3) {
+    for (const order of permutations(words).slice(1)) {
+      add(order.join(""), "word_swap");
+    }
+  } else if (words.length > 3) {
+    add([...words].reverse().join(""), "word_swap");
+  }
+
+  const seen = new Set<string>([toLabel(joined) ?? joined]);
+  const kept: NameVariant[] = [];
+  for (const { name, rule } of candidates) {
+    const label = toLabel(name);
+    if (!label || seen.has(label)) continue;
+    seen.add(label);
+    if (
+      label.length <= options.maxLength &&
+      !options.exclude.some(
+        (pattern) => matchesPattern(name, pattern) || matchesPattern(label, pattern)
+      )
+    ) {
+      kept.push({ name: label, rule });
+    }
+  }
+  return interleaveByRule(kept);
+}
+
+/**
+ * Take one variant from each rule in turn, so a small limit still covers
+ * every kind of variation
+ */
+function interleaveByRule(variants: NameVariant[]): NameVariant[] {
+  const groups = new Map<VariationRule, NameVariant[]>();
+  for (const variant of variants) {
+    const group = groups.get(variant.rule) ?? [];
+    group.push(variant);
+    groups.set(variant.rule, group);
+  }
+  const ordered: NameVariant[] = [];
+  const queues = [...groups.values()];
+  for (let i = 0; ordered.length < variants.length; i++) {
+    for (const queue of queues) {
+      if (i < queue.length) ordered.push(queue[i]);
+    }
+  }
+  return ordered;
+}
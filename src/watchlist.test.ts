@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { beforeEach, describe, it } from "node:test";
+import type { DomainCheckResult } from "./types.js";
+import { createWatchlist, type Watchlist } from "./watchlist.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function lookup(domain: string, overrides: Partial<DomainCheckResult> = {}): DomainCheckResult {
+  return {
+    domain,
+    available: false,
+    status: "registered",
+    checked_at: new Date().toISOString(),
+    expires_at: null,
+    source: "api",
+    purchase_price: null,
+    renewal_price: null,
+    premium: false,
+    cache: { hit: false, ttl_seconds: 300, stale: false },
+    ...overrides,
+  };
+}
+
+describe("watchlist", () => {
+  let filePath: string;
+  let current: Map<string, DomainCheckResult | Error>;
+  let watchlist: Watchlist;
+  const options = { expiryWarningDays: 30, concurrency: 2 };
+
+  beforeEach(async () => {
+    filePath = join(await mkdtemp(join(tmpdir(), "watchlist-test-")), "watchlist.json");
+    current = new Map();
+    watchlist = createWatchlist(filePath, async (domain) => {
+      const result = current.get(domain);
+      if (result instanceof Error) throw result;
+      return result ?? lookup(domain);
+    });
+  });
+
+  it("reports status, price, and premium changes against the baseline", async () => {
+    current.set("acme.com", lookup("acme.com"));
+    const forSale = { available: true, status: "available", renewal_price: 40 } as const;
+    current.set("acme.io", lookup("acme.io", { ...forSale, purchase_price: 30 }));
+    await watchlist.add("acme.com", "main name");
+    await watchlist.add("acme.io", null);
+
+    current.set("acme.com", lookup("acme.com", { ...forSale, purchase_price: 12, renewal_price: null }));
+    current.set("acme.io", lookup("acme.io", { ...forSale, purchase_price: 25, premium: true }));
+    const result = await watchlist.refresh(options);
+
+    assert.equal(result.checked, 2);
+    assert.deepEqual(
+      result.changes.map((c) => `${c.domain} ${c.type}`),
+      ["acme.com status", "acme.io purchase_price", "acme.io premium"]
+    );
+    assert.match(result.changes[0].message, /acme\.com is now AVAILABLE at \$12 \(was registered\)/);
+    assert.deepEqual(await watchlist.changes(), result.changes);
+
+    const again = await watchlist.refresh(options);
+    assert.deepEqual(again.changes, []);
+  });
+
+  it("does not report prices a later lookup could not get", async () => {
+    const priced = { purchase_price: 12, renewal_price: 15 };
+    current.set("acme.com", lookup("acme.com", priced));
+    await watchlist.add("acme.com", null);
+
+    current.set("acme.com", lookup("acme.com"));
+    const unpriced = await watchlist.refresh(options);
+    assert.deepEqual(unpriced.changes, []);
+
+    current.set("acme.com", lookup("acme.com", { ...priced, renewal_price: 18 }));
+    const repriced = await watchlist.refresh(options);
+    assert.deepEqual(repriced.changes.map((c) => c.type), ["renewal_price"]);
+    assert.match(repriced.changes[0].message, /from \$15 to \$18/);
+  });
+
+  it("does not compare prices across providers", async () => {
+    current.set("acme.com", lookup("acme.com", { purchase_price: 12, premium: true }));
+    await watchlist.add("acme.com", null);
+
+    current.set("acme.com", lookup("acme.com", { source: "rdap" }));
+    const failover = await watchlist.refresh(options);
+    assert.deepEqual(failover.changes, []);
+    const [stored] = await watchlist.list();
+    assert.equal(stored.snapshot?.source, "api");
+    assert.equal(stored.snapshot?.purchase_price, 12);
+
+    current.set("acme.com", lookup("acme.com", { purchase_price: 14, premium: true }));
+    const recovered = await watchlist.refresh(options);
+    assert.deepEqual(recovered.changes.map((c) => c.type), ["purchase_price"]);
+  });
+
+  it("warns once when a registration enters the expiry window", async () => {
+    const soon = new Date(Date.now() + 10 * DAY_MS).toISOString();
+    const later = new Date(Date.now() + 90 * DAY_MS).toISOString();
+    current.set("acme.com", lookup("acme.com", { expires_at: later }));
+    await watchlist.add("acme.com", null);
+
+    current.set("acme.com", lookup("acme.com", { expires_at: soon }));
+    const first = await watchlist.refresh(options);
+    assert.deepEqual(first.changes.map((c) => c.type), ["expiring"]);
+    assert.equal(first.expiring_soon[0].domain, "acme.com");
+
+    const second = await watchlist.refresh(options);
+    assert.deepEqual(second.changes, []);
+    assert.equal(second.expiring_soon.length, 1);
+  });
+
+  it("keeps a domain whose first lookup fails and sets its baseline on refresh", async () => {
+    current.set("acme.com", new Error("upstream down"));
+    const { entry, lookupError } = await watchlist.add("acme.com", null);
+    assert.equal(lookupError, "upstream down");
+    assert.equal(entry.snapshot, null);
+
+    const failed = await watchlist.refresh(options);
+    assert.deepEqual(failed.failures, [{ domain: "acme.com", error: "upstream down" }]);
+
+    current.set("acme.com", lookup("acme.com"));
+    const refreshed = await watchlist.refresh(options);
+    assert.deepEqual(refreshed.changes, []);
+    const [stored] = await watchlist.list();
+    assert.equal(stored.snapshot?.status, "registered");
+  });
+
+  it("persists to its file", async () => {
+    await watchlist.add("acme.com", "keep an eye on it");
+    assert.equal(await watchlist.remove("other.com"), false);
+
+    const reloaded = createWatchlist(filePath, async (domain) => lookup(domain));
+    const [stored] = await reloaded.list();
+    assert.equal(stored.domain, "acme.com");
+    assert.equal(stored.note, "keep an eye on it");
+    assert.equal(await reloaded.remove("acme.com"), true);
+    assert.deepEqual(await reloaded.list(), []);
+  });
+});
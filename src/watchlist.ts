@@ -0,0 +1,387 @@
+import { mapWithConcurrency } from "./concurrency.js";
+import { readJsonFile, writeJsonFile } from "./json-store.js";
+import type { DomainCheckResult } from "./types.js";
+
+/**
+ * Persistent domain watchlist.
+ *
+ * Each watched domain keeps the snapshot from its last check. Refreshing
+ * re-checks every domain, diffs against that snapshot, and appends what
+ * changed to a bounded change log.
+ */
+
+export interface WatchSnapshot {
+  available: boolean;
+  status: DomainCheckResult["status"];
+  purchase_price: number | null;
+  renewal_price: number | null;
+  premium: boolean;
+  expires_at: string | null;
+  /** Provider that answered; missing in snapshots from older versions */
+  source?: string;
+}
+
+export interface WatchedDomain {
+  domain: string;
+  note: string | null;
+  added_at: string;
+  last_checked_at: string | null;
+  snapshot: WatchSnapshot | null;
+}
+
+export type WatchChangeType =
+  | "status"
+  | "purchase_price"
+  | "renewal_price"
+  | "premium"
+  | "expiring";
+
+export interface WatchChange {
+  domain: string;
+  type: WatchChangeType;
+  detected_at: string;
+  message: string;
+  previous: unknown;
+  current: unknown;
+}
+
+export interface WatchlistRefreshResult {
+  refreshed_at: string;
+  checked: number;
+  changes: WatchChange[];
+  expiring_soon: Array<{
+    domain: string;
+    expires_at: string;
+    days_left: number;
+  }>;
+  failures: Array<{
+    domain: string;
+    error: string;
+  }>;
+}
+
+interface WatchlistData {
+  domains: WatchedDomain[];
+  changes: WatchChange[];
+}
+
+const MAX_CHANGE_LOG = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function snapshotOf(result: DomainCheckResult): WatchSnapshot {
+  return {
+    available: result.available,
+    status: result.status,
+    purchase_price: result.purchase_price,
+    renewal_price: result.renewal_price,
+    premium: result.premium,
+    expires_at: result.expires_at,
+    source: result.source,
+  };
+}
+
+function daysUntil(date: string | null, now: number): number | null {
+  if (!date) return null;
+  const time = Date.parse(date);
+  if (Number.isNaN(time)) return null;
+  return Math.floor((time - now) / DAY_MS);
+}
+
+function formatPrice(price: number | null): string {
+  return price === null ? "unknown" : `$${price}`;
+}
+
+/** Whether two snapshots' prices and premium flags came from one provider */
+function sameSource(previous: WatchSnapshot, current: WatchSnapshot): boolean {
+  return previous.source === undefined || previous.source === current.source;
+}
+
+/**
+ * Carry prices over from the previous snapshot when a lookup with the same
+ * status could not get them, so the next real price change is still seen.
+ * A lookup answered by another provider keeps the previous provider's
+ * prices whole, since the two do not price alike.
+ */
+function keepKnownPrices(
+  previous: WatchSnapshot | null,
+  current: WatchSnapshot
+): WatchSnapshot {
+  if (!previous || previous.status !== current.status) return current;
+  if (!sameSource(previous, current)) {
+    return {
+      ...current,
+      purchase_price: previous.purchase_price,
+      renewal_price: previous.renewal_price,
+      premium: previous.premium,
+      source: previous.source,
+    };
+  }
+  return {
+    ...current,
+    purchase_price: current.purchase_price ?? previous.purchase_price,
+    renewal_price: current.renewal_price ?? previous.renewal_price,
+  };
+}
+
+/**
+ * Compare two snapshots of the same domain and describe what changed
+ */
+function diffSnapshots(
+  domain: string,
+  previous: WatchSnapshot,
+  current: WatchSnapshot,
+  expiryWarningDays: number,
+  previousCheckedAt: number,
+  now: number
+): WatchChange[] {
+  const detected_at = new Date(now).toISOString();
+  const changes: WatchChange[] = [];
+  const push = (type: WatchChangeType, message: string, prev: unknown, curr: unknown) =>
+    changes.push({ domain, type, detected_at, message, previous: prev, current: curr });
+
+  const statusChanged = previous.status !== current.status;
+  if (statusChanged) {
+    const price =
+      current.available && current.purchase_price !== null
+        ? ` at ${formatPrice(current.purchase_price)}`
+        : "";
+    const message = current.available
+      ? `${domain} is now AVAILABLE${price} (was ${previous.status})`
+      : `${domain} changed from ${previous.status} to ${current.status}`;
+    push("status", message, previous.status, current.status);
+  }
+
+  // A missing price is not a change: prices vanish with a status flip,
+  // which is reported above, or when a lookup could not get them. Nor is
+  // a difference between providers, e.g. RDAP during an API outage.
+  const comparable = sameSource(previous, current);
+  const priceComparable = (a: number | null, b: number | null) =>
+    comparable && a !== null && b !== null;
+  if (
+    previous.purchase_price !== current.purchase_price &&
+    priceComparable(previous.purchase_price, current.purchase_price)
+  ) {
+    push(
+      "purchase_price",
+      `${domain} purchase price changed from ${formatPrice(previous.purchase_price)} to ${formatPrice(current.purchase_price)}`,
+      previous.purchase_price,
+      current.purchase_price
+    );
+  }
+  if (
+    previous.renewal_price !== current.renewal_price &&
+    priceComparable(previous.renewal_price, current.renewal_price)
+  ) {
+    push(
+      "renewal_price",
+      `${domain} renewal price changed from ${formatPrice(previous.renewal_price)} to ${formatPrice(current.renewal_price)}`,
+      previous.renewal_price,
+      current.renewal_price
+    );
+  }
+  if (comparable && previous.premium !== current.premium) {
+    push(
+      "premium",
+      current.premium
+        ? `${domain} is now a premium domain`
+        : `${domain} is no longer a premium domain`,
+      previous.premium,
+      current.premium
+    );
+  }
+
+  // Only log an expiry once, when it first enters the warning window
+  const daysLeft = daysUntil(current.expires_at, now);
+  const previousDaysLeft = daysUntil(previous.expires_at, previousCheckedAt);
+  if (
+    daysLeft !== null &&
+    daysLeft <= expiryWarningDays &&
+    (previousDaysLeft === null ||
+      previousDaysLeft > expiryWarningDays ||
+      previous.expires_at !== current.expires_at)
+  ) {
+    push(
+      "expiring",
+      daysLeft < 0
+        ? `${domain} registration expired on ${current.expires_at}`
+        : `${domain} registration expires in ${daysLeft} days (${current.expires_at})`,
+      previous.expires_at,
+      current.expires_at
+    );
+  }
+
+  return changes;
+}
+
+/**
+ * Create a watchlist persisted to the given JSON file
+ */
+export function createWatchlist(
+  filePath: string,
+  checkDomain: (domain: string) => Promise<DomainCheckResult>
+) {
+  let data: WatchlistData | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load(): Promise<WatchlistData> {
+    if (!data) {
+      data = await readJsonFile<WatchlistData>(filePath, { domains: [], changes: [] });
+    }
+    return data;
+  }
+
+  async function save(): Promise<void> {
+    if (!data) return;
+    data.changes = data.changes.slice(-MAX_CHANGE_LOG);
+    await writeJsonFile(filePath, data);
+  }
+
+  // Serialize operations so concurrent tool calls cannot clobber the file
+  function exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const next = queue.then(operation);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    list(): Promise<WatchedDomain[]> {
+      return exclusive(async () => (await load()).domains);
+    },
+
+    changes(): Promise<WatchChange[]> {
+      return exclusive(async () => (await load()).changes);
+    },
+
+    /**
+     * Start watching a domain and record its current state as the baseline.
+     * A failed lookup does not stop the add; the next refresh sets the
+     * baseline instead.
+     */
+    add(
+      domain: string,
+      note: string | null
+    ): Promise<{ entry: WatchedDomain; lookupError: string | null }> {
+      return exclusive(async () => {
+        const store = await load();
+        const now = new Date().toISOString();
+
+        let entry = store.domains.find((d) => d.domain === domain);
+        if (!entry) {
+          entry = {
+            domain,
+            note,
+            added_at: now,
+            last_checked_at: null,
+            snapshot: null,
+          };
+          store.domains.push(entry);
+        } else if (note !== null) {
+          entry.note = note;
+        }
+
+        let lookupError: string | null = null;
+        try {
+          const result = await checkDomain(domain);
+          entry.last_checked_at = result.checked_at || now;
+          entry.snapshot = snapshotOf(result);
+        } catch (error) {
+          lookupError = error instanceof Error ? error.message : "Unknown error";
+        }
+        await save();
+        return { entry, lookupError };
+      });
+    },
+
+    /**
+     * Stop watching a domain; returns false if it was not watched
+     */
+    remove(domain: string): Promise<boolean> {
+      return exclusive(async () => {
+        const store = await load();
+        const before = store.domains.length;
+        store.domains = store.domains.filter((d) => d.domain !== domain);
+        if (store.domains.length === before) return false;
+        await save();
+        return true;
+      });
+    },
+
+    /**
+     * Re-check every watched domain and record what changed
+     */
+    refresh(options: {
+      expiryWarningDays: number;
+      concurrency: number;
+    }): Promise<WatchlistRefreshResult> {
+      return exclusive(async () => {
+        const store = await load();
+        const settled = await mapWithConcurrency(
+          store.domains,
+          options.concurrency,
+          (entry) => checkDomain(entry.domain)
+        );
+
+        const now = Date.now();
+        const changes: WatchChange[] = [];
+        const failures: WatchlistRefreshResult["failures"] = [];
+        const expiring: WatchlistRefreshResult["expiring_soon"] = [];
+
+        settled.forEach((outcome, i) => {
+          const entry = store.domains[i];
+          if (!outcome.ok) {
+            const message =
+              outcome.error instanceof Error ? outcome.error.message : "Unknown error";
+            failures.push({ domain: entry.domain, error: message });
+            return;
+          }
+
+          const current = snapshotOf(outcome.value);
+          if (entry.snapshot) {
+            const previousCheckedAt = entry.last_checked_at
+              ? Date.parse(entry.last_checked_at)
+              : now;
+            changes.push(
+              ...diffSnapshots(
+                entry.domain,
+                entry.snapshot,
+                current,
+                options.expiryWarningDays,
+                previousCheckedAt,
+                now
+              )
+            );
+          }
+          entry.snapshot = keepKnownPrices(entry.snapshot, current);
+          entry.last_checked_at = new Date(now).toISOString();
+
+          const daysLeft = daysUntil(current.expires_at, now);
+          if (
+            current.expires_at &&
+            daysLeft !== null &&
+            daysLeft <= options.expiryWarningDays
+          ) {
+            expiring.push({
+              domain: entry.domain,
+              expires_at: current.expires_at,
+              days_left: daysLeft,
+            });
+          }
+        });
+
+        store.changes.push(...changes);
+        await save();
+
+        expiring.sort((a, b) => a.days_left - b.days_left);
+        return {
+          refreshed_at: new Date(now).toISOString(),
+          checked: store.domains.length - failures.length,
+          changes,
+          expiring_soon: expiring,
+          failures,
+        };
+      });
+    },
+  };
+}
+
+export type Watchlist = ReturnType<typeof createWatchlist>;
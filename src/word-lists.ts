@@ -0,0 +1,90 @@
+/**
+ * Words a brand name should not contain, across the languages its
+ * audience is likely to speak. Profanity is always a problem; negative
+ * words depend on context, so they are reported but weigh less. Words
+ * from non-Latin scripts are listed in their common romanization.
+ *
+ * Words are also found hidden inside longer ones, where a reader splits
+ * the name differently than intended: "therapistfinder" holds "rapist",
+ * and "expertsexchange" holds "sex" between "expert" and "change".
+ * Words that sit inside everyday ones ("gift" in "giftbox", "pedo" in
+ * "torpedo") are only matched as a whole part of the name.
+ */
+
+export interface FlaggedWord {
+  word: string;
+  language: string;
+  meaning: string;
+  severity: "profanity" | "negative";
+  /** Only flag the word as a whole part of the name, never inside another */
+  wholeOnly?: boolean;
+}
+
+export const FLAGGED_WORDS: readonly FlaggedWord[] = [
+  // English
+  { word: "fuck", language: "English", meaning: "vulgar", severity: "profanity" },
+  { word: "shit", language: "English", meaning: "vulgar", severity: "profanity" },
+  { word: "cunt", language: "English", meaning: "vulgar", severity: "profanity" },
+  { word: "bitch", language: "English", meaning: "insult", severity: "profanity" },
+  { word: "whore", language: "English", meaning: "prostitute", severity: "profanity" },
+  { word: "slut", language: "English", meaning: "insult", severity: "profanity" },
+  { word: "penis", language: "English", meaning: "anatomy", severity: "profanity" },
+  { word: "genital", language: "English", meaning: "anatomy", severity: "profanity" },
+  { word: "porn", language: "English", meaning: "pornography", severity: "profanity" },
+  { word: "sex", language: "English", meaning: "sex", severity: "profanity" },
+  { word: "rapist", language: "English", meaning: "rapist", severity: "negative" },
+  { word: "nazi", language: "English", meaning: "Nazi", severity: "negative" },
+  { word: "scam", language: "English", meaning: "fraud", severity: "negative" },
+  { word: "fraud", language: "English", meaning: "fraud", severity: "negative" },
+  { word: "death", language: "English", meaning: "death", severity: "negative" },
+  // Spanish
+  { word: "puta", language: "Spanish", meaning: "whore", severity: "profanity", wholeOnly: true },
+  { word: "mierda", language: "Spanish", meaning: "shit", severity: "profanity" },
+  { word: "pajero", language: "Spanish", meaning: "wanker", severity: "profanity" },
+  { word: "cabron", language: "Spanish", meaning: "bastard", severity: "profanity" },
+  { word: "pedo", language: "Spanish", meaning: "fart", severity: "negative", wholeOnly: true },
+  { word: "caca", language: "Spanish", meaning: "poop", severity: "negative" },
+  { word: "muerte", language: "Spanish", meaning: "death", severity: "negative" },
+  // French
+  { word: "merde", language: "French", meaning: "shit", severity: "profanity" },
+  { word: "putain", language: "French", meaning: "whore (curse)", severity: "profanity" },
+  { word: "connard", language: "French", meaning: "idiot", severity: "profanity" },
+  { word: "chier", language: "French", meaning: "to shit", severity: "profanity" },
+  { word: "con", language: "French", meaning: "idiot", severity: "negative", wholeOnly: true },
+  // German
+  { word: "scheisse", language: "German", meaning: "shit", severity: "profanity" },
+  { word: "fick", language: "German", meaning: "fuck", severity: "profanity" },
+  { word: "arsch", language: "German", meaning: "arse", severity: "profanity" },
+  { word: "mist", language: "German", meaning: "dung, rubbish", severity: "negative", wholeOnly: true },
+  { word: "gift", language: "German", meaning: "poison", severity: "negative", wholeOnly: true },
+  { word: "tot", language: "German", meaning: "dead", severity: "negative", wholeOnly: true },
+  // Italian
+  { word: "cazzo", language: "Italian", meaning: "vulgar", severity: "profanity" },
+  { word: "merda", language: "Italian/Portuguese", meaning: "shit", severity: "profanity" },
+  { word: "stronzo", language: "Italian", meaning: "turd", severity: "profanity" },
+  { word: "culo", language: "Italian/Spanish", meaning: "arse", severity: "profanity", wholeOnly: true },
+  { word: "morte", language: "Italian/Portuguese", meaning: "death", severity: "negative", wholeOnly: true },
+  // Portuguese
+  { word: "porra", language: "Portuguese", meaning: "vulgar", severity: "profanity" },
+  { word: "bosta", language: "Portuguese", meaning: "dung", severity: "profanity" },
+  // Dutch
+  { word: "kut", language: "Dutch", meaning: "vulgar", severity: "profanity" },
+  { word: "lul", language: "Dutch", meaning: "vulgar", severity: "profanity", wholeOnly: true },
+  { word: "kanker", language: "Dutch", meaning: "cancer (curse)", severity: "profanity" },
+  // Nordic
+  { word: "fitta", language: "Swedish", meaning: "vulgar", severity: "profanity" },
+  { word: "kuk", language: "Swedish/Norwegian", meaning: "vulgar", severity: "profanity" },
+  { word: "paska", language: "Finnish", meaning: "shit", severity: "profanity" },
+  { word: "vittu", language: "Finnish", meaning: "vulgar", severity: "profanity" },
+  // Polish and Russian
+  { word: "kurwa", language: "Polish", meaning: "whore (curse)", severity: "profanity" },
+  { word: "gowno", language: "Polish", meaning: "shit", severity: "profanity" },
+  { word: "govno", language: "Russian", meaning: "shit", severity: "profanity" },
+  { word: "blyat", language: "Russian", meaning: "whore (curse)", severity: "profanity" },
+  { word: "suka", language: "Russian", meaning: "bitch", severity: "profanity" },
+  { word: "pizda", language: "Russian", meaning: "vulgar", severity: "profanity" },
+  // Japanese
+  { word: "kuso", language: "Japanese", meaning: "shit", severity: "profanity" },
+  { word: "unko", language: "Japanese", meaning: "poop", severity: "negative" },
+  { word: "baka", language: "Japanese", meaning: "idiot", severity: "negative" },
+];